@@ -0,0 +1,13 @@
+// Secrets of the deployment, which `wrangler types` does not know about. Set them with `wrangler pages secret put`,
+// and for local development in .dev.vars, see .dev.vars.example. The vars of wrangler.toml are generated into
+// worker-configuration.d.ts.
+declare namespace Cloudflare {
+	interface Env {
+		// Shared secret verifying HS256 tokens, when JWT_JWKS_URL is not set
+		JWT_SECRET: string;
+		// Signs pagination cursors, required
+		CURSOR_SECRET: string;
+		// JWK Set of the private keys signing collections, collections are not signed without it
+		SIGNING_KEYS: string;
+	}
+}
@@ -0,0 +1,21 @@
+import { JWKS_MAX_AGE_SECONDS, publishedKeys } from "../lib/signing";
+import { errorProblem } from "../lib/problems";
+
+// Public keys verifying the signatures of collection documents, the kid of a signature names its key
+export async function onRequestGet<PagesFunction>(context: EventContext<Env, string, Record<string, unknown>>): Promise<Response | void> {
+    const { env, request } = context;
+
+    try {
+        return new Response(JSON.stringify(await publishedKeys(env)), {
+            status: 200,
+            headers: {
+                'Content-Type': 'application/jwk-set+json',
+                'Cache-Control': `public, max-age=${JWKS_MAX_AGE_SECONDS}`
+            }
+        });
+
+    } catch (error) {
+        console.error(`Error publishing signing keys:`, error);
+        return errorProblem(request, error);
+    }
+};
@@ -0,0 +1,22 @@
+import { openApiDocument } from "../lib/openapi";
+import { errorProblem } from "../lib/problems";
+
+export async function onRequestGet<PagesFunction>(context: EventContext<Env, string, Record<string, unknown>>): Promise<Response | void> {
+    const { env, request } = context;
+
+    try {
+        const document = await openApiDocument(env, request);
+
+        return new Response(JSON.stringify(document), {
+            status: 200,
+            headers: {
+                'Content-Type': 'application/json',
+                'Cache-Control': 'public, max-age=300'
+            }
+        });
+
+    } catch (error) {
+        console.error(`Error serving OpenAPI document:`, error);
+        return errorProblem(request, error);
+    }
+};
@@ -0,0 +1,23 @@
+import { stringify } from "yaml";
+import { openApiDocument } from "../lib/openapi";
+import { errorProblem } from "../lib/problems";
+
+export async function onRequestGet<PagesFunction>(context: EventContext<Env, string, Record<string, unknown>>): Promise<Response | void> {
+    const { env, request } = context;
+
+    try {
+        const document = await openApiDocument(env, request);
+
+        return new Response(stringify(document), {
+            status: 200,
+            headers: {
+                'Content-Type': 'application/yaml',
+                'Cache-Control': 'public, max-age=300'
+            }
+        });
+
+    } catch (error) {
+        console.error(`Error serving OpenAPI document:`, error);
+        return errorProblem(request, error);
+    }
+};
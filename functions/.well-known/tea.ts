@@ -0,0 +1,25 @@
+import { teaApiVersions } from "../lib/tei";
+
+// Discovery document, clients resolving a TEI fetch it from https://<domain>/.well-known/tea
+export async function onRequestGet<PagesFunction>(context: EventContext<Env, string, Record<string, unknown>>): Promise<Response | void> {
+    const url = new URL(context.request.url);
+
+    const response = {
+        schemaVersion: 1,
+        endpoints: [
+            {
+                url: url.origin,
+                versions: teaApiVersions,
+                priority: 1
+            }
+        ]
+    };
+
+    return new Response(JSON.stringify(response), {
+        status: 200,
+        headers: {
+            'Content-Type': 'application/json',
+            'Cache-Control': 'public, max-age=3600'
+        }
+    });
+};
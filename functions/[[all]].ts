@@ -1,24 +1,130 @@
-export const artifacts = [
-    'cyclonedx', 'spdx', 'vex' , 'vdr', 'sarif', 'other'
-]
+import type { TeaPrincipal } from "./types";
+import type { PrismaClient } from "@prisma/client";
+import { artifacts, toHex } from "./lib/artifacts";
+import { contentDisposition, notModified, preconditionFailed, requestedRange } from "./lib/downloads";
+import { errorProblem, problem } from "./lib/problems";
 
+// R2 checksums compared with the checksums the artifact advertises
+const r2Checksums: Record<string, keyof R2Checksums> = {
+    'SHA-256': 'sha256',
+    'SHA-384': 'sha384',
+    'SHA-512': 'sha512'
+}
+
+// Helper function to find why a stored object differs from its artifact format, null when it matches. R2 holds the
+// SHA-256 of objects it was given one for, documents read into memory and uploads sent with a Content-Digest.
+function integrityMismatch(object: R2Object, format: { size: number | null, objectEtag: string | null, checksums: { algType: string, algValue: string }[] }): string | null {
+    if (format.size !== null && format.size !== object.size) {
+        return `size ${object.size} does not match the advertised size ${format.size}`
+    }
+    if (format.objectEtag && format.objectEtag !== object.etag) {
+        return `the stored object was replaced after the artifact was recorded`
+    }
+    for (const checksum of format.checksums) {
+        const digest = r2Checksums[checksum.algType] && object.checksums[r2Checksums[checksum.algType]]
+        if (digest instanceof ArrayBuffer && toHex(digest) !== checksum.algValue.toLowerCase()) {
+            return `${checksum.algType} checksum does not match the advertised checksum`
+        }
+    }
+    return null
+}
+
+// Serve documents stored in R2 at their object key, with conditional and range requests
 export async function artifactRewritePath<PagesFunction>(context: EventContext<Env, string, Record<string, unknown>>): Promise<Response | void> {
-    const { env, request, next } = context
+    const { env, data, request, next } = context
     const url = new URL(request.url)
-    console.log(url.pathname.slice(1))
     if (
-        artifacts.some(artifact => url.pathname.startsWith(`/${artifact}/`))
+        !artifacts.some(artifact => url.pathname.startsWith(`/${artifact}/`)) ||
+        (request.method !== 'GET' && request.method !== 'HEAD')
     ) {
-        const file = await env.r2artifacts.get(url.pathname.slice(1))
+        return next()
+    }
+
+    try {
+        const prisma = data.prisma as PrismaClient
+        const principal = data.principal as TeaPrincipal
+        const objectKey = url.pathname.slice(1)
+
+        const object = await env.r2artifacts.head(objectKey)
+        if (!object) {
+            return problem(request, 'not-found', `Artifact not found`)
+        }
+
+        const format = await prisma.teaArtifactFormat.findUnique({
+            where: {
+                objectKey
+            },
+            include: {
+                checksums: true,
+                artifact: {
+                    select: { organizationUuid: true }
+                }
+            }
+        })
+
+        // Uploaded artifacts record their organization, other organizations see them as not found
+        const organizationUuid = format?.artifact.organizationUuid || object.customMetadata?.organizationUuid
+        if (organizationUuid && organizationUuid !== principal?.organizationUuid) {
+            return problem(request, 'not-found', `Artifact not found`)
+        }
+
+        // Never serve a document that differs from what its artifact advertises
+        const mismatch = format && integrityMismatch(object, format)
+        if (mismatch) {
+            console.error(`Integrity check of ${objectKey} failed: ${mismatch}`)
+            return problem(request, 'integrity-check-failed', `The stored document no longer matches its artifact: ${mismatch}`)
+        }
+
+        // Object keys hold the artifact UUID, so a key always names the same document
+        const headers: Record<string, string> = {
+            'ETag': object.httpEtag,
+            'Last-Modified': object.uploaded.toUTCString(),
+            'Cache-Control': 'private, max-age=31536000, immutable',
+            'Vary': 'Authorization'
+        }
+
+        if (preconditionFailed(request.headers, object.httpEtag, object.uploaded)) {
+            return problem(request, 'precondition-failed', `The artifact does not match the request preconditions`, undefined, headers)
+        }
+        if (notModified(request.headers, object.httpEtag, object.uploaded)) {
+            return new Response(null, { status: 304, headers })
+        }
+
+        const range = requestedRange(request.headers, object.size, object.httpEtag, object.uploaded)
+        if (range === 'unsatisfiable') {
+            headers['Content-Range'] = `bytes */${object.size}`
+            return problem(request, 'range-not-satisfiable', `The requested range lies outside the ${object.size} bytes of the artifact`, undefined, headers)
+        }
+
+        headers['Content-Type'] = object.httpMetadata?.contentType || 'application/octet-stream'
+        headers['Content-Disposition'] = contentDisposition(objectKey.slice(objectKey.lastIndexOf('/') + 1))
+        headers['Accept-Ranges'] = 'bytes'
+        const sha256 = format?.checksums.find(checksum => checksum.algType === 'SHA-256')
+        if (sha256) {
+            const bytes = sha256.algValue.match(/../g).map(byte => parseInt(byte, 16))
+            headers['Repr-Digest'] = `sha-256=:${btoa(String.fromCharCode(...bytes))}:`
+        }
+
+        if (range) {
+            headers['Content-Range'] = `bytes ${range.offset}-${range.offset + range.length - 1}/${object.size}`
+        }
+        headers['Content-Length'] = String(range ? range.length : object.size)
+        const status = range ? 206 : 200
+
+        if (request.method === 'HEAD') {
+            return new Response(null, { status, headers })
+        }
+
+        const file = await env.r2artifacts.get(objectKey, range ? { range } : undefined)
         if (!file) {
-            return new Response(null, { status: 404 })
+            return problem(request, 'not-found', `Artifact not found`)
         }
-        return new Response(file.body, {
-            headers: { "Content-Type": file.httpMetadata.contentType },
-        })        
-    }
+        return new Response(file.body, { status, headers })
 
-    return next()
+    } catch (error) {
+        console.error(`Error downloading artifact:`, error)
+        return errorProblem(request, error)
+    }
 }
 
 export const onRequest = [ artifactRewritePath ];
@@ -1,5 +1,22 @@
 import { PrismaD1 } from '@prisma/adapter-d1';
 import { Prisma, PrismaClient } from '@prisma/client';
+import { API_KEY_PREFIX, SCOPE_PUBLISHER, bearerToken, ensureOrganization, hasScope, requiredScope, unauthorized, verifyApiKey, verifyJwt } from './lib/auth';
+import { errorProblem, problem } from './lib/problems';
+import { validateRequest } from './lib/validation';
+import { cursorSecretMissing } from './lib/pagination';
+import { purgeDue, purgeTrash } from './lib/trash';
+import { deliverWebhooks, webhooksDue } from './lib/webhooks';
+import type { TeaPrincipal } from './types';
+
+// Refuse requests while required secrets are missing, rather than failing on the first list with more than one page
+export async function configuration<PagesFunction>(context: EventContext<Env, string, Record<string, unknown>>): Promise<Response | void> {
+    const { env, request, next } = context
+    if (cursorSecretMissing(env)) {
+        console.error(`CURSOR_SECRET is not configured, set it with \`wrangler pages secret put CURSOR_SECRET\``)
+        return problem(request, 'internal-error', `The server is not configured completely`)
+    }
+    return next()
+}
 
 // Connection to D1 using Prisma ORM and ensure JSON body is available as an object
 export async function setupDependencies<PagesFunction>(context: EventContext<Env, string, Record<string, unknown>>): Promise<Response | void> {
@@ -13,19 +30,30 @@ export async function setupDependencies<PagesFunction>(context: EventContext<Env
         },
         log: [{ emit: 'event', level: 'query' }]
     }
-    data.prisma = new PrismaClient(clientOptions)
+    const prisma = new PrismaClient(clientOptions)
     // @ts-ignore
-    data.prisma.$on("query", async (e: Prisma.QueryEvent) => {
+    prisma.$on("query", async (e: Prisma.QueryEvent) => {
         // @ts-ignore
         data.logger.debug(`${e.query} ${e.params}`)
     })
+    // Flag requests queueing webhook deliveries, in any transaction, so webhookDelivery posts them once answered
+    data.prisma = prisma.$extends({
+        query: {
+            teaWebhookDelivery: {
+                async create({ args, query }) {
+                    data.webhooksQueued = true
+                    return query(args)
+                }
+            }
+        }
+    })
 
     return next()
 }
 
 // Ensure authentication is always performed, with specified exceptions
 export async function authentication<PagesFunction>(context: EventContext<Env, string, Record<string, unknown>>): Promise<Response | void> {
-    const { env, request, next } = context
+    const { env, data, request, next, waitUntil } = context
     const url = new URL(request.url)
     const publicPaths = [
         '/health',
@@ -35,20 +63,87 @@ export async function authentication<PagesFunction>(context: EventContext<Env, s
         '/.well-known/ai-plugin.json',
         '/.well-known/ai-plugin.json',
         '/.well-known/openapi.yaml',
-        '/.well-known/openapi.json'
+        '/.well-known/openapi.json',
+        '/.well-known/tea',
+        '/.well-known/jwks.json',
+        '/explorer'
     ]
 
     if (publicPaths.some(path => url.pathname.startsWith(path))) {
         return next()
     }
 
-    // Perform authentication logic here
-    // If authenticated, proceed to the next middleware or handler
-    // If not authenticated, return a 401 Unauthorized response
+    const token = bearerToken(request)
+    if (!token) {
+        return unauthorized(request, `Missing bearer token`, 'invalid_request')
+    }
+
+    let principal: TeaPrincipal
+    try {
+        principal = token.startsWith(API_KEY_PREFIX)
+            ? await verifyApiKey(token, data.prisma as PrismaClient, waitUntil)
+            : await verifyJwt(token, env)
+    } catch (error) {
+        console.warn(`Rejected bearer token:`, error)
+        return unauthorized(request, `Invalid bearer token`, 'invalid_token')
+    }
+
+    // Consumer operations are reads, publisher operations are writes
+    const scope = requiredScope(request.method)
+    if (!hasScope(principal, scope)) {
+        return unauthorized(request, `Insufficient scope, ${scope} is required`, 'insufficient_scope', scope)
+    }
+
+    // Writes need the organization row to exist, API keys always belong to an existing organization
+    if (scope === SCOPE_PUBLISHER && principal.authType === 'jwt') {
+        await ensureOrganization(principal, data.prisma as PrismaClient)
+    }
 
+    data.principal = principal
+
+    return next()
+}
+
+// Validate path, query parameters and JSON bodies against the OpenAPI specs, reporting every violation
+export async function validation<PagesFunction>(context: EventContext<Env, string, Record<string, unknown>>): Promise<Response | void> {
+    const { env, request, next } = context
+    let violations
+    try {
+        violations = await validateRequest(env, request)
+    } catch (error) {
+        console.error(`Error validating request:`, error)
+        return errorProblem(request, error)
+    }
+    if (violations.length > 0) {
+        return problem(request, 'validation-failed', `The request does not match the OpenAPI specification`, { violations })
+    }
     return next()
 }
 
+// Post webhook deliveries queued by the request and retry those that are due, after the response is sent. Runs
+// after authentication, so anonymous requests never start deliveries.
+export async function webhookDelivery<PagesFunction>(context: EventContext<Env, string, Record<string, unknown>>): Promise<Response | void> {
+    const { data, next, waitUntil } = context
+    const response = await next()
+    if (webhooksDue(data.webhooksQueued === true)) {
+        waitUntil(deliverWebhooks(data.prisma as PrismaClient).catch(error => console.error(`Error delivering webhooks:`, error)))
+    }
+    return response
+}
+
+// Purge rows of the organization of the request that have been in the trash longer than the retention window, after
+// the response is sent. Pages Functions have no scheduled triggers, so authenticated traffic of each organization
+// works off its own trash.
+export async function trashPurge<PagesFunction>(context: EventContext<Env, string, Record<string, unknown>>): Promise<Response | void> {
+    const { data, env, next, waitUntil } = context
+    const response = await next()
+    const principal = data.principal as TeaPrincipal | undefined
+    if (principal && purgeDue(principal.organizationUuid)) {
+        waitUntil(purgeTrash(data.prisma as PrismaClient, env, principal.organizationUuid).catch(error => console.error(`Error purging the trash:`, error)))
+    }
+    return response
+}
+
 export async function redirect<PagesFunction>(context: EventContext<Env, string, Record<string, unknown>>): Promise<Response | void> {
     const { request, next } = context
     const redirects: Record<string, string> = {
@@ -67,6 +162,10 @@ export async function redirect<PagesFunction>(context: EventContext<Env, string,
 }
 export const onRequest = [
     redirect, // 307 Redirect using Location header
+    configuration, // Refuse requests while required secrets are missing
     setupDependencies, // Setup Prisma ORM and ensure JSON body is available
     authentication, // Authenticate requests
+    webhookDelivery, // Deliver webhooks once the response is sent
+    trashPurge, // Purge expired rows from the trash once the response is sent
+    validation, // Validate requests against the OpenAPI specs
 ]
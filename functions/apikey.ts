@@ -0,0 +1,179 @@
+import type { CreateTeaApiKeyRequest, TeaApiKey, TeaPrincipal } from "./types";
+import type { PrismaClient } from "@prisma/client";
+import { generateApiKey, hasScope, hashApiKey, knownScopes, unauthorized } from "./lib/auth";
+import { errorProblem, problem } from "./lib/problems";
+import { pageQuery, paginate, parsePageRequest } from "./lib/pagination";
+import { recordAudit } from "./lib/audit";
+import { notDeleted } from "./lib/trash";
+
+// Helper function to transform a stored API key to the API format, the key itself is never returned here
+function toApiKeyResponse(apiKey: Awaited<ReturnType<PrismaClient['teaApiKey']['findUnique']>>): TeaApiKey {
+    return {
+        identifier: apiKey.uuid,
+        name: apiKey.name,
+        prefix: apiKey.prefix,
+        scopes: JSON.parse(apiKey.scopes),
+        products: apiKey.products ? JSON.parse(apiKey.products) : undefined,
+        createdBy: apiKey.createdBy,
+        expiresAt: apiKey.expiresAt ? new Date(apiKey.expiresAt * 1000).toISOString() : undefined,
+        revokedAt: apiKey.revokedAt ? new Date(apiKey.revokedAt * 1000).toISOString() : undefined,
+        lastUsedAt: apiKey.lastUsedAt ? new Date(apiKey.lastUsedAt * 1000).toISOString() : undefined,
+        createdAt: new Date(apiKey.createdAt * 1000).toISOString()
+    };
+}
+
+export async function onRequestPost<PagesFunction>(context: EventContext<Env, string, Record<string, unknown>>): Promise<Response | void> {
+    const { data, request } = context;
+    const prisma = data.prisma as PrismaClient;
+    const principal = data.principal as TeaPrincipal;
+
+    try {
+
+        // API keys must not be able to mint further API keys
+        if (principal.authType !== 'jwt') {
+            return unauthorized(request, `API keys can only be managed with a user token`, 'insufficient_scope');
+        }
+
+        // Parse request body
+        const requestBody: CreateTeaApiKeyRequest = await request.json();
+
+        // Validate required fields
+        if (!requestBody.name) {
+            return problem(request, 'invalid-request-body', `Missing required field: name`);
+        }
+
+        if (!Array.isArray(requestBody.scopes) || requestBody.scopes.length === 0) {
+            return problem(request, 'invalid-request-body', `Missing required field: scopes`);
+        }
+
+        // A key may only carry scopes the caller already holds
+        for (const scope of requestBody.scopes) {
+            if (!knownScopes.includes(scope)) {
+                return problem(request, 'invalid-request-body', `Unknown scope: ${scope}`);
+            }
+            if (!hasScope(principal, scope)) {
+                return unauthorized(request, `Cannot grant scope ${scope} that the caller does not hold`, 'insufficient_scope', scope);
+            }
+        }
+
+        if (requestBody.products !== undefined && (!Array.isArray(requestBody.products) || requestBody.products.some(uuid => !/^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(uuid)))) {
+            return problem(request, 'invalid-request-body', `Invalid product UUID in products`);
+        }
+
+        // Products in the allow-list must belong to the organization
+        if (requestBody.products) {
+            const ownedProducts = await prisma.teaProduct.count({
+                where: {
+                    uuid: { in: requestBody.products },
+                    organizationUuid: principal.organizationUuid,
+                    ...notDeleted
+                }
+            });
+            if (ownedProducts !== new Set(requestBody.products).size) {
+                return problem(request, 'not-found', `Product not found`);
+            }
+        }
+
+        const now = Math.floor(Date.now() / 1000);
+        let expiresAt: number = null;
+        if (requestBody.expiresAt) {
+            expiresAt = Math.floor(Date.parse(requestBody.expiresAt) / 1000);
+            if (isNaN(expiresAt) || expiresAt <= now) {
+                return problem(request, 'invalid-request-body', `expiresAt must be a date-time in the future`);
+            }
+        }
+
+        // Generate the key, it is returned once and only its hash is stored
+        const key = generateApiKey();
+
+        const apiKey = await prisma.$transaction(async (tx) => {
+            const createdApiKey = await tx.teaApiKey.create({
+                data: {
+                    uuid: crypto.randomUUID(),
+                    organizationUuid: principal.organizationUuid,
+                    name: requestBody.name,
+                    prefix: key.slice(0, 12),
+                    keyHash: await hashApiKey(key),
+                    scopes: JSON.stringify(requestBody.scopes),
+                    products: requestBody.products ? JSON.stringify(requestBody.products) : null,
+                    createdBy: principal.subject,
+                    expiresAt,
+                    revokedAt: null,
+                    lastUsedAt: null,
+                    createdAt: now,
+                    updatedAt: now
+                }
+            });
+
+            await recordAudit(tx, principal, { operation: 'create', entityType: 'apikey', entityUuid: createdApiKey.uuid, after: createdApiKey }, now);
+
+            return createdApiKey;
+        });
+
+        const response: TeaApiKey = {
+            ...toApiKeyResponse(apiKey),
+            key
+        };
+
+        return new Response(JSON.stringify(response), {
+            status: 201,
+            headers: { 'Content-Type': 'application/json' }
+        });
+
+    } catch (error) {
+        console.error(`Error creating TEA API key:`, error);
+        return errorProblem(request, error);
+    }
+};
+
+export async function onRequestGet<PagesFunction>(context: EventContext<Env, string, Record<string, unknown>>): Promise<Response | void> {
+    const { data, env, request } = context;
+    const prisma = data.prisma as PrismaClient;
+    const principal = data.principal as TeaPrincipal;
+
+    try {
+
+        if (principal.authType !== 'jwt') {
+            return unauthorized(request, `API keys can only be managed with a user token`, 'insufficient_scope');
+        }
+
+        // Parse query parameters
+        const url = new URL(context.request.url);
+        const page = await parsePageRequest(env, url, 'apikey');
+        if (typeof page === 'string') {
+            return problem(request, 'invalid-parameter', page);
+        }
+        const includeRevoked = url.searchParams.get('includeRevoked') === 'true';
+
+        // Only list keys created by the caller
+        const where: any = {
+            organizationUuid: principal.organizationUuid,
+            createdBy: principal.subject
+        };
+
+        if (!includeRevoked) where.revokedAt = null;
+
+        // Get total count
+        const total = await prisma.teaApiKey.count({ where });
+
+        // Get API keys with pagination
+        const rows = await prisma.teaApiKey.findMany({
+            ...pageQuery(page, where),
+        });
+        const { items: apiKeys, pagination } = await paginate(env, 'apikey', page, rows, total);
+
+        const response = {
+            data: apiKeys.map(toApiKeyResponse),
+            pagination
+        };
+
+        return new Response(JSON.stringify(response), {
+            status: 200,
+            headers: { 'Content-Type': 'application/json' }
+        });
+
+    } catch (error) {
+        console.error(`Error fetching TEA API keys:`, error);
+        return errorProblem(request, error);
+    }
+};
@@ -0,0 +1,242 @@
+import type { TeaApiKey, TeaPrincipal, UpdateTeaApiKeyRequest } from "../types";
+import type { PrismaClient } from "@prisma/client";
+import { hasScope, knownScopes, unauthorized } from "../lib/auth";
+import { errorProblem, problem } from "../lib/problems";
+import { recordAudit } from "../lib/audit";
+import { notDeleted } from "../lib/trash";
+
+// Helper function to transform a stored API key to the API format, the key itself is never returned here
+function toApiKeyResponse(apiKey: Awaited<ReturnType<PrismaClient['teaApiKey']['findUnique']>>): TeaApiKey {
+    return {
+        identifier: apiKey.uuid,
+        name: apiKey.name,
+        prefix: apiKey.prefix,
+        scopes: JSON.parse(apiKey.scopes),
+        products: apiKey.products ? JSON.parse(apiKey.products) : undefined,
+        createdBy: apiKey.createdBy,
+        expiresAt: apiKey.expiresAt ? new Date(apiKey.expiresAt * 1000).toISOString() : undefined,
+        revokedAt: apiKey.revokedAt ? new Date(apiKey.revokedAt * 1000).toISOString() : undefined,
+        lastUsedAt: apiKey.lastUsedAt ? new Date(apiKey.lastUsedAt * 1000).toISOString() : undefined,
+        createdAt: new Date(apiKey.createdAt * 1000).toISOString()
+    };
+}
+
+export async function onRequestGet<PagesFunction>(context: EventContext<Env, string, Record<string, unknown>>): Promise<Response | void> {
+    const { data, params, request } = context;
+    const prisma = data.prisma as PrismaClient;
+    const principal = data.principal as TeaPrincipal;
+
+    try {
+
+        if (principal.authType !== 'jwt') {
+            return unauthorized(request, `API keys can only be managed with a user token`, 'insufficient_scope');
+        }
+
+        const apiKeyUuid = params.uuid as string;
+
+        // Validate UUID format
+        if (!apiKeyUuid || !/^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(apiKeyUuid)) {
+            return problem(request, 'invalid-parameter', `Invalid API key UUID`);
+        }
+
+        // Check if API key exists and belongs to the caller
+        const apiKey = await prisma.teaApiKey.findFirst({
+            where: {
+                uuid: apiKeyUuid,
+                organizationUuid: principal.organizationUuid,
+                createdBy: principal.subject
+            }
+        });
+
+        if (!apiKey) {
+            return problem(request, 'not-found', `API key not found`);
+        }
+
+        return new Response(JSON.stringify(toApiKeyResponse(apiKey)), {
+            status: 200,
+            headers: { 'Content-Type': 'application/json' }
+        });
+
+    } catch (error) {
+        console.error(`Error fetching TEA API key:`, error);
+        return errorProblem(request, error);
+    }
+};
+
+export async function onRequestPatch<PagesFunction>(context: EventContext<Env, string, Record<string, unknown>>): Promise<Response | void> {
+    const { data, params, request } = context;
+    const prisma = data.prisma as PrismaClient;
+    const principal = data.principal as TeaPrincipal;
+
+    try {
+
+        if (principal.authType !== 'jwt') {
+            return unauthorized(request, `API keys can only be managed with a user token`, 'insufficient_scope');
+        }
+
+        const apiKeyUuid = params.uuid as string;
+
+        // Validate UUID format
+        if (!apiKeyUuid || !/^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(apiKeyUuid)) {
+            return problem(request, 'invalid-parameter', `Invalid API key UUID`);
+        }
+
+        // Check if API key exists and belongs to the caller
+        const existingApiKey = await prisma.teaApiKey.findFirst({
+            where: {
+                uuid: apiKeyUuid,
+                organizationUuid: principal.organizationUuid,
+                createdBy: principal.subject
+            }
+        });
+
+        if (!existingApiKey) {
+            return problem(request, 'not-found', `API key not found`);
+        }
+
+        if (existingApiKey.revokedAt) {
+            return problem(request, 'api-key-revoked', `API key has been revoked`);
+        }
+
+        // Parse request body
+        const requestBody: UpdateTeaApiKeyRequest = await request.json();
+        const now = Math.floor(Date.now() / 1000);
+
+        // Build update data
+        const updateData: any = {
+            updatedAt: now
+        };
+
+        if (requestBody.name !== undefined) updateData.name = requestBody.name;
+
+        if (requestBody.scopes !== undefined) {
+            if (!Array.isArray(requestBody.scopes) || requestBody.scopes.length === 0) {
+                return problem(request, 'invalid-request-body', `scopes must be a non-empty array`);
+            }
+            for (const scope of requestBody.scopes) {
+                if (!knownScopes.includes(scope)) {
+                    return problem(request, 'invalid-request-body', `Unknown scope: ${scope}`);
+                }
+                if (!hasScope(principal, scope)) {
+                    return unauthorized(request, `Cannot grant scope ${scope} that the caller does not hold`, 'insufficient_scope', scope);
+                }
+            }
+            updateData.scopes = JSON.stringify(requestBody.scopes);
+        }
+
+        // A null product list removes the restriction
+        if (requestBody.products !== undefined) {
+            if (requestBody.products !== null && (!Array.isArray(requestBody.products) || requestBody.products.some(uuid => !/^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(uuid)))) {
+                return problem(request, 'invalid-request-body', `Invalid product UUID in products`);
+            }
+            if (requestBody.products) {
+                const ownedProducts = await prisma.teaProduct.count({
+                    where: {
+                        uuid: { in: requestBody.products },
+                        organizationUuid: principal.organizationUuid,
+                        ...notDeleted
+                    }
+                });
+                if (ownedProducts !== new Set(requestBody.products).size) {
+                    return problem(request, 'not-found', `Product not found`);
+                }
+            }
+            updateData.products = requestBody.products ? JSON.stringify(requestBody.products) : null;
+        }
+
+        // Setting expiresAt to now (or any past date-time) expires the key immediately, null removes the expiry
+        if (requestBody.expiresAt !== undefined) {
+            if (requestBody.expiresAt === null) {
+                updateData.expiresAt = null;
+            } else {
+                const expiresAt = Math.floor(Date.parse(requestBody.expiresAt) / 1000);
+                if (isNaN(expiresAt)) {
+                    return problem(request, 'invalid-request-body', `expiresAt must be a date-time`);
+                }
+                updateData.expiresAt = expiresAt;
+            }
+        }
+
+        // Update API key in database and record the change in the audit log
+        const updatedApiKey = await prisma.$transaction(async (tx) => {
+            const changedApiKey = await tx.teaApiKey.update({
+                where: {
+                    uuid: apiKeyUuid
+                },
+                data: updateData
+            });
+
+            await recordAudit(tx, principal, { operation: 'update', entityType: 'apikey', entityUuid: apiKeyUuid, before: existingApiKey, after: changedApiKey }, now);
+
+            return changedApiKey;
+        });
+
+        return new Response(JSON.stringify(toApiKeyResponse(updatedApiKey)), {
+            status: 200,
+            headers: { 'Content-Type': 'application/json' }
+        });
+
+    } catch (error) {
+        console.error(`Error updating TEA API key:`, error);
+        return errorProblem(request, error);
+    }
+};
+
+export async function onRequestDelete<PagesFunction>(context: EventContext<Env, string, Record<string, unknown>>): Promise<Response | void> {
+    const { data, params, request } = context;
+    const prisma = data.prisma as PrismaClient;
+    const principal = data.principal as TeaPrincipal;
+
+    try {
+
+        if (principal.authType !== 'jwt') {
+            return unauthorized(request, `API keys can only be managed with a user token`, 'insufficient_scope');
+        }
+
+        const apiKeyUuid = params.uuid as string;
+
+        // Validate UUID format
+        if (!apiKeyUuid || !/^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(apiKeyUuid)) {
+            return problem(request, 'invalid-parameter', `Invalid API key UUID`);
+        }
+
+        // Check if API key exists and belongs to the caller
+        const existingApiKey = await prisma.teaApiKey.findFirst({
+            where: {
+                uuid: apiKeyUuid,
+                organizationUuid: principal.organizationUuid,
+                createdBy: principal.subject
+            }
+        });
+
+        if (!existingApiKey) {
+            return problem(request, 'not-found', `API key not found`);
+        }
+
+        // Revoke rather than delete, so the key remains visible for auditing
+        if (!existingApiKey.revokedAt) {
+            const now = Math.floor(Date.now() / 1000);
+            await prisma.$transaction(async (tx) => {
+                const revokedApiKey = await tx.teaApiKey.update({
+                    where: {
+                        uuid: apiKeyUuid
+                    },
+                    data: {
+                        revokedAt: now,
+                        updatedAt: now
+                    }
+                });
+
+                await recordAudit(tx, principal, { operation: 'delete', entityType: 'apikey', entityUuid: apiKeyUuid, before: existingApiKey, after: revokedApiKey }, now);
+            });
+        }
+
+        return new Response(null, {
+            status: 204
+        });
+
+    } catch (error) {
+        console.error(`Error revoking TEA API key:`, error);
+        return errorProblem(request, error);
+    }
+};
@@ -0,0 +1,85 @@
+import type { TeaApiKey, TeaPrincipal } from "../../types";
+import type { PrismaClient } from "@prisma/client";
+import { generateApiKey, hashApiKey, unauthorized } from "../../lib/auth";
+import { errorProblem, problem } from "../../lib/problems";
+import { recordAudit } from "../../lib/audit";
+
+// Replace the secret of an API key, keeping its name, scopes and product allow-list
+export async function onRequestPost<PagesFunction>(context: EventContext<Env, string, Record<string, unknown>>): Promise<Response | void> {
+    const { data, params, request } = context;
+    const prisma = data.prisma as PrismaClient;
+    const principal = data.principal as TeaPrincipal;
+
+    try {
+
+        if (principal.authType !== 'jwt') {
+            return unauthorized(request, `API keys can only be managed with a user token`, 'insufficient_scope');
+        }
+
+        const apiKeyUuid = params.uuid as string;
+
+        // Validate UUID format
+        if (!apiKeyUuid || !/^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(apiKeyUuid)) {
+            return problem(request, 'invalid-parameter', `Invalid API key UUID`);
+        }
+
+        // Check if API key exists and belongs to the caller
+        const existingApiKey = await prisma.teaApiKey.findFirst({
+            where: {
+                uuid: apiKeyUuid,
+                organizationUuid: principal.organizationUuid,
+                createdBy: principal.subject
+            }
+        });
+
+        if (!existingApiKey) {
+            return problem(request, 'not-found', `API key not found`);
+        }
+
+        if (existingApiKey.revokedAt) {
+            return problem(request, 'api-key-revoked', `API key has been revoked`);
+        }
+
+        // The previous key stops working as soon as its hash is replaced
+        const key = generateApiKey();
+        const now = Math.floor(Date.now() / 1000);
+        const rotatedApiKey = await prisma.$transaction(async (tx) => {
+            const changedApiKey = await tx.teaApiKey.update({
+                where: {
+                    uuid: apiKeyUuid
+                },
+                data: {
+                    prefix: key.slice(0, 12),
+                    keyHash: await hashApiKey(key),
+                    lastUsedAt: null,
+                    updatedAt: now
+                }
+            });
+
+            await recordAudit(tx, principal, { operation: 'rotate', entityType: 'apikey', entityUuid: apiKeyUuid, before: existingApiKey, after: changedApiKey }, now);
+
+            return changedApiKey;
+        });
+
+        const response: TeaApiKey = {
+            identifier: rotatedApiKey.uuid,
+            name: rotatedApiKey.name,
+            prefix: rotatedApiKey.prefix,
+            scopes: JSON.parse(rotatedApiKey.scopes),
+            products: rotatedApiKey.products ? JSON.parse(rotatedApiKey.products) : undefined,
+            createdBy: rotatedApiKey.createdBy,
+            expiresAt: rotatedApiKey.expiresAt ? new Date(rotatedApiKey.expiresAt * 1000).toISOString() : undefined,
+            createdAt: new Date(rotatedApiKey.createdAt * 1000).toISOString(),
+            key
+        };
+
+        return new Response(JSON.stringify(response), {
+            status: 200,
+            headers: { 'Content-Type': 'application/json' }
+        });
+
+    } catch (error) {
+        console.error(`Error rotating TEA API key:`, error);
+        return errorProblem(request, error);
+    }
+};
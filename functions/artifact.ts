@@ -0,0 +1,291 @@
+import type { TeaAuthor, TeaCollectionUpdateReason, TeaPrincipal, TeaUploadedArtifact } from "./types";
+import type { PrismaClient } from "@prisma/client";
+import { permitsProduct, unauthorized } from "./lib/auth";
+import { artifactInclude, artifactTypes, artifacts, contentDigest, createArtifact, defaultArtifactTypes, streamToR2, toArtifactResponse, type StreamedObject } from "./lib/artifacts";
+import { bumpCollectionVersion, collectionInclude, transitionLifecycle } from "./lib/collections";
+import { errorProblem, problem } from "./lib/problems";
+import { pageQuery, paginate, parsePageRequest } from "./lib/pagination";
+import { checkSignature, requestSignature, storeSignature } from "./lib/signatures";
+import { recordAudit } from "./lib/audit";
+import { notDeleted } from "./lib/trash";
+import { artifactAddedEvent, collectionVersionEvents, lifecycleEvent, queueWebhookEvents } from "./lib/webhooks";
+
+// Upload an artifact, the request body is the raw document and is streamed into R2
+export async function onRequestPost<PagesFunction>(context: EventContext<Env, string, Record<string, unknown>>): Promise<Response | void> {
+    const { data, env, request } = context;
+    const prisma = data.prisma as PrismaClient;
+    const principal = data.principal as TeaPrincipal;
+
+    try {
+
+        // Parse query parameters
+        const url = new URL(request.url);
+        const format = url.searchParams.get('format');
+        const name = url.searchParams.get('name');
+        const collectionIdentifier = url.searchParams.get('collectionIdentifier');
+        const type = url.searchParams.get('type') || defaultArtifactTypes[format];
+        const description = url.searchParams.get('description') || `${format} document`;
+        const authorName = url.searchParams.get('authorName');
+        const authorEmail = url.searchParams.get('authorEmail');
+        const authorOrganization = url.searchParams.get('authorOrganization');
+
+        // Validate required parameters
+        if (!format || !artifacts.includes(format)) {
+            return problem(request, 'invalid-parameter', `Invalid format, expected one of: ${artifacts.join(', ')}`);
+        }
+
+        if (!name || !/^[A-Za-z0-9][A-Za-z0-9._-]{0,254}$/.test(name)) {
+            return problem(request, 'invalid-parameter', `Invalid name, expected a file name of letters, digits, '.', '_' or '-'`);
+        }
+
+        if (!artifactTypes.includes(type)) {
+            return problem(request, 'invalid-parameter', `Invalid type, expected one of: ${artifactTypes.join(', ')}`);
+        }
+
+        // The author is optional, but when given it needs all of the fields in typeAuthor
+        let author: TeaAuthor = undefined;
+        if (authorName || authorEmail || authorOrganization) {
+            if (!authorName || !authorEmail || !authorOrganization) {
+                return problem(request, 'invalid-parameter', `authorName, authorEmail and authorOrganization must be given together`);
+            }
+            author = { name: authorName, email: authorEmail, organization: authorOrganization };
+        }
+
+        if (collectionIdentifier && !/^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(collectionIdentifier)) {
+            return problem(request, 'invalid-parameter', `Invalid collection UUID format`);
+        }
+
+        // A detached signature of the document may be sent along in the Tea-Signature header
+        const signature = requestSignature(request.headers);
+        if (typeof signature === 'string') {
+            return problem(request, 'invalid-parameter', signature);
+        }
+
+        // A Content-Digest lets R2 reject a corrupted upload and record the SHA-256 downloads are checked against
+        const digest = contentDigest(request.headers);
+        if (typeof digest === 'string') {
+            return problem(request, 'invalid-parameter', digest);
+        }
+
+        // Streamed R2 writes need the length before the first byte is read
+        const contentLength = parseInt(request.headers.get('Content-Length') || '');
+        if (!request.body || isNaN(contentLength) || contentLength <= 0) {
+            return problem(request, 'length-required', `A non-empty body with a Content-Length header is required`);
+        }
+
+        // Check the collection before storing anything, so a bad reference does not leave an orphaned object
+        let existingCollection = null;
+        if (collectionIdentifier) {
+            existingCollection = await prisma.teaCollection.findFirst({
+                where: {
+                    uuid: collectionIdentifier,
+                    organizationUuid: principal.organizationUuid,
+                    ...notDeleted
+                },
+                include: collectionInclude
+            });
+
+            if (!existingCollection) {
+                return problem(request, 'not-found', `Collection not found`);
+            }
+
+            // API keys may be limited to specific products
+            if (!permitsProduct(principal, existingCollection.products.map(p => p.uuid))) {
+                return unauthorized(request, `Not permitted to modify this collection`, 'insufficient_scope');
+            }
+        } else if (principal.products) {
+            // Unattached artifacts are not tied to any product a restricted key is allowed to modify
+            return unauthorized(request, `Not permitted to upload artifacts without a collectionIdentifier`, 'insufficient_scope');
+        }
+
+        // Unsigned documents are checked against the signature policies of the products before anything is stored
+        const productUuids = existingCollection ? existingCollection.products.map(p => p.uuid) : null;
+        if (!signature) {
+            const { rejection } = await checkSignature(prisma, principal.organizationUuid, productUuids, null, null);
+            if (rejection) {
+                return problem(request, 'signature-rejected', rejection);
+            }
+        }
+
+        // Generate UUID for the artifact, it also keeps object keys unique
+        const artifactUuid = crypto.randomUUID();
+        const objectKey = `${format}/${artifactUuid}/${name}`;
+        const mimeType = request.headers.get('Content-Type') || 'application/octet-stream';
+        const now = Math.floor(Date.now() / 1000);
+
+        let stored: StreamedObject;
+        try {
+            stored = await streamToR2(env.r2artifacts, objectKey, request.body, contentLength, {
+                sha256: digest,
+                httpMetadata: {
+                    contentType: mimeType
+                },
+                customMetadata: {
+                    organizationUuid: principal.organizationUuid,
+                    artifactUuid
+                }
+            });
+        } catch (error) {
+            if (!digest) {
+                throw error;
+            }
+            console.warn(`Rejected upload of ${objectKey}:`, error);
+            return problem(request, 'invalid-request-body', `The body does not match its Content-Digest`);
+        }
+        const { object, checksums } = stored;
+
+        // The body was streamed, so the signature is verified over the stored document
+        let verification = undefined;
+        let signatureUrl = undefined;
+        if (signature) {
+            const stored = await env.r2artifacts.get(objectKey);
+            const content = new Uint8Array(await stored.arrayBuffer());
+            const result = await checkSignature(prisma, principal.organizationUuid, productUuids, signature, content);
+            if (result.rejection) {
+                await env.r2artifacts.delete(objectKey);
+                return problem(request, 'signature-rejected', result.rejection);
+            }
+            verification = result.verification;
+            signatureUrl = `${url.origin}/${await storeSignature(env.r2artifacts, objectKey, signature.format, signature.signature, principal.organizationUuid, artifactUuid)}`;
+        }
+
+        // The artifact is served by artifactRewritePath at the object key
+        const downloadUrl = `${url.origin}/${objectKey}`;
+
+        await prisma.$transaction(async (tx) => {
+            await createArtifact(tx, artifactUuid, principal.organizationUuid, principal.subject, {
+                name,
+                type,
+                author,
+                formats: [{
+                    mimeType,
+                    description,
+                    url: downloadUrl,
+                    signatureUrl,
+                    checksums: Object.entries(checksums).map(([algType, algValue]) => ({ algType, algValue }))
+                }]
+            }, now, { objectKey, size: object.size, etag: object.etag, signature: verification });
+
+            // Attach the artifact to a new version of the collection, recording the update in its lifecycle
+            if (existingCollection) {
+                const updateReason: TeaCollectionUpdateReason = {
+                    type: 'ARTIFACT_ADDED',
+                    comment: `Uploaded ${name}`
+                };
+                const currentArtifactUuids = existingCollection.versions[0].artifacts.map(link => link.artifactUuid);
+                const version = await bumpCollectionVersion(tx, existingCollection, updateReason, [
+                    ...currentArtifactUuids,
+                    artifactUuid
+                ], principal.subject, now);
+
+                const currentLifecycle = JSON.parse(existingCollection.lifecycle || '{}');
+                const updatedLifecycle = transitionLifecycle(
+                    currentLifecycle,
+                    'updated',
+                    'Collection artifacts have been updated'
+                );
+
+                const collection = { uuid: existingCollection.uuid, productUuids };
+                const events = collectionVersionEvents(collection, version, updateReason, [...currentArtifactUuids, artifactUuid], currentArtifactUuids);
+                if (currentLifecycle.phase !== 'updated') {
+                    events.push(lifecycleEvent(collection, currentLifecycle.phase, 'updated'));
+                }
+                await queueWebhookEvents(tx, principal.organizationUuid, events, now);
+
+                await tx.teaCollection.update({
+                    where: {
+                        uuid: existingCollection.uuid
+                    },
+                    data: {
+                        lifecycle: JSON.stringify(updatedLifecycle)
+                    }
+                });
+            } else {
+                await queueWebhookEvents(tx, principal.organizationUuid, [artifactAddedEvent(artifactUuid)], now);
+            }
+
+            await recordAudit(tx, principal, { operation: 'create', entityType: 'artifact', entityUuid: artifactUuid, after: {
+                name,
+                type,
+                mimeType,
+                url: downloadUrl,
+                checksums,
+                collectionUuid: existingCollection?.uuid ?? null
+            } }, now);
+        });
+
+        const teaArtifact = await prisma.teaArtifact.findUnique({
+            where: {
+                uuid: artifactUuid
+            },
+            include: artifactInclude
+        });
+
+        // Build response
+        const response: TeaUploadedArtifact = {
+            ...toArtifactResponse(teaArtifact),
+            collectionIdentifier: existingCollection?.uuid
+        };
+
+        return new Response(JSON.stringify(response), {
+            status: 201,
+            headers: { 'Content-Type': 'application/json' }
+        });
+
+    } catch (error) {
+        console.error(`Error uploading TEA Artifact:`, error);
+        return errorProblem(request, error);
+    }
+};
+
+export async function onRequestGet<PagesFunction>(context: EventContext<Env, string, Record<string, unknown>>): Promise<Response | void> {
+    const { data, env, request } = context;
+    const prisma = data.prisma as PrismaClient;
+    const principal = data.principal as TeaPrincipal;
+
+    try {
+
+        // Parse query parameters
+        const url = new URL(context.request.url);
+        const page = await parsePageRequest(env, url, 'artifact');
+        if (typeof page === 'string') {
+            return problem(request, 'invalid-parameter', page);
+        }
+        const type = url.searchParams.get('type');
+
+        if (type && !artifactTypes.includes(type)) {
+            return problem(request, 'invalid-parameter', `Invalid type, expected one of: ${artifactTypes.join(', ')}`);
+        }
+
+        // Build where clause, always scoped to the caller's organization
+        const where: any = {
+            organizationUuid: principal.organizationUuid
+        };
+
+        if (type) where.type = type;
+
+        // Get total count
+        const total = await prisma.teaArtifact.count({ where });
+
+        // Get artifacts with pagination
+        const rows = await prisma.teaArtifact.findMany({
+            ...pageQuery(page, where),
+            include: artifactInclude
+        });
+        const { items: teaArtifacts, pagination } = await paginate(env, 'artifact', page, rows, total);
+
+        const response = {
+            data: teaArtifacts.map(toArtifactResponse),
+            pagination
+        };
+
+        return new Response(JSON.stringify(response), {
+            status: 200,
+            headers: { 'Content-Type': 'application/json' }
+        });
+
+    } catch (error) {
+        console.error(`Error fetching TEA Artifacts:`, error);
+        return errorProblem(request, error);
+    }
+};
@@ -0,0 +1,41 @@
+import type { TeaPrincipal } from "../types";
+import type { PrismaClient } from "@prisma/client";
+import { artifactInclude, toArtifactResponse } from "../lib/artifacts";
+import { errorProblem, problem } from "../lib/problems";
+
+export async function onRequestGet<PagesFunction>(context: EventContext<Env, string, Record<string, unknown>>): Promise<Response | void> {
+    const { data, params, request } = context;
+    const prisma = data.prisma as PrismaClient;
+    const principal = data.principal as TeaPrincipal;
+
+    try {
+        const artifactUuid = params.uuid as string;
+
+        // Validate UUID format
+        if (!artifactUuid || !/^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(artifactUuid)) {
+            return problem(request, 'invalid-parameter', `Invalid artifact UUID`);
+        }
+
+        // Get artifact with its author, formats and checksums
+        const artifact = await prisma.teaArtifact.findFirst({
+            where: {
+                uuid: artifactUuid,
+                organizationUuid: principal.organizationUuid
+            },
+            include: artifactInclude
+        });
+
+        if (!artifact) {
+            return problem(request, 'not-found', `Artifact not found`);
+        }
+
+        return new Response(JSON.stringify(toArtifactResponse(artifact)), {
+            status: 200,
+            headers: { 'Content-Type': 'application/json' }
+        });
+
+    } catch (error) {
+        console.error(`Error fetching TEA Artifact:`, error);
+        return errorProblem(request, error);
+    }
+};
@@ -0,0 +1,89 @@
+import type { TeaPrincipal } from "./types";
+import type { PrismaClient } from "@prisma/client";
+import { SCOPE_PUBLISHER, hasScope, unauthorized } from "./lib/auth";
+import { auditEntityTypes, toAuditEventResponse } from "./lib/audit";
+import { errorProblem, problem } from "./lib/problems";
+import { numberedPageQuery, paginate, parsePageRequest } from "./lib/pagination";
+
+// List the audit events of the organization in chain order, newest first. The log names who changed what, so unlike other
+// reads it needs the publisher scope, and keys limited to some products cannot read the changes of the others.
+export async function onRequestGet<PagesFunction>(context: EventContext<Env, string, Record<string, unknown>>): Promise<Response | void> {
+    const { data, env, request } = context;
+    const prisma = data.prisma as PrismaClient;
+    const principal = data.principal as TeaPrincipal;
+
+    try {
+
+        if (!hasScope(principal, SCOPE_PUBLISHER)) {
+            return unauthorized(request, `Insufficient scope, ${SCOPE_PUBLISHER} is required`, 'insufficient_scope', SCOPE_PUBLISHER);
+        }
+
+        if (principal.products) {
+            return unauthorized(request, `API keys limited to specific products cannot read the audit log`, 'insufficient_scope');
+        }
+
+        // Parse query parameters
+        const url = new URL(context.request.url);
+        // Cursors of the audit log hold sequence numbers rather than creation times
+        const page = await parsePageRequest(env, url, 'audit-sequence');
+        if (typeof page === 'string') {
+            return problem(request, 'invalid-parameter', page);
+        }
+
+        const entityType = url.searchParams.get('entityType');
+        if (entityType && !auditEntityTypes.includes(entityType)) {
+            return problem(request, 'invalid-parameter', `Invalid entityType, expected one of: ${auditEntityTypes.join(', ')}`);
+        }
+
+        const entityUuid = url.searchParams.get('entityIdentifier');
+        if (entityUuid && !/^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(entityUuid)) {
+            return problem(request, 'invalid-parameter', `Invalid entityIdentifier UUID`);
+        }
+
+        // The time range is inclusive on both ends
+        const createdAt: { gte?: number, lte?: number } = {};
+        for (const [name, bound] of [['since', 'gte'], ['until', 'lte']] as const) {
+            const value = url.searchParams.get(name);
+            if (!value) {
+                continue;
+            }
+            const time = Date.parse(value);
+            if (isNaN(time)) {
+                return problem(request, 'invalid-parameter', `${name} must be a date-time`);
+            }
+            createdAt[bound] = Math.floor(time / 1000);
+        }
+
+        const where: any = {
+            organizationUuid: principal.organizationUuid
+        };
+
+        if (entityType) where.entityType = entityType;
+        if (entityUuid) where.entityUuid = entityUuid.toLowerCase();
+        if (url.searchParams.get('actor')) where.actor = url.searchParams.get('actor');
+        if (createdAt.gte !== undefined || createdAt.lte !== undefined) where.createdAt = createdAt;
+
+        // Get total count
+        const total = await prisma.teaAuditEvent.count({ where });
+
+        // Get audit events with pagination
+        const rows = await prisma.teaAuditEvent.findMany(numberedPageQuery(page, where, 'sequence'));
+        // Events are listed in chain order, many are created in the same second
+        const positions = rows.map(event => ({ event, createdAt: event.sequence, uuid: event.uuid }));
+        const { items, pagination } = await paginate(env, 'audit-sequence', page, positions, total);
+
+        const response = {
+            data: items.map(item => toAuditEventResponse(item.event)),
+            pagination
+        };
+
+        return new Response(JSON.stringify(response), {
+            status: 200,
+            headers: { 'Content-Type': 'application/json' }
+        });
+
+    } catch (error) {
+        console.error(`Error fetching audit events:`, error);
+        return errorProblem(request, error);
+    }
+};
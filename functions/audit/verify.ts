@@ -0,0 +1,58 @@
+import type { TeaAuditVerification, TeaPrincipal } from "../types";
+import type { PrismaClient } from "@prisma/client";
+import { SCOPE_PUBLISHER, hasScope, unauthorized } from "../lib/auth";
+import { verifyAuditChain } from "../lib/audit";
+import { errorProblem, problem } from "../lib/problems";
+
+// Events checked by a single request, longer chains are verified in steps starting after the last one checked
+const MAX_VERIFIED_EVENTS = 1000;
+
+// Verify the hash chain of the audit log of the organization
+export async function onRequestGet<PagesFunction>(context: EventContext<Env, string, Record<string, unknown>>): Promise<Response | void> {
+    const { data, request } = context;
+    const prisma = data.prisma as PrismaClient;
+    const principal = data.principal as TeaPrincipal;
+
+    try {
+
+        if (!hasScope(principal, SCOPE_PUBLISHER)) {
+            return unauthorized(request, `Insufficient scope, ${SCOPE_PUBLISHER} is required`, 'insufficient_scope', SCOPE_PUBLISHER);
+        }
+
+        if (principal.products) {
+            return unauthorized(request, `API keys limited to specific products cannot read the audit log`, 'insufficient_scope');
+        }
+
+        // Parse query parameters
+        const url = new URL(context.request.url);
+        const fromSequence = parseInt(url.searchParams.get('fromSequence') || '1');
+        if (isNaN(fromSequence) || fromSequence < 1) {
+            return problem(request, 'invalid-parameter', `fromSequence must be a positive integer`);
+        }
+        const limit = parseInt(url.searchParams.get('limit') || `${MAX_VERIFIED_EVENTS}`);
+        if (isNaN(limit) || limit < 1 || limit > MAX_VERIFIED_EVENTS) {
+            return problem(request, 'invalid-parameter', `limit must be between 1 and ${MAX_VERIFIED_EVENTS}`);
+        }
+
+        const result = await verifyAuditChain(prisma, principal.organizationUuid, fromSequence, limit);
+
+        const response: TeaAuditVerification = {
+            valid: result.brokenAt === null,
+            fromSequence,
+            checked: result.checked,
+            lastSequence: result.lastSequence ?? undefined,
+            lastHash: result.lastHash ?? undefined,
+            brokenAt: result.brokenAt ?? undefined,
+            detail: result.detail ?? undefined
+        };
+
+        return new Response(JSON.stringify(response), {
+            status: 200,
+            headers: { 'Content-Type': 'application/json' }
+        });
+
+    } catch (error) {
+        console.error(`Error verifying audit log:`, error);
+        return errorProblem(request, error);
+    }
+};
@@ -1,47 +1,19 @@
-import type { CreateTeaCollectionRequest, TeaLifecycle } from "./types";
+import type { CreateTeaCollectionRequest, TeaPrincipal } from "./types";
 import type { PrismaClient } from "@prisma/client";
-
-// Helper function to create initial lifecycle
-function createInitialLifecycle(releaseIdentifier: string): TeaLifecycle {
-    return {
-        phase: 'created',
-        name: 'Collection Created',
-        description: `Collection created for release ${releaseIdentifier}`,
-        startedOn: new Date().toISOString(),
-        completedOn: null,
-        lastUpdated: new Date().toISOString()
-    };
-}
-
-// Helper function to transition lifecycle phases
-function transitionLifecycle(currentLifecycle: TeaLifecycle, newPhase: TeaLifecycle['phase'], description?: string): TeaLifecycle {
-    const now = new Date().toISOString();
-    return {
-        ...currentLifecycle,
-        phase: newPhase,
-        name: getPhaseDisplayName(newPhase),
-        description: description || currentLifecycle.description,
-        lastUpdated: now,
-        completedOn: (newPhase === 'completed' || newPhase === 'archived' || newPhase === 'deprecated') ? now : currentLifecycle.completedOn
-    };
-}
-
-// Helper function to get display name for lifecycle phases
-function getPhaseDisplayName(phase: TeaLifecycle['phase']): string {
-    switch (phase) {
-        case 'created': return 'Collection Created';
-        case 'in-progress': return 'In Progress';
-        case 'updated': return 'Updated';
-        case 'completed': return 'Completed';
-        case 'archived': return 'Archived';
-        case 'deprecated': return 'Deprecated';
-        default: return 'Unknown Phase';
-    }
-}
+import { permitsProduct, unauthorized } from "./lib/auth";
+import { resolveArtifacts, validateArtifactInput } from "./lib/artifacts";
+import { collectionInclude, createCollectionVersion, initialLifecycle, toCollectionResponse, updateReasonTypes } from "./lib/collections";
+import { errorProblem, problem } from "./lib/problems";
+import { pageQuery, paginate, parsePageRequest } from "./lib/pagination";
+import { artifactsPolicyRejection } from "./lib/signatures";
+import { recordAudit } from "./lib/audit";
+import { notDeleted } from "./lib/trash";
+import { collectionVersionEvents, queueWebhookEvents } from "./lib/webhooks";
 
 export async function onRequestPost<PagesFunction>(context: EventContext<Env, string, Record<string, unknown>>): Promise<Response | void> {
     const { data, request } = context;
     const prisma = data.prisma as PrismaClient;
+    const principal = data.principal as TeaPrincipal;
     
     try {
         // Parse request body (data.json is already parsed by middleware)
@@ -49,82 +21,135 @@ export async function onRequestPost<PagesFunction>(context: EventContext<Env, st
         
         // Validate required fields
         if (!requestBody.releaseIdentifier) {
-            return new Response(JSON.stringify({ error: `Missing required field: releaseIdentifier` }), { 
-                status: 400,
-                headers: { 'Content-Type': 'application/json' }
-            });
+            return problem(request, 'invalid-request-body', `Missing required field: releaseIdentifier`);
         }
 
         if (!requestBody.updateReason || !requestBody.updateReason.type) {
-            return new Response(JSON.stringify({ error: `Missing required field: updateReason.type` }), { 
-                status: 400,
-                headers: { 'Content-Type': 'application/json' }
-            });
+            return problem(request, 'invalid-request-body', `Missing required field: updateReason.type`);
+        }
+
+        if (!updateReasonTypes.includes(requestBody.updateReason.type)) {
+            return problem(request, 'invalid-request-body', `Invalid updateReason.type, expected one of: ${updateReasonTypes.join(', ')}`);
         }
 
         // Validate release UUID format
         if (!/^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(requestBody.releaseIdentifier)) {
-            return new Response(JSON.stringify({ error: `Invalid release UUID format` }), { 
-                status: 400,
-                headers: { 'Content-Type': 'application/json' }
-            });
+            return problem(request, 'invalid-request-body', `Invalid release UUID format`);
         }
 
         // Check if release exists and belongs to the organization
-        const existingRelease = await prisma.teaRelease.findUnique({
+        const existingRelease = await prisma.teaRelease.findFirst({
             where: {
-                uuid: requestBody.releaseIdentifier
+                uuid: requestBody.releaseIdentifier,
+                organizationUuid: principal.organizationUuid,
+                ...notDeleted
             },
             include: {
-                product: true
+                product: true,
+                collection: {
+                    select: {
+                        uuid: true,
+                        deletedAt: true
+                    }
+                }
             }
         });
 
         if (!existingRelease) {
-            return new Response(JSON.stringify({ error: `Release not found` }), { 
-                status: 404,
-                headers: { 'Content-Type': 'application/json' }
-            });
+            return problem(request, 'not-found', `Release not found`);
+        }
+
+        // API keys may be limited to specific products
+        if (!permitsProduct(principal, [existingRelease.productUuid])) {
+            return unauthorized(request, `Not permitted to modify this release`, 'insufficient_scope');
         }
-        // Generate UUID for the collection
-        const collectionUuid = crypto.randomUUID();
+
+        // A release has a single collection, later changes are made as new versions of it
+        if (existingRelease.collection?.deletedAt) {
+            return problem(request, 'conflict', `The collection of the release is in the trash, restore it to create a new version`);
+        }
+        if (existingRelease.collection) {
+            return problem(request, 'conflict', `Release already has a collection, update it to create a new version`);
+        }
+
+        // Validate artifacts, each is either a new artifact or a reference to an existing one by uuid
+        const artifactInputs = requestBody.artifacts || [];
+        if (!Array.isArray(artifactInputs)) {
+            return problem(request, 'invalid-request-body', `artifacts must be an array`);
+        }
+        for (const artifactInput of artifactInputs) {
+            const invalid = validateArtifactInput(artifactInput);
+            if (invalid) {
+                return problem(request, 'invalid-request-body', invalid);
+            }
+        }
+
+        // The product may only accept artifacts with signatures verified by its trusted keys
+        const rejection = await artifactsPolicyRejection(prisma, [existingRelease.productUuid], artifactInputs);
+        if (rejection) {
+            return problem(request, 'signature-rejected', rejection);
+        }
+
+        // The collection shares the UUID of its release
+        const collectionUuid = existingRelease.uuid;
         const now = Math.floor(Date.now() / 1000);
 
-        // Create TEA Collection in database
-        const teaCollection = await prisma.teaCollection.create({
-            data: {
-                uuid: collectionUuid,
-                name: `Collection for ${existingRelease.product.name} v${existingRelease.version}`,
-                description: `Collection created for release ${requestBody.releaseIdentifier}. Update reason: ${requestBody.updateReason.type}${requestBody.updateReason.comment ? ` - ${requestBody.updateReason.comment}` : ``}`,
-                artifacts: JSON.stringify(requestBody.artifacts || []),
-                lifecycle: JSON.stringify(createInitialLifecycle(requestBody.releaseIdentifier)),
-                createdAt: now,
-                updatedAt: now
+        // Create TEA Collection with its artifacts in database
+        const teaCollection = await prisma.$transaction(async (tx) => {
+            const artifactUuids = await resolveArtifacts(tx, principal.organizationUuid, principal.subject, artifactInputs, now);
+            if (!artifactUuids) {
+                return null;
             }
-        });
 
-        // Link the product to the collection
-        await prisma.teaCollection.update({
-            where: {
-                uuid: collectionUuid
-            },
-            data: {
-                products: {
-                    connect: {
-                        uuid: existingRelease.productUuid
+            const createdCollection = await tx.teaCollection.create({
+                data: {
+                    uuid: collectionUuid,
+                    organizationUuid: principal.organizationUuid,
+                    name: `Collection for ${existingRelease.product.name} v${existingRelease.version}`,
+                    description: `Collection created for release ${requestBody.releaseIdentifier}. Update reason: ${requestBody.updateReason.type}${requestBody.updateReason.comment ? ` - ${requestBody.updateReason.comment}` : ``}`,
+                    lifecycle: JSON.stringify(initialLifecycle(requestBody.releaseIdentifier)),
+                    version: 1,
+                    createdAt: now,
+                    updatedAt: now,
+                    // Link the product to the collection
+                    products: {
+                        connect: {
+                            uuid: existingRelease.productUuid
+                        }
                     }
                 }
-            }
+            });
+
+            // The first version holds the initial artifacts
+            await createCollectionVersion(tx, collectionUuid, 1, requestBody.updateReason, artifactUuids, principal.subject, now);
+
+            await queueWebhookEvents(tx, principal.organizationUuid, collectionVersionEvents({
+                uuid: collectionUuid,
+                productUuids: [existingRelease.productUuid]
+            }, 1, requestBody.updateReason, artifactUuids, []), now);
+
+            await recordAudit(tx, principal, { operation: 'create', entityType: 'collection', entityUuid: collectionUuid, after: {
+                ...createdCollection,
+                updateReason: requestBody.updateReason,
+                artifactUuids
+            } }, now);
+
+            return tx.teaCollection.findUnique({
+                where: {
+                    uuid: collectionUuid
+                },
+                include: collectionInclude
+            });
         });
 
+        if (!teaCollection) {
+            return problem(request, 'not-found', `Artifact not found`);
+        }
+
         // Build response
         const response = {
             identifier: teaCollection.uuid,
-            name: teaCollection.name,
-            description: teaCollection.description,
-            artifacts: JSON.parse(teaCollection.artifacts || `[]`),
-            lifecycle: JSON.parse(teaCollection.lifecycle || `{}`),
-            products: [existingRelease.productUuid]
+            ...toCollectionResponse(teaCollection)
         };
 
         return new Response(JSON.stringify(response), {
@@ -134,75 +159,46 @@ export async function onRequestPost<PagesFunction>(context: EventContext<Env, st
 
     } catch (error) {
         console.error(`Error creating TEA Collection:`, error);
-        return new Response(JSON.stringify({ error: `Internal server error` }), { 
-            status: 500,
-            headers: { 'Content-Type': 'application/json' }
-        });
+        return errorProblem(request, error);
     }
 };
 
 export async function onRequestGet<PagesFunction>(context: EventContext<Env, string, Record<string, unknown>>): Promise<Response | void> {
-    const { data } = context;
+    const { data, env, request } = context;
     const prisma = data.prisma as PrismaClient;
+    const principal = data.principal as TeaPrincipal;
     
     try {
 
         // Parse query parameters
         const url = new URL(context.request.url);
-        const pageOffset = parseInt(url.searchParams.get('pageOffset') || '0');
-        const pageSize = Math.min(parseInt(url.searchParams.get('pageSize') || '100'), 1000);
+        const page = await parsePageRequest(env, url, 'collection');
+        if (typeof page === 'string') {
+            return problem(request, 'invalid-parameter', page);
+        }
 
-        // Build where clause
-        const where = {};
+        // Build where clause, always scoped to the caller's organization
+        const where = {
+            organizationUuid: principal.organizationUuid,
+            ...notDeleted
+        };
 
         // Get total count
         const total = await prisma.teaCollection.count({ where });
 
         // Get collections with pagination
-        const collections = await prisma.teaCollection.findMany({
-            where,
-            skip: pageOffset,
-            take: pageSize,
-            orderBy: { createdAt: 'desc' },
-            include: {
-                products: {
-                    select: {
-                        uuid: true
-                    }
-                }
-            }
+        const rows = await prisma.teaCollection.findMany({
+            ...pageQuery(page, where),
+            include: collectionInclude
         });
+        const { items: collections, pagination } = await paginate(env, 'collection', page, rows, total);
 
         // Transform to API format
-        const collectionData = collections.map(collection => {
-            const lifecycle = JSON.parse(collection.lifecycle || '{}');
-            const artifacts = JSON.parse(collection.artifacts || '[]');
-            
-            return {
-                uuid: collection.uuid,
-                name: collection.name,
-                description: collection.description,
-                version: 1, // Default version for now
-                releaseDate: new Date(collection.createdAt * 1000).toISOString(),
-                updateReason: {
-                    type: 'INITIAL_RELEASE',
-                    comment: collection.description || ''
-                },
-                artifacts: artifacts,
-                lifecycle: lifecycle,
-                products: collection.products.map(p => p.uuid)
-            };
-        });
+        const collectionData = collections.map(toCollectionResponse);
 
         const response = {
             data: collectionData,
-            pagination: {
-                total,
-                pageOffset,
-                pageSize,
-                hasNext: pageOffset + pageSize < total,
-                hasPrevious: pageOffset > 0
-            }
+            pagination
         };
 
         return new Response(JSON.stringify(response), {
@@ -212,9 +208,6 @@ export async function onRequestGet<PagesFunction>(context: EventContext<Env, str
 
     } catch (error) {
         console.error(`Error fetching TEA Collections:`, error);
-        return new Response(JSON.stringify({ error: `Internal server error` }), { 
-            status: 500,
-            headers: { 'Content-Type': 'application/json' }
-        });
+        return errorProblem(request, error);
     }
 };
@@ -1,32 +1,24 @@
-import type { UpdateTeaCollectionRequest, TeaLifecycle } from "../types";
+import type { UpdateTeaCollectionRequest, TeaLifecycle, TeaPrincipal } from "../types";
 import type { PrismaClient } from "@prisma/client";
+import { permitsProduct, unauthorized } from "../lib/auth";
+import { resolveArtifacts, validateArtifactInput } from "../lib/artifacts";
+import { artifactUpdateReason, bumpCollectionVersion, collectionInclude, toCollectionResponse, transitionLifecycle, updateReasonTypes, type CollectionWithVersion } from "../lib/collections";
+import { recordAudit } from "../lib/audit";
+import { notDeleted } from "../lib/trash";
+import { errorProblem, problem } from "../lib/problems";
+import { artifactsPolicyRejection } from "../lib/signatures";
+import { signedResponse } from "../lib/signing";
+import { collectionDeletedEvent, collectionVersionEvents, lifecycleEvent, queueWebhookEvents, type WebhookEvent } from "../lib/webhooks";
 
-// Helper function to transition lifecycle phases
-function transitionLifecycle(currentLifecycle: TeaLifecycle, newPhase: TeaLifecycle['phase'], description?: string): TeaLifecycle {
-    const now = new Date().toISOString();
+// Helper function to record a collection in the audit log by the artifacts of its latest version
+function auditState({ products, versions, ...collection }: CollectionWithVersion) {
     return {
-        ...currentLifecycle,
-        phase: newPhase,
-        name: getPhaseDisplayName(newPhase),
-        description: description || currentLifecycle.description,
-        lastUpdated: now,
-        completedOn: (newPhase === 'completed' || newPhase === 'archived' || newPhase === 'deprecated') ? now : currentLifecycle.completedOn
+        ...collection,
+        productUuids: products.map(p => p.uuid),
+        artifactUuids: versions[0].artifacts.map(link => link.artifactUuid)
     };
 }
 
-// Helper function to get display name for lifecycle phases
-function getPhaseDisplayName(phase: TeaLifecycle['phase']): string {
-    switch (phase) {
-        case 'created': return 'Collection Created';
-        case 'in-progress': return 'In Progress';
-        case 'updated': return 'Updated';
-        case 'completed': return 'Completed';
-        case 'archived': return 'Archived';
-        case 'deprecated': return 'Deprecated';
-        default: return 'Unknown Phase';
-    }
-}
-
 // Helper function to validate lifecycle phase transitions
 function isValidPhaseTransition(currentPhase: TeaLifecycle['phase'], newPhase: TeaLifecycle['phase']): boolean {
     const validTransitions: Record<TeaLifecycle['phase'], TeaLifecycle['phase'][]> = {
@@ -42,77 +34,45 @@ function isValidPhaseTransition(currentPhase: TeaLifecycle['phase'], newPhase: T
 }
 
 export async function onRequestGet<PagesFunction>(context: EventContext<Env, string, Record<string, unknown>>): Promise<Response | void> {
-    const { data, params } = context;
+    const { data, env, params, request } = context;
     const prisma = data.prisma as PrismaClient;
+    const principal = data.principal as TeaPrincipal;
 
     try {
         const collectionUuid = params.uuid as string;
         
         // Validate UUID format
         if (!collectionUuid || !/^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(collectionUuid)) {
-            return new Response(JSON.stringify({ error: `Invalid collection UUID` }), { 
-                status: 400,
-                headers: { 'Content-Type': 'application/json' }
-            });
+            return problem(request, 'invalid-parameter', `Invalid collection UUID`);
         }
 
         // Get collection with related data
-        const collection = await prisma.teaCollection.findUnique({
+        const collection = await prisma.teaCollection.findFirst({
             where: {
-                uuid: collectionUuid
+                uuid: collectionUuid,
+                organizationUuid: principal.organizationUuid,
+                ...notDeleted
             },
-            include: {
-                products: {
-                    select: {
-                        uuid: true
-                    }
-                }
-            }
+            include: collectionInclude
         });
 
         if (!collection) {
-            return new Response(JSON.stringify({ error: `Collection not found` }), { 
-                status: 404,
-                headers: { 'Content-Type': 'application/json' }
-            });
+            return problem(request, 'not-found', `Collection not found`);
         }
 
-        // Transform to API format
-        const lifecycle = JSON.parse(collection.lifecycle || '{}');
-        const artifacts = JSON.parse(collection.artifacts || '[]');
-        
-        const response = {
-            uuid: collection.uuid,
-            name: collection.name,
-            description: collection.description,
-            version: 1, // Default version for now
-            releaseDate: new Date(collection.createdAt * 1000).toISOString(),
-            updateReason: {
-                type: 'INITIAL_RELEASE',
-                comment: collection.description || ''
-            },
-            artifacts: artifacts,
-            lifecycle: lifecycle,
-            products: collection.products.map(p => p.uuid)
-        };
-
-        return new Response(JSON.stringify(response), {
-            status: 200,
-            headers: { 'Content-Type': 'application/json' }
-        });
+        // Transform to API format, signed so consumers can prove it came from this server
+        return signedResponse(env, request, toCollectionResponse(collection));
 
     } catch (error) {
         console.error(`Error fetching TEA Collection:`, error);
-        return new Response(JSON.stringify({ error: `Internal server error` }), { 
-            status: 500,
-            headers: { 'Content-Type': 'application/json' }
-        });
+        return errorProblem(request, error);
     }
 };
 
 export async function onRequestPatch<PagesFunction>(context: EventContext<Env, string, Record<string, unknown>>): Promise<Response | void> {
     const { data, params, request } = context;
     const prisma = data.prisma as PrismaClient;
+    const principal = data.principal as TeaPrincipal;
     
     try {
 
@@ -120,24 +80,26 @@ export async function onRequestPatch<PagesFunction>(context: EventContext<Env, s
         
         // Validate UUID format
         if (!collectionUuid || !/^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(collectionUuid)) {
-            return new Response(JSON.stringify({ error: `Invalid collection UUID` }), { 
-                status: 400,
-                headers: { 'Content-Type': 'application/json' }
-            });
+            return problem(request, 'invalid-parameter', `Invalid collection UUID`);
         }
 
         // Check if collection exists and belongs to the organization
-        const existingCollection = await prisma.teaCollection.findUnique({
+        const existingCollection = await prisma.teaCollection.findFirst({
             where: {
-                uuid: collectionUuid
-            }
+                uuid: collectionUuid,
+                organizationUuid: principal.organizationUuid,
+                ...notDeleted
+            },
+            include: collectionInclude
         });
 
         if (!existingCollection) {
-            return new Response(JSON.stringify({ error: `Collection not found` }), { 
-                status: 404,
-                headers: { 'Content-Type': 'application/json' }
-            });
+            return problem(request, 'not-found', `Collection not found`);
+        }
+
+        // API keys may be limited to specific products
+        if (!permitsProduct(principal, existingCollection.products.map(p => p.uuid))) {
+            return unauthorized(request, `Not permitted to modify this collection`, 'insufficient_scope');
         }
 
         // Parse request body
@@ -150,8 +112,32 @@ export async function onRequestPatch<PagesFunction>(context: EventContext<Env, s
 
         if (requestBody.name !== undefined) updateData.name = requestBody.name;
         if (requestBody.description !== undefined) updateData.description = requestBody.description;
-        if (requestBody.artifacts !== undefined) updateData.artifacts = JSON.stringify(requestBody.artifacts);
+
+        // Validate artifacts, the given list replaces the artifacts of the collection
+        if (requestBody.artifacts !== undefined) {
+            if (!Array.isArray(requestBody.artifacts)) {
+                return problem(request, 'invalid-request-body', `artifacts must be an array`);
+            }
+            for (const artifactInput of requestBody.artifacts) {
+                const invalid = validateArtifactInput(artifactInput);
+                if (invalid) {
+                    return problem(request, 'invalid-request-body', invalid);
+                }
+            }
+
+            // Artifacts the collection already holds were accepted before, only added ones face the signature policies
+            const currentArtifactUuids = existingCollection.versions[0].artifacts.map(link => link.artifactUuid);
+            const addedArtifacts = requestBody.artifacts.filter(input => !currentArtifactUuids.includes(input.uuid));
+            const rejection = await artifactsPolicyRejection(prisma, existingCollection.products.map(p => p.uuid), addedArtifacts);
+            if (rejection) {
+                return problem(request, 'signature-rejected', rejection);
+            }
+        }
         
+        if (requestBody.updateReason !== undefined && !updateReasonTypes.includes(requestBody.updateReason?.type)) {
+            return problem(request, 'invalid-request-body', `Invalid updateReason.type, expected one of: ${updateReasonTypes.join(', ')}`);
+        }
+
         // Handle lifecycle updates with proper state transitions
         if (requestBody.lifecycle !== undefined) {
             const currentLifecycle = JSON.parse(existingCollection.lifecycle || '{}');
@@ -163,67 +149,68 @@ export async function onRequestPatch<PagesFunction>(context: EventContext<Env, s
 
             // Validate the phase transition
             if (!isValidPhaseTransition(currentLifecycle.phase, requestBody.lifecycle.phase)) {
-                return new Response(JSON.stringify({ error: `Invalid lifecycle phase transition` }), { 
-                    status: 400,
-                    headers: { 'Content-Type': 'application/json' }
-                });
+                return problem(request, 'invalid-lifecycle-transition', `Invalid lifecycle phase transition`);
             }
 
             updateData.lifecycle = JSON.stringify(newLifecycle);
-        } else if (requestBody.artifacts !== undefined) {
-            // If artifacts are being updated, update lifecycle to reflect this
-            const currentLifecycle = JSON.parse(existingCollection.lifecycle || '{}');
-            const updatedLifecycle = transitionLifecycle(
-                currentLifecycle,
-                'updated',
-                'Collection artifacts have been updated'
-            );
-            updateData.lifecycle = JSON.stringify(updatedLifecycle);
         }
 
-        // Update TEA Collection in database
-        const updatedCollection = await prisma.teaCollection.update({
-            where: {
-                uuid: collectionUuid
-            },
-            data: updateData,
-            include: {
-                products: {
-                    select: {
-                        uuid: true
+        // Update TEA Collection in database, changed artifacts are stored as a new version
+        const collection = { uuid: collectionUuid, productUuids: existingCollection.products.map(p => p.uuid) };
+        const updatedCollection = await prisma.$transaction(async (tx) => {
+            const events: WebhookEvent[] = [];
+            if (requestBody.artifacts !== undefined) {
+                const artifactUuids = await resolveArtifacts(tx, principal.organizationUuid, principal.subject, requestBody.artifacts, updateData.updatedAt);
+                if (!artifactUuids) {
+                    return null;
+                }
+
+                const currentArtifactUuids = existingCollection.versions[0].artifacts.map(link => link.artifactUuid);
+                const updateReason = artifactUpdateReason(currentArtifactUuids, artifactUuids);
+                if (updateReason) {
+                    const version = await bumpCollectionVersion(tx, existingCollection, requestBody.updateReason || updateReason, artifactUuids, principal.subject, updateData.updatedAt);
+                    events.push(...collectionVersionEvents(collection, version, requestBody.updateReason || updateReason, artifactUuids, currentArtifactUuids));
+
+                    // If artifacts are being updated, update lifecycle to reflect this
+                    if (requestBody.lifecycle === undefined) {
+                        const currentLifecycle = JSON.parse(existingCollection.lifecycle || '{}');
+                        const updatedLifecycle = transitionLifecycle(
+                            currentLifecycle,
+                            'updated',
+                            'Collection artifacts have been updated'
+                        );
+                        updateData.lifecycle = JSON.stringify(updatedLifecycle);
                     }
                 }
             }
+
+            // Updating a collection that is already in the updated phase is no transition
+            const previousPhase = JSON.parse(existingCollection.lifecycle || '{}').phase;
+            const phase = updateData.lifecycle && JSON.parse(updateData.lifecycle).phase;
+            if (phase && phase !== previousPhase) {
+                events.push(lifecycleEvent(collection, previousPhase, phase));
+            }
+            await queueWebhookEvents(tx, principal.organizationUuid, events, updateData.updatedAt);
+
+            const changedCollection = await tx.teaCollection.update({
+                where: {
+                    uuid: collectionUuid
+                },
+                data: updateData,
+                include: collectionInclude
+            });
+
+            await recordAudit(tx, principal, { operation: 'update', entityType: 'collection', entityUuid: collectionUuid, before: auditState(existingCollection), after: auditState(changedCollection) }, updateData.updatedAt);
+
+            return changedCollection;
         });
 
-        // Build response
-        const lifecycle = JSON.parse(updatedCollection.lifecycle || '{}');
-        const artifacts = JSON.parse(updatedCollection.artifacts || '[]');
-        
-        // Determine update reason based on what was changed
-        let updateReasonType = 'COLLECTION_UPDATED';
-        if (requestBody.artifacts !== undefined) {
-            updateReasonType = 'ARTIFACT_UPDATED';
-        } else if (requestBody.lifecycle !== undefined) {
-            updateReasonType = 'LIFECYCLE_UPDATED';
-        } else if (requestBody.name !== undefined || requestBody.description !== undefined) {
-            updateReasonType = 'METADATA_UPDATED';
+        if (!updatedCollection) {
+            return problem(request, 'not-found', `Artifact not found`);
         }
-        
-        const response = {
-            uuid: updatedCollection.uuid,
-            name: updatedCollection.name,
-            description: updatedCollection.description,
-            version: 1, // Default version for now
-            releaseDate: new Date(updatedCollection.createdAt * 1000).toISOString(),
-            updateReason: {
-                type: updateReasonType,
-                comment: updatedCollection.description || ''
-            },
-            artifacts: artifacts,
-            lifecycle: lifecycle,
-            products: updatedCollection.products.map(p => p.uuid)
-        };
+
+        // Build response
+        const response = toCollectionResponse(updatedCollection);
 
         return new Response(JSON.stringify(response), {
             status: 200,
@@ -232,16 +219,14 @@ export async function onRequestPatch<PagesFunction>(context: EventContext<Env, s
 
     } catch (error) {
         console.error(`Error updating TEA Collection:`, error);
-        return new Response(JSON.stringify({ error: `Internal server error` }), { 
-            status: 500,
-            headers: { 'Content-Type': 'application/json' }
-        });
+        return errorProblem(request, error);
     }
 };
 
 export async function onRequestDelete<PagesFunction>(context: EventContext<Env, string, Record<string, unknown>>): Promise<Response | void> {
-    const { data, params } = context;
+    const { data, params, request } = context;
     const prisma = data.prisma as PrismaClient;
+    const principal = data.principal as TeaPrincipal;
     
     try {
 
@@ -249,31 +234,54 @@ export async function onRequestDelete<PagesFunction>(context: EventContext<Env,
         
         // Validate UUID format
         if (!collectionUuid || !/^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(collectionUuid)) {
-            return new Response(JSON.stringify({ error: `Invalid collection UUID` }), { 
-                status: 400,
-                headers: { 'Content-Type': 'application/json' }
-            });
+            return problem(request, 'invalid-parameter', `Invalid collection UUID`);
         }
 
         // Check if collection exists and belongs to the organization
-        const existingCollection = await prisma.teaCollection.findUnique({
+        const existingCollection = await prisma.teaCollection.findFirst({
             where: {
-                uuid: collectionUuid
+                uuid: collectionUuid,
+                organizationUuid: principal.organizationUuid,
+                ...notDeleted
+            },
+            include: {
+                products: {
+                    select: {
+                        uuid: true
+                    }
+                }
             }
         });
 
         if (!existingCollection) {
-            return new Response(JSON.stringify({ error: `Collection not found` }), { 
-                status: 404,
-                headers: { 'Content-Type': 'application/json' }
-            });
+            return problem(request, 'not-found', `Collection not found`);
         }
 
-        // Delete the collection (this will also remove product relationships due to the many-to-many setup)
-        await prisma.teaCollection.delete({
-            where: {
-                uuid: collectionUuid
-            }
+        // API keys may be limited to specific products
+        if (!permitsProduct(principal, existingCollection.products.map(p => p.uuid))) {
+            return unauthorized(request, `Not permitted to modify this collection`, 'insufficient_scope');
+        }
+
+        const now = Math.floor(Date.now() / 1000);
+
+        // Move the collection to the trash, its versions stay for a restore, see lib/trash
+        await prisma.$transaction(async (tx) => {
+            const deletedCollection = await tx.teaCollection.update({
+                where: {
+                    uuid: collectionUuid
+                },
+                data: {
+                    deletedAt: now,
+                    deletedBy: principal.subject
+                }
+            });
+
+            await queueWebhookEvents(tx, principal.organizationUuid, [collectionDeletedEvent({
+                uuid: collectionUuid,
+                productUuids: existingCollection.products.map(p => p.uuid)
+            })], now);
+
+            await recordAudit(tx, principal, { operation: 'delete', entityType: 'collection', entityUuid: collectionUuid, before: existingCollection, after: deletedCollection }, now);
         });
 
         return new Response(null, {
@@ -282,9 +290,6 @@ export async function onRequestDelete<PagesFunction>(context: EventContext<Env,
 
     } catch (error) {
         console.error(`Error deleting TEA Collection:`, error);
-        return new Response(JSON.stringify({ error: `Internal server error` }), { 
-            status: 500,
-            headers: { 'Content-Type': 'application/json' }
-        });
+        return errorProblem(request, error);
     }
 };
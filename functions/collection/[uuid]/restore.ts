@@ -0,0 +1,89 @@
+import type { TeaPrincipal } from "../../types";
+import type { PrismaClient } from "@prisma/client";
+import { permitsProduct, unauthorized } from "../../lib/auth";
+import { collectionInclude, toCollectionResponse } from "../../lib/collections";
+import { recordAudit } from "../../lib/audit";
+import { errorProblem, problem } from "../../lib/problems";
+
+// Restore a collection from the trash with all its versions. A collection deleted with its release is restored by
+// restoring the release.
+export async function onRequestPost<PagesFunction>(context: EventContext<Env, string, Record<string, unknown>>): Promise<Response | void> {
+    const { data, params, request } = context;
+    const prisma = data.prisma as PrismaClient;
+    const principal = data.principal as TeaPrincipal;
+
+    try {
+
+        const collectionUuid = params.uuid as string;
+
+        // Validate UUID format
+        if (!collectionUuid || !/^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(collectionUuid)) {
+            return problem(request, 'invalid-parameter', `Invalid collection UUID`);
+        }
+
+        // Check if the collection is in the trash of the organization
+        const deletedCollection = await prisma.teaCollection.findFirst({
+            where: {
+                uuid: collectionUuid,
+                organizationUuid: principal.organizationUuid,
+                deletedAt: { not: null }
+            },
+            include: {
+                products: {
+                    select: {
+                        uuid: true
+                    }
+                },
+                release: {
+                    select: {
+                        deletedAt: true
+                    }
+                }
+            }
+        });
+
+        if (!deletedCollection) {
+            return problem(request, 'not-found', `Collection not found in the trash`);
+        }
+
+        // API keys may be limited to specific products
+        if (!permitsProduct(principal, deletedCollection.products.map(p => p.uuid))) {
+            return unauthorized(request, `Not permitted to modify this collection`, 'insufficient_scope');
+        }
+
+        if (deletedCollection.release.deletedAt) {
+            return problem(request, 'conflict', `The release of the collection is in the trash, restore it first`);
+        }
+
+        const now = Math.floor(Date.now() / 1000);
+
+        const collection = await prisma.$transaction(async (tx) => {
+            const restoredCollection = await tx.teaCollection.update({
+                where: {
+                    uuid: collectionUuid
+                },
+                data: {
+                    deletedAt: null,
+                    deletedBy: null
+                },
+                include: collectionInclude
+            });
+
+            await recordAudit(tx, principal, { operation: 'restore', entityType: 'collection', entityUuid: collectionUuid, before: deletedCollection, after: restoredCollection }, now);
+
+            return restoredCollection;
+        });
+
+        // Build response
+        const response = toCollectionResponse(collection);
+
+        return new Response(JSON.stringify(response), {
+            status: 200,
+            headers: { 'Content-Type': 'application/json' }
+        });
+
+    } catch (error) {
+        console.error(`Error restoring TEA Collection:`, error);
+        return errorProblem(request, error);
+    }
+};
@@ -0,0 +1,77 @@
+import type { TeaPrincipal } from "../../types";
+import type { PrismaClient } from "@prisma/client";
+import { collectionVersionInclude, toCollectionVersionResponse } from "../../lib/collections";
+import { errorProblem, problem } from "../../lib/problems";
+import { notDeleted } from "../../lib/trash";
+import { paginate, parsePageRequest, numberedPageQuery } from "../../lib/pagination";
+
+// List the versions of a collection, newest first
+export async function onRequestGet<PagesFunction>(context: EventContext<Env, string, Record<string, unknown>>): Promise<Response | void> {
+    const { data, env, params, request } = context;
+    const prisma = data.prisma as PrismaClient;
+    const principal = data.principal as TeaPrincipal;
+
+    try {
+        const collectionUuid = params.uuid as string;
+
+        // Validate UUID format
+        if (!collectionUuid || !/^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(collectionUuid)) {
+            return problem(request, 'invalid-parameter', `Invalid collection UUID`);
+        }
+
+        // Parse query parameters
+        const url = new URL(context.request.url);
+        // Cursors are signed for the versions of this collection only
+        const list = `collectionversion:${collectionUuid}`;
+        const page = await parsePageRequest(env, url, list);
+        if (typeof page === 'string') {
+            return problem(request, 'invalid-parameter', page);
+        }
+
+        // Check if collection exists and belongs to the organization
+        const collection = await prisma.teaCollection.findFirst({
+            where: {
+                uuid: collectionUuid,
+                organizationUuid: principal.organizationUuid,
+                ...notDeleted
+            },
+            select: {
+                uuid: true
+            }
+        });
+
+        if (!collection) {
+            return problem(request, 'not-found', `Collection not found`);
+        }
+
+        const where = {
+            collectionUuid
+        };
+
+        // Get total count
+        const total = await prisma.teaCollectionVersion.count({ where });
+
+        // Get versions with pagination
+        const rows = await prisma.teaCollectionVersion.findMany({
+            ...numberedPageQuery(page, where, 'version'),
+            include: collectionVersionInclude
+        });
+        // Version numbers are unique within the collection and stand in for the position of a row
+        const positions = rows.map(version => ({ version, createdAt: version.version, uuid: collectionUuid }));
+        const { items, pagination } = await paginate(env, list, page, positions, total);
+
+        const response = {
+            data: items.map(item => toCollectionVersionResponse(collectionUuid, item.version)),
+            pagination
+        };
+
+        return new Response(JSON.stringify(response), {
+            status: 200,
+            headers: { 'Content-Type': 'application/json' }
+        });
+
+    } catch (error) {
+        console.error(`Error fetching TEA Collection versions:`, error);
+        return errorProblem(request, error);
+    }
+};
@@ -0,0 +1,51 @@
+import type { TeaPrincipal } from "../../../types";
+import type { PrismaClient } from "@prisma/client";
+import { collectionVersionInclude, toCollectionVersionResponse } from "../../../lib/collections";
+import { errorProblem, problem } from "../../../lib/problems";
+import { signedResponse } from "../../../lib/signing";
+import { notDeleted } from "../../../lib/trash";
+
+// Get a single version of a collection, versions are immutable once created
+export async function onRequestGet<PagesFunction>(context: EventContext<Env, string, Record<string, unknown>>): Promise<Response | void> {
+    const { data, env, params, request } = context;
+    const prisma = data.prisma as PrismaClient;
+    const principal = data.principal as TeaPrincipal;
+
+    try {
+        const collectionUuid = params.uuid as string;
+
+        // Validate UUID format
+        if (!collectionUuid || !/^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(collectionUuid)) {
+            return problem(request, 'invalid-parameter', `Invalid collection UUID`);
+        }
+
+        // Validate version number, versions start with 1
+        if (!/^[1-9][0-9]{0,8}$/.test(params.version as string)) {
+            return problem(request, 'invalid-parameter', `Invalid collection version`);
+        }
+        const versionNumber = parseInt(params.version as string);
+
+        // Get the version, only for collections of the organization
+        const version = await prisma.teaCollectionVersion.findFirst({
+            where: {
+                collectionUuid,
+                version: versionNumber,
+                collection: {
+                    organizationUuid: principal.organizationUuid,
+                    ...notDeleted
+                }
+            },
+            include: collectionVersionInclude
+        });
+
+        if (!version) {
+            return problem(request, 'not-found', `Collection version not found`);
+        }
+
+        return signedResponse(env, request, toCollectionVersionResponse(collectionUuid, version));
+
+    } catch (error) {
+        console.error(`Error fetching TEA Collection version:`, error);
+        return errorProblem(request, error);
+    }
+};
@@ -1,9 +1,18 @@
-import type { CreateTeaComponentRequest } from "./types";
+import type { CreateTeaComponentRequest, TeaCpeMatch, TeaPrincipal } from "./types";
 import type { PrismaClient } from "@prisma/client";
+import { permitsProduct, unauthorized } from "./lib/auth";
+import { parseCpeQuery } from "./lib/cpe";
+import { cpeMatchesOf, findCpeMatches, identifierConflict, identifierConnections, identifierPurl, identifierSelect, invalidIdentifier, normalizeIdentifiers, normalizeIdentifierValue, toIdentifierResponse } from "./lib/identifiers";
+import { mergeQualifiers, parsePurl, purlColumns, purlWhere, qualifierColumn } from "./lib/purl";
+import { errorProblem, problem } from "./lib/problems";
+import { pageQuery, paginate, parsePageRequest } from "./lib/pagination";
+import { recordAudit } from "./lib/audit";
+import { notDeleted } from "./lib/trash";
 
 export async function onRequestPost<PagesFunction>(context: EventContext<Env, string, Record<string, unknown>>): Promise<Response | void> {
     const { data, request } = context;
     const prisma = data.prisma as PrismaClient;
+    const principal = data.principal as TeaPrincipal;
     
     try {
 
@@ -12,63 +21,97 @@ export async function onRequestPost<PagesFunction>(context: EventContext<Env, st
         
         // Validate required fields
         if (!requestBody.name) {
-            return new Response(JSON.stringify({ error: `Missing required field: name` }), { 
-                status: 400,
-                headers: { 'Content-Type': 'application/json' }
-            });
+            return problem(request, 'invalid-request-body', `Missing required field: name`);
         }
 
         if (!requestBody.type) {
-            return new Response(JSON.stringify({ error: `Missing required field: type` }), { 
-                status: 400,
-                headers: { 'Content-Type': 'application/json' }
-            });
+            return problem(request, 'invalid-request-body', `Missing required field: type`);
         }
 
         if (!requestBody.productIdentifier) {
-            return new Response(JSON.stringify({ error: `Missing required field: productIdentifier` }), { 
-                status: 400,
-                headers: { 'Content-Type': 'application/json' }
-            });
+            return problem(request, 'invalid-request-body', `Missing required field: productIdentifier`);
+        }
+
+        // API keys may be limited to specific products
+        if (!permitsProduct(principal, [requestBody.productIdentifier])) {
+            return unauthorized(request, `Not permitted to modify this product`, 'insufficient_scope');
+        }
+
+        // Check if product exists and belongs to the organization
+        const existingProduct = await prisma.teaProduct.findFirst({
+            where: {
+                uuid: requestBody.productIdentifier,
+                organizationUuid: principal.organizationUuid,
+                ...notDeleted
+            }
+        });
+
+        if (!existingProduct) {
+            return problem(request, 'not-found', `Product not found`);
         }
 
+        // Identifiers may be shared with other products and components only as identifierPolicies allows
+        const identifiers = normalizeIdentifiers(requestBody.identifiers);
+        const invalid = invalidIdentifier(identifiers);
+        if (invalid) {
+            return problem(request, 'invalid-request-body', invalid);
+        }
+        const conflict = await identifierConflict(prisma, principal.organizationUuid, 'component', null, identifiers);
+        if (conflict) {
+            return problem(request, 'conflict', conflict);
+        }
+
+        const purl = identifierPurl(identifiers);
+
         // Generate UUID for the component
         const componentUuid = crypto.randomUUID();
         const now = Math.floor(Date.now() / 1000);
 
-        // Create TEA Component in database
-        const teaComponent = await prisma.teaComponent.create({
-            data: {
-                uuid: componentUuid,
-                name: requestBody.name,
-                type: requestBody.type,
-                namespace: requestBody.namespace || ``,
-                version: requestBody.version,
-                qualifiers: JSON.stringify(requestBody.qualifiers || []),
-                subpath: requestBody.subpath,
-                barcode: requestBody.barcode,
-                sku: requestBody.sku,
-                vendor: requestBody.vendor,
-                identifiers: JSON.stringify(requestBody.identifiers || []),
-                primaryLanguage: null,
-                homepageUrl: null,
-                downloadUrl: null,
-                description: null,
-                releaseDate: null,
-                validUntilDate: null,
-                createdAt: now,
-                updatedAt: now
-            }
-        });
+        // Create TEA Component in database with its product relationship and record it in the audit log
+        const teaComponent = await prisma.$transaction(async (tx) => {
+            const createdComponent = await tx.teaComponent.create({
+                data: {
+                    uuid: componentUuid,
+                    organizationUuid: principal.organizationUuid,
+                    name: requestBody.name,
+                    type: requestBody.type,
+                    namespace: requestBody.namespace || ``,
+                    version: requestBody.version,
+                    qualifiers: qualifierColumn(mergeQualifiers(requestBody.qualifiers)),
+                    subpath: requestBody.subpath,
+                    barcode: requestBody.barcode,
+                    sku: requestBody.sku,
+                    vendor: requestBody.vendor,
+                    identifiers: identifierConnections(principal.organizationUuid, identifiers, now, false),
+                    primaryLanguage: null,
+                    homepageUrl: null,
+                    downloadUrl: null,
+                    description: null,
+                    releaseDate: null,
+                    validUntilDate: null,
+                    createdAt: now,
+                    updatedAt: now,
+                    // The parts of a purl identifier take precedence over the separate fields
+                    ...(purl ? purlColumns(purl) : {})
+                },
+                include: {
+                    identifiers: identifierSelect
+                }
+            });
 
-        // Create the product-component relationship
-        await prisma.teaProductComponent.create({
-            data: {
-                productUuid: requestBody.productIdentifier,
-                componentUuid: componentUuid,
-                relationship: `component`,
-                createdAt: now
-            }
+            // Create the product-component relationship
+            await tx.teaProductComponent.create({
+                data: {
+                    productUuid: requestBody.productIdentifier,
+                    componentUuid: componentUuid,
+                    relationship: `component`,
+                    createdAt: now
+                }
+            });
+
+            await recordAudit(tx, principal, { operation: 'create', entityType: 'component', entityUuid: componentUuid, after: { ...createdComponent, productUuid: requestBody.productIdentifier } }, now);
+
+            return createdComponent;
         });
 
         // Build response  
@@ -78,7 +121,7 @@ export async function onRequestPost<PagesFunction>(context: EventContext<Env, st
             barcode: teaComponent.barcode,
             sku: teaComponent.sku,
             vendor: teaComponent.vendor,
-            identifiers: JSON.parse(teaComponent.identifiers || `[]`),
+            identifiers: toIdentifierResponse(teaComponent.identifiers),
             type: teaComponent.type,
             namespace: teaComponent.namespace,
             version: teaComponent.version,
@@ -93,72 +136,98 @@ export async function onRequestPost<PagesFunction>(context: EventContext<Env, st
 
     } catch (error) {
         console.error(`Error creating TEA Component:`, error);
-        return new Response(JSON.stringify({ error: `Internal server error` }), { 
-            status: 500,
-            headers: { 'Content-Type': 'application/json' }
-        });
+        return errorProblem(request, error);
     }
 };
 
 export async function onRequestGet<PagesFunction>(context: EventContext<Env, string, Record<string, unknown>>): Promise<Response | void> {
-    const { data } = context;
+    const { data, env, request } = context;
     const prisma = data.prisma as PrismaClient;
+    const principal = data.principal as TeaPrincipal;
     
     try {
 
         // Parse query parameters
         const url = new URL(context.request.url);
-        const pageOffset = parseInt(url.searchParams.get('pageOffset') || '0');
-        const pageSize = Math.min(parseInt(url.searchParams.get('pageSize') || '100'), 1000);
+        const page = await parsePageRequest(env, url, 'component');
+        if (typeof page === 'string') {
+            return problem(request, 'invalid-parameter', page);
+        }
         const idType = url.searchParams.get('idType');
         const idValue = url.searchParams.get('idValue');
+        const purlParam = url.searchParams.get('purl');
 
-        // Build where clause
-        const where: any = {};
+        // Build where clause, always scoped to the caller's organization
+        const where: any = {
+            organizationUuid: principal.organizationUuid,
+            ...notDeleted
+        };
 
         // Handle identifier filtering
         if (idType && idValue) {
             where.identifiers = {
-                contains: JSON.stringify({ idType, idValue })
+                some: { idType, idValue: normalizeIdentifierValue(idType, idValue) }
             };
         }
 
+        // Handle purl filtering, ignoring the version or qualifiers finds every version or build of a package
+        if (purlParam) {
+            const purl = parsePurl(purlParam);
+            if (!purl) {
+                return problem(request, 'invalid-parameter', `Invalid purl`);
+            }
+            where.AND = [purlWhere(purl, url.searchParams.get('ignoreVersion') === 'true', url.searchParams.get('ignoreQualifiers') === 'true')];
+        }
+
+        // Handle CPE matching, following the NIST CPE name matching rules
+        let cpeMatches: Map<number, TeaCpeMatch> | null = null;
+        if (url.searchParams.get('cpe')) {
+            const cpeQuery = parseCpeQuery(url);
+            if (!cpeQuery) {
+                return problem(request, 'invalid-parameter', `Invalid cpe, cpeMatch or version bound`);
+            }
+            const matches = await findCpeMatches(prisma, principal.organizationUuid, cpeQuery);
+            if (typeof matches === 'string') {
+                return problem(request, 'invalid-parameter', matches);
+            }
+            cpeMatches = matches;
+            const matchedIds = [...cpeMatches.keys()];
+            where.AND = [...(where.AND || []), { identifiers: { some: { id: { in: matchedIds } } } }];
+        }
+
         // Get total count
         const total = await prisma.teaComponent.count({ where });
 
         // Get components with pagination
-        const components = await prisma.teaComponent.findMany({
-            where,
-            skip: pageOffset,
-            take: pageSize,
-            orderBy: { createdAt: 'desc' },
+        const rows = await prisma.teaComponent.findMany({
+            ...pageQuery(page, where),
             include: {
                 releases: {
+                    where: {
+                        release: notDeleted
+                    },
                     select: {
                         releaseUuid: true
                     }
-                }
+                },
+                identifiers: identifierSelect
             }
         });
+        const { items: components, pagination } = await paginate(env, 'component', page, rows, total);
 
         // Transform to API format
         const componentData = components.map(component => ({
             uuid: component.uuid,
             name: component.name,
-            identifiers: JSON.parse(component.identifiers || '[]'),
+            identifiers: toIdentifierResponse(component.identifiers),
             versions: component.version ? [component.version] : [],
-            releases: component.releases.map(r => r.releaseUuid)
+            releases: component.releases.map(r => r.releaseUuid),
+            ...(cpeMatches ? { matchedCpes: cpeMatchesOf(component.identifiers, cpeMatches) } : {})
         }));
 
         const response = {
             data: componentData,
-            pagination: {
-                total,
-                pageOffset,
-                pageSize,
-                hasNext: pageOffset + pageSize < total,
-                hasPrevious: pageOffset > 0
-            }
+            pagination
         };
 
         return new Response(JSON.stringify(response), {
@@ -168,9 +237,6 @@ export async function onRequestGet<PagesFunction>(context: EventContext<Env, str
 
     } catch (error) {
         console.error(`Error fetching TEA Components:`, error);
-        return new Response(JSON.stringify({ error: `Internal server error` }), { 
-            status: 500,
-            headers: { 'Content-Type': 'application/json' }
-        });
+        return errorProblem(request, error);
     }
 };
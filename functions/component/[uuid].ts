@@ -1,62 +1,110 @@
-import type { UpdateTeaComponentRequest } from "../types";
+import type { TeaPrincipal, UpdateTeaComponentRequest } from "../types";
 import type { PrismaClient } from "@prisma/client";
+import { permitsProduct, unauthorized } from "../lib/auth";
+import { deleteUnusedIdentifiers, identifierConflict, identifierConnections, identifierPurl, identifierSelect, invalidIdentifier, normalizeIdentifiers, toIdentifierResponse } from "../lib/identifiers";
+import { mergeQualifiers, purlColumns, qualifierColumn } from "../lib/purl";
+import { errorProblem, problem } from "../lib/problems";
+import { recordAudit } from "../lib/audit";
+import { notDeleted } from "../lib/trash";
 
 export async function onRequestPatch<PagesFunction>(context: EventContext<Env, string, Record<string, unknown>>): Promise<Response | void> {
     const { data, params, request } = context;
     const prisma = data.prisma as PrismaClient;
+    const principal = data.principal as TeaPrincipal;
 
     try {
         const componentUuid = params.uuid as string;
         
         // Validate UUID format
         if (!componentUuid || !/^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(componentUuid)) {
-            return new Response(JSON.stringify({ error: `Invalid component UUID` }), { 
-                status: 400,
-                headers: { 'Content-Type': 'application/json' }
-            });
+            return problem(request, 'invalid-parameter', `Invalid component UUID`);
         }
 
         // Check if component exists and belongs to the organization
-        const existingComponent = await prisma.teaComponent.findUnique({
+        const existingComponent = await prisma.teaComponent.findFirst({
             where: {
-                uuid: componentUuid
+                uuid: componentUuid,
+                organizationUuid: principal.organizationUuid,
+                ...notDeleted
+            },
+            include: {
+                products: {
+                    select: {
+                        productUuid: true
+                    }
+                },
+                identifiers: identifierSelect
             }
         });
 
         if (!existingComponent) {
-            return new Response(JSON.stringify({ error: `Component not found` }), { 
-                status: 404,
-                headers: { 'Content-Type': 'application/json' }
-            });
+            return problem(request, 'not-found', `Component not found`);
+        }
+
+        // API keys may be limited to specific products
+        if (!permitsProduct(principal, existingComponent.products.map(p => p.productUuid))) {
+            return unauthorized(request, `Not permitted to modify this component`, 'insufficient_scope');
         }
 
         // Parse request body
         const requestBody: UpdateTeaComponentRequest = await request.json();
         
+        // Identifiers may be shared with other products and components only as identifierPolicies allows
+        const identifiers = normalizeIdentifiers(requestBody?.identifiers);
+        if (requestBody?.identifiers) {
+            const invalid = invalidIdentifier(identifiers);
+            if (invalid) {
+                return problem(request, 'invalid-request-body', invalid);
+            }
+            const conflict = await identifierConflict(prisma, principal.organizationUuid, 'component', componentUuid, identifiers);
+            if (conflict) {
+                return problem(request, 'conflict', conflict);
+            }
+        }
+
         // Build update data
+        const now = Math.floor(Date.now() / 1000);
         const updateData: any = {
-            updatedAt: Math.floor(Date.now() / 1000)
+            updatedAt: now
         };
 
         if (requestBody?.name) updateData.name = requestBody.name;
         if (requestBody?.barcode !== undefined) updateData.barcode = requestBody.barcode;
         if (requestBody?.sku !== undefined) updateData.sku = requestBody.sku;
         if (requestBody?.vendor !== undefined) updateData.vendor = requestBody.vendor;
-        if (requestBody?.identifiers) updateData.identifiers = JSON.stringify(requestBody.identifiers);
+        if (requestBody?.identifiers) updateData.identifiers = identifierConnections(principal.organizationUuid, identifiers, now, true);
         if (requestBody?.type) updateData.type = requestBody.type;
         if (requestBody?.namespace !== undefined) updateData.namespace = requestBody.namespace;
         if (requestBody?.version !== undefined) updateData.version = requestBody.version;
-        if (requestBody?.qualifiers) updateData.qualifiers = JSON.stringify(requestBody.qualifiers);
+        if (requestBody?.qualifiers) updateData.qualifiers = qualifierColumn(mergeQualifiers(requestBody.qualifiers));
         if (requestBody?.subpath !== undefined) updateData.subpath = requestBody.subpath;
 
-        // Update TEA Component in database
-        const updatedComponent = await prisma.teaComponent.update({
-            where: {
-                uuid: componentUuid
-            },
-            data: updateData
+        // The parts of a purl identifier take precedence over the separate fields
+        const purl = identifierPurl(identifiers);
+        if (purl) Object.assign(updateData, purlColumns(purl));
+
+        // Update TEA Component in database and record the change in the audit log
+        const updatedComponent = await prisma.$transaction(async (tx) => {
+            const changedComponent = await tx.teaComponent.update({
+                where: {
+                    uuid: componentUuid
+                },
+                data: updateData,
+                include: {
+                    identifiers: identifierSelect
+                }
+            });
+
+            await recordAudit(tx, principal, { operation: 'update', entityType: 'component', entityUuid: componentUuid, before: existingComponent, after: changedComponent }, now);
+
+            return changedComponent;
         });
 
+        // Records of identifiers the component no longer carries may now be unused
+        if (requestBody?.identifiers) {
+            await deleteUnusedIdentifiers(prisma, principal.organizationUuid);
+        }
+
         // Build response
         const response = {
             identifier: updatedComponent.uuid,
@@ -64,7 +112,7 @@ export async function onRequestPatch<PagesFunction>(context: EventContext<Env, s
             barcode: updatedComponent.barcode,
             sku: updatedComponent.sku,
             vendor: updatedComponent.vendor,
-            identifiers: JSON.parse(updatedComponent.identifiers || `[]`),
+            identifiers: toIdentifierResponse(updatedComponent.identifiers),
             type: updatedComponent.type,
             namespace: updatedComponent.namespace,
             version: updatedComponent.version,
@@ -79,16 +127,14 @@ export async function onRequestPatch<PagesFunction>(context: EventContext<Env, s
 
     } catch (error) {
         console.error(`Error updating TEA Component:`, error);
-        return new Response(JSON.stringify({ error: `Internal server error` }), { 
-            status: 500,
-            headers: { 'Content-Type': 'application/json' }
-        });
+        return errorProblem(request, error);
     }
 };
 
 export async function onRequestDelete<PagesFunction>(context: EventContext<Env, string, Record<string, unknown>>): Promise<Response | void> {
-    const { data, params } = context;
+    const { data, params, request } = context;
     const prisma = data.prisma as PrismaClient;
+    const principal = data.principal as TeaPrincipal;
     
     try {
 
@@ -96,48 +142,49 @@ export async function onRequestDelete<PagesFunction>(context: EventContext<Env,
         
         // Validate UUID format
         if (!componentUuid || !/^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(componentUuid)) {
-            return new Response(JSON.stringify({ error: `Invalid component UUID` }), { 
-                status: 400,
-                headers: { 'Content-Type': 'application/json' }
-            });
+            return problem(request, 'invalid-parameter', `Invalid component UUID`);
         }
 
         // Check if component exists and belongs to the organization
-        const existingComponent = await prisma.teaComponent.findUnique({
+        const existingComponent = await prisma.teaComponent.findFirst({
             where: {
-                uuid: componentUuid
+                uuid: componentUuid,
+                organizationUuid: principal.organizationUuid,
+                ...notDeleted
+            },
+            include: {
+                products: {
+                    select: {
+                        productUuid: true
+                    }
+                }
             }
         });
 
         if (!existingComponent) {
-            return new Response(JSON.stringify({ error: `Component not found` }), { 
-                status: 404,
-                headers: { 'Content-Type': 'application/json' }
-            });
+            return problem(request, 'not-found', `Component not found`);
         }
 
-        // Delete related records first (cascade delete)
-        await prisma.$transaction(async (tx) => {
-            // Delete product-component relationships
-            await tx.teaProductComponent.deleteMany({
-                where: {
-                    componentUuid: componentUuid
-                }
-            });
+        // API keys may be limited to specific products
+        if (!permitsProduct(principal, existingComponent.products.map(p => p.productUuid))) {
+            return unauthorized(request, `Not permitted to modify this component`, 'insufficient_scope');
+        }
 
-            // Delete release-component relationships
-            await tx.teaReleaseComponent.deleteMany({
-                where: {
-                    componentUuid: componentUuid
-                }
-            });
+        const now = Math.floor(Date.now() / 1000);
 
-            // Delete the component
-            await tx.teaComponent.delete({
+        // Move the component to the trash, its relationships stay for a restore, see lib/trash
+        await prisma.$transaction(async (tx) => {
+            const deletedComponent = await tx.teaComponent.update({
                 where: {
                     uuid: componentUuid
+                },
+                data: {
+                    deletedAt: now,
+                    deletedBy: principal.subject
                 }
             });
+
+            await recordAudit(tx, principal, { operation: 'delete', entityType: 'component', entityUuid: componentUuid, before: existingComponent, after: deletedComponent }, now);
         });
 
         return new Response(null, {
@@ -146,16 +193,14 @@ export async function onRequestDelete<PagesFunction>(context: EventContext<Env,
 
     } catch (error) {
         console.error(`Error deleting TEA Component:`, error);
-        return new Response(JSON.stringify({ error: `Internal server error` }), { 
-            status: 500,
-            headers: { 'Content-Type': 'application/json' }
-        });
+        return errorProblem(request, error);
     }
 };
 
 export async function onRequestGet<PagesFunction>(context: EventContext<Env, string, Record<string, unknown>>): Promise<Response | void> {
-    const { data, params } = context;
+    const { data, params, request } = context;
     const prisma = data.prisma as PrismaClient;
+    const principal = data.principal as TeaPrincipal;
     
     try {
 
@@ -163,37 +208,37 @@ export async function onRequestGet<PagesFunction>(context: EventContext<Env, str
         
         // Validate UUID format
         if (!componentUuid || !/^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(componentUuid)) {
-            return new Response(JSON.stringify({ error: `Invalid component UUID` }), { 
-                status: 400,
-                headers: { 'Content-Type': 'application/json' }
-            });
+            return problem(request, 'invalid-parameter', `Invalid component UUID`);
         }
 
         // Get component with releases
-        const component = await prisma.teaComponent.findUnique({
+        const component = await prisma.teaComponent.findFirst({
             where: {
-                uuid: componentUuid
+                uuid: componentUuid,
+                organizationUuid: principal.organizationUuid,
+                ...notDeleted
             },
             include: {
                 releases: {
+                    where: {
+                        release: notDeleted
+                    },
                     select: {
                         releaseUuid: true
                     }
-                }
+                },
+                identifiers: identifierSelect
             }
         });
 
         if (!component) {
-            return new Response(JSON.stringify({ error: `Component not found` }), { 
-                status: 404,
-                headers: { 'Content-Type': 'application/json' }
-            });
+            return problem(request, 'not-found', `Component not found`);
         }
         // Transform to API format
         const response = {
             uuid: component.uuid,
             name: component.name,
-            identifiers: JSON.parse(component.identifiers || '[]'),
+            identifiers: toIdentifierResponse(component.identifiers),
             versions: component.version ? [component.version] : [],
             releases: component.releases.map(r => r.releaseUuid)
         };
@@ -205,9 +250,6 @@ export async function onRequestGet<PagesFunction>(context: EventContext<Env, str
 
     } catch (error) {
         console.error(`Error fetching TEA Component:`, error);
-        return new Response(JSON.stringify({ error: `Internal server error` }), { 
-            status: 500,
-            headers: { 'Content-Type': 'application/json' }
-        });
+        return errorProblem(request, error);
     }
 };
@@ -0,0 +1,93 @@
+import type { TeaPrincipal } from "../../types";
+import type { PrismaClient } from "@prisma/client";
+import { permitsProduct, unauthorized } from "../../lib/auth";
+import { identifierSelect, toIdentifierResponse } from "../../lib/identifiers";
+import { errorProblem, problem } from "../../lib/problems";
+import { recordAudit } from "../../lib/audit";
+
+// Restore a component from the trash, with the product and release relationships it had
+export async function onRequestPost<PagesFunction>(context: EventContext<Env, string, Record<string, unknown>>): Promise<Response | void> {
+    const { data, params, request } = context;
+    const prisma = data.prisma as PrismaClient;
+    const principal = data.principal as TeaPrincipal;
+
+    try {
+
+        const componentUuid = params.uuid as string;
+
+        // Validate UUID format
+        if (!componentUuid || !/^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(componentUuid)) {
+            return problem(request, 'invalid-parameter', `Invalid component UUID`);
+        }
+
+        // Check if the component is in the trash of the organization
+        const deletedComponent = await prisma.teaComponent.findFirst({
+            where: {
+                uuid: componentUuid,
+                organizationUuid: principal.organizationUuid,
+                deletedAt: { not: null }
+            },
+            include: {
+                products: {
+                    select: {
+                        productUuid: true
+                    }
+                }
+            }
+        });
+
+        if (!deletedComponent) {
+            return problem(request, 'not-found', `Component not found in the trash`);
+        }
+
+        // API keys may be limited to specific products
+        if (!permitsProduct(principal, deletedComponent.products.map(p => p.productUuid))) {
+            return unauthorized(request, `Not permitted to modify this component`, 'insufficient_scope');
+        }
+
+        const now = Math.floor(Date.now() / 1000);
+
+        const restoredComponent = await prisma.$transaction(async (tx) => {
+            const component = await tx.teaComponent.update({
+                where: {
+                    uuid: componentUuid
+                },
+                data: {
+                    deletedAt: null,
+                    deletedBy: null
+                },
+                include: {
+                    identifiers: identifierSelect
+                }
+            });
+
+            await recordAudit(tx, principal, { operation: 'restore', entityType: 'component', entityUuid: componentUuid, before: deletedComponent, after: component }, now);
+
+            return component;
+        });
+
+        // Build response
+        const response = {
+            identifier: restoredComponent.uuid,
+            name: restoredComponent.name,
+            barcode: restoredComponent.barcode,
+            sku: restoredComponent.sku,
+            vendor: restoredComponent.vendor,
+            identifiers: toIdentifierResponse(restoredComponent.identifiers),
+            type: restoredComponent.type,
+            namespace: restoredComponent.namespace,
+            version: restoredComponent.version,
+            qualifiers: JSON.parse(restoredComponent.qualifiers || `[]`),
+            subpath: restoredComponent.subpath
+        };
+
+        return new Response(JSON.stringify(response), {
+            status: 200,
+            headers: { 'Content-Type': 'application/json' }
+        });
+
+    } catch (error) {
+        console.error(`Error restoring TEA Component:`, error);
+        return errorProblem(request, error);
+    }
+};
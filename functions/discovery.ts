@@ -0,0 +1,222 @@
+import type { TeaPrincipal, TeaTeiMatch } from "./types";
+import type { PrismaClient } from "@prisma/client";
+import { normalizeIdentifierValue } from "./lib/identifiers";
+import { parsePurl } from "./lib/purl";
+import { parseTei, type ParsedTei } from "./lib/tei";
+import { notDeleted } from "./lib/trash";
+import { errorProblem, problem } from "./lib/problems";
+
+// Helper function to list the spellings of a GTIN, barcodes may be stored as GTIN-8, -12, -13 or -14
+function gtinVariants(gtin: string): string[] {
+    const digits = gtin.replace(/^0+/, '');
+    return [...new Set([gtin, ...[8, 12, 13, 14].filter(length => length >= digits.length).map(length => digits.padStart(length, '0'))])];
+}
+
+// Helper function to get the device identifier of a UDI, the GS1 (01) application identifier when present
+function udiDeviceIdentifier(udi: string): string {
+    const match = /^\(01\)([0-9]{14})/.exec(udi) || /^01([0-9]{14})/.exec(udi);
+    return match ? match[1] : udi;
+}
+
+// Helper function to find the products and releases a TEI refers to
+async function resolveTei(prisma: PrismaClient, organizationUuid: string, tei: ParsedTei): Promise<TeaTeiMatch[]> {
+    const matches: TeaTeiMatch[] = [];
+    const productWhere: any[] = [
+        // Products may list the TEI itself as an identifier
+        { identifiers: { some: { idType: 'tei', idValue: tei.tei } } }
+    ];
+    const componentWhere: any[] = [];
+    let releaseVersion: string | null = null;
+
+    switch (tei.type) {
+        case 'uuid': {
+            // The uuid form names a TEA Release, or a TEA Product when no release matches
+            const release = await prisma.teaRelease.findFirst({
+                where: {
+                    uuid: tei.identifier.toLowerCase(),
+                    organizationUuid,
+                    ...notDeleted
+                }
+            });
+            if (release) {
+                matches.push({ productIdentifier: release.productUuid, releaseIdentifier: release.uuid });
+            }
+            productWhere.push({ uuid: tei.identifier.toLowerCase() });
+            break;
+        }
+        case 'purl':
+        case 'swid': {
+            const identifier = { idType: tei.type, idValue: normalizeIdentifierValue(tei.type, tei.identifier) };
+            productWhere.push({ identifiers: { some: identifier } });
+            componentWhere.push({ identifiers: { some: identifier } });
+            releaseVersion = tei.type === 'purl' ? parsePurl(tei.identifier)?.version ?? null : null;
+            break;
+        }
+        case 'eanupc':
+        case 'gtin':
+        case 'udi': {
+            const barcodes = gtinVariants(tei.type === 'udi' ? udiDeviceIdentifier(tei.identifier) : tei.identifier);
+            productWhere.push({ barcode: { in: barcodes } });
+            componentWhere.push({ barcode: { in: barcodes } });
+            break;
+        }
+        case 'asin':
+            productWhere.push({ sku: tei.identifier });
+            componentWhere.push({ sku: tei.identifier });
+            break;
+        case 'hash': {
+            // The hash form names a document, find the releases whose collections contain it
+            const separator = tei.identifier.indexOf(':');
+            const collectionArtifacts = await prisma.teaCollectionArtifact.findMany({
+                where: {
+                    collectionVersion: {
+                        collection: notDeleted
+                    },
+                    artifact: {
+                        organizationUuid,
+                        formats: {
+                            some: {
+                                checksums: {
+                                    some: {
+                                        algType: tei.identifier.slice(0, separator),
+                                        algValue: tei.identifier.slice(separator + 1).toLowerCase()
+                                    }
+                                }
+                            }
+                        }
+                    }
+                },
+                include: {
+                    collectionVersion: {
+                        select: {
+                            collection: {
+                                select: {
+                                    release: true
+                                }
+                            }
+                        }
+                    }
+                }
+            });
+            for (const collectionArtifact of collectionArtifacts) {
+                const release = collectionArtifact.collectionVersion.collection.release;
+                matches.push({ productIdentifier: release.productUuid, releaseIdentifier: release.uuid });
+            }
+            break;
+        }
+    }
+
+    const products = await prisma.teaProduct.findMany({
+        where: {
+            organizationUuid,
+            OR: productWhere,
+            ...notDeleted
+        },
+        select: {
+            uuid: true
+        }
+    });
+
+    // A versioned purl narrows the product to the release of that version
+    const versionedReleases = releaseVersion && products.length > 0 ? await prisma.teaRelease.findMany({
+        where: {
+            productUuid: { in: products.map(product => product.uuid) },
+            version: releaseVersion,
+            ...notDeleted
+        },
+        select: {
+            uuid: true,
+            productUuid: true
+        }
+    }) : [];
+
+    for (const product of products) {
+        const releases = versionedReleases.filter(release => release.productUuid === product.uuid);
+        if (releases.length > 0) {
+            matches.push(...releases.map(release => ({ productIdentifier: product.uuid, releaseIdentifier: release.uuid })));
+        } else {
+            matches.push({ productIdentifier: product.uuid });
+        }
+    }
+
+    // Components are matched through the releases they are part of
+    if (componentWhere.length > 0) {
+        const releases = await prisma.teaRelease.findMany({
+            where: {
+                organizationUuid,
+                ...(releaseVersion ? { version: releaseVersion } : {}),
+                components: {
+                    some: {
+                        component: {
+                            OR: componentWhere,
+                            ...notDeleted
+                        }
+                    }
+                },
+                ...notDeleted
+            },
+            select: {
+                uuid: true,
+                productUuid: true
+            }
+        });
+        matches.push(...releases.map(release => ({ productIdentifier: release.productUuid, releaseIdentifier: release.uuid })));
+    }
+
+    // The same release may be found through several identifiers
+    const seen = new Set<string>();
+    return matches.filter(match => {
+        const key = `${match.productIdentifier}/${match.releaseIdentifier || ''}`;
+        if (seen.has(key)) {
+            return false;
+        }
+        seen.add(key);
+        return true;
+    });
+}
+
+// Resolve a TEI to the TEA Products and TEA Releases it identifies
+export async function onRequestGet<PagesFunction>(context: EventContext<Env, string, Record<string, unknown>>): Promise<Response | void> {
+    const { data, request } = context;
+    const prisma = data.prisma as PrismaClient;
+    const principal = data.principal as TeaPrincipal;
+
+    try {
+
+        // Parse query parameters
+        const url = new URL(request.url);
+        const teiParam = url.searchParams.get('tei');
+
+        if (!teiParam) {
+            return problem(request, 'invalid-parameter', `Missing required parameter: tei`);
+        }
+
+        const tei = parseTei(teiParam);
+        if (!tei) {
+            return problem(request, 'invalid-parameter', `Invalid TEI, expected urn:tei:<type>:<domain>:<identifier>`);
+        }
+
+        const matches = await resolveTei(prisma, principal.organizationUuid, tei);
+
+        if (matches.length === 0) {
+            return problem(request, 'not-found', `No product or release found for TEI`);
+        }
+
+        const response = {
+            tei: tei.tei,
+            type: tei.type,
+            domain: tei.domain,
+            identifier: tei.identifier,
+            data: matches
+        };
+
+        return new Response(JSON.stringify(response), {
+            status: 200,
+            headers: { 'Content-Type': 'application/json' }
+        });
+
+    } catch (error) {
+        console.error(`Error resolving TEI:`, error);
+        return errorProblem(request, error);
+    }
+};
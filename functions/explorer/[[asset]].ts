@@ -0,0 +1,9 @@
+import { onRequest as swaggerUiAssets } from "assets:../../node_modules/swagger-ui-dist";
+
+// Serve the bundled Swagger UI files below /explorer
+export async function onRequestGet<PagesFunction>(context: EventContext<Env, string, Record<string, unknown>>): Promise<Response | void> {
+    return swaggerUiAssets({
+        ...context,
+        functionPath: '/explorer'
+    } as unknown as EventContext<Env, string, Record<string, unknown>>);
+};
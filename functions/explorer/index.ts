@@ -0,0 +1,37 @@
+// Interactive API explorer for the merged OpenAPI document, the Swagger UI files are served by [[asset]].ts
+export async function onRequestGet<PagesFunction>(context: EventContext<Env, string, Record<string, unknown>>): Promise<Response | void> {
+    const html = `<!DOCTYPE html>
+<html lang="en">
+<head>
+    <meta charset="utf-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1">
+    <title>Transparency Exchange API</title>
+    <link rel="stylesheet" href="/explorer/swagger-ui.css">
+    <link rel="icon" type="image/png" href="/explorer/favicon-32x32.png" sizes="32x32">
+</head>
+<body>
+    <div id="swagger-ui"></div>
+    <script src="/explorer/swagger-ui-bundle.js"></script>
+    <script src="/explorer/swagger-ui-standalone-preset.js"></script>
+    <script>
+        window.ui = SwaggerUIBundle({
+            url: '/.well-known/openapi.json',
+            dom_id: '#swagger-ui',
+            deepLinking: true,
+            persistAuthorization: true,
+            presets: [SwaggerUIBundle.presets.apis, SwaggerUIStandalonePreset],
+            layout: 'StandaloneLayout'
+        });
+    </script>
+</body>
+</html>
+`;
+
+    return new Response(html, {
+        status: 200,
+        headers: {
+            'Content-Type': 'text/html; charset=utf-8',
+            'Cache-Control': 'public, max-age=300'
+        }
+    });
+};
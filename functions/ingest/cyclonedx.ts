@@ -0,0 +1,15 @@
+import { parseCycloneDx } from "../lib/cyclonedx";
+import { ingestRequest } from "../lib/ingest";
+
+// Ingest a CycloneDX BOM, building the product, components, release and collection it describes
+export async function onRequestPost<PagesFunction>(context: EventContext<Env, string, Record<string, unknown>>): Promise<Response | void> {
+    return ingestRequest(context, {
+        prefix: 'cyclonedx',
+        title: `CycloneDX BOM`,
+        expected: `a CycloneDX BOM`,
+        parse: parseCycloneDx,
+        defaults: source => source.trimStart().startsWith('<')
+            ? { name: `bom.xml`, mimeType: `application/vnd.cyclonedx+xml` }
+            : { name: `bom.json`, mimeType: `application/vnd.cyclonedx+json` }
+    });
+};
@@ -0,0 +1,15 @@
+import { ingestRequest } from "../lib/ingest";
+import { parseSpdx } from "../lib/spdx";
+
+// Ingest an SPDX document, building the product, components, release and collection it describes
+export async function onRequestPost<PagesFunction>(context: EventContext<Env, string, Record<string, unknown>>): Promise<Response | void> {
+    return ingestRequest(context, {
+        prefix: 'spdx',
+        title: `SPDX document`,
+        expected: `an SPDX document`,
+        parse: parseSpdx,
+        defaults: source => source.trimStart().startsWith('{')
+            ? { name: `sbom.spdx.json`, mimeType: `application/spdx+json` }
+            : { name: `sbom.spdx`, mimeType: `text/spdx` }
+    });
+};
@@ -0,0 +1,283 @@
+import type { Prisma } from "@prisma/client";
+import type { TeaArtifact, TeaArtifactInput, TeaSignatureVerification } from "../types";
+import type { SignatureVerification } from "./signatures";
+
+// R2 key prefixes served by artifactRewritePath in [[all]].ts
+export const artifacts = [
+    'cyclonedx', 'spdx', 'vex' , 'vdr', 'sarif', 'other'
+]
+
+// Checksums computed for every upload, named as in the artifactChecksum schema
+export const checksumAlgorithms = ['SHA-256', 'SHA-384', 'SHA-512'] as const
+
+// typeCollectionArtifactType
+export const artifactTypes = [
+    'ATTESTATION', 'BOM', 'BUILD_META', 'CERTIFICATION', 'FORMULATION', 'LICENSE',
+    'RELEASE_NOTES', 'SECURITY_TXT', 'THREAT_MODEL', 'VULNERABILITIES', 'OTHER'
+]
+
+// artifactChecksum algType
+export const checksumTypes = [
+    'SHA-256', 'SHA-384', 'SHA-512', 'SHA3-256', 'SHA3-384', 'SHA3-512',
+    'BLAKE2b-256', 'BLAKE2b-384', 'BLAKE2b-512', 'BLAKE3'
+]
+
+// Artifact type implied by the R2 prefix an upload is stored under
+export const defaultArtifactTypes: Record<string, string> = {
+    cyclonedx: 'BOM',
+    spdx: 'BOM',
+    vex: 'VULNERABILITIES',
+    vdr: 'VULNERABILITIES',
+    sarif: 'OTHER',
+    other: 'OTHER'
+}
+
+// Include loading an artifact with everything toArtifactResponse needs
+export const artifactInclude = {
+    author: true,
+    formats: {
+        include: {
+            checksums: true
+        },
+        orderBy: {
+            createdAt: 'asc'
+        }
+    }
+} satisfies Prisma.TeaArtifactInclude
+
+export type ArtifactWithFormats = Prisma.TeaArtifactGetPayload<{ include: typeof artifactInclude }>;
+
+export type ChecksumAlgorithm = typeof checksumAlgorithms[number];
+
+// Where createArtifact records a document stored in R2, with the verification of its detached signature
+export interface StoredObject {
+    objectKey: string;
+    size: number;
+    etag: string;
+    signature?: SignatureVerification;
+}
+
+export interface StreamedObject {
+    object: R2Object;
+    checksums: Record<ChecksumAlgorithm, string>;
+}
+
+// Encode a digest as lowercase hex
+export function toHex(digest: ArrayBuffer): string {
+    return [...new Uint8Array(digest)].map(b => b.toString(16).padStart(2, '0')).join('')
+}
+
+// The SHA-256 digest of a Content-Digest header (RFC 9530), undefined when there is none, a message when it is malformed.
+// R2 rejects a put whose body does not match the digest, and records it for the integrity check of downloads.
+export function contentDigest(headers: Headers): ArrayBuffer | string | undefined {
+    const header = headers.get('Content-Digest')
+    if (!header) {
+        return undefined
+    }
+    const match = /(?:^|,)\s*sha-256\s*=\s*:([A-Za-z0-9+/]+={0,2}):\s*(?:,|$)/i.exec(header)
+    if (!match) {
+        return `Content-Digest must contain a sha-256 digest`
+    }
+    const digest = Uint8Array.from(atob(match[1]), c => c.charCodeAt(0))
+    if (digest.length !== 32) {
+        return `The sha-256 digest of Content-Digest must be 32 bytes`
+    }
+    return digest.buffer
+}
+
+// Stream a body into R2 while computing its checksums, so the upload is never buffered in memory.
+// R2 needs the length up front for streamed puts, so the caller must supply it from Content-Length.
+export async function streamToR2(bucket: R2Bucket, key: string, body: ReadableStream, contentLength: number, options: R2PutOptions): Promise<StreamedObject> {
+    const digests = checksumAlgorithms.map(algorithm => new DigestStream(algorithm))
+    const writers = digests.map(digest => digest.getWriter())
+
+    const hashing = new TransformStream<Uint8Array, Uint8Array>({
+        async transform(chunk, controller) {
+            await Promise.all(writers.map(writer => writer.write(chunk)))
+            controller.enqueue(chunk)
+        },
+        async flush() {
+            await Promise.all(writers.map(writer => writer.close()))
+        }
+    })
+
+    const object = await bucket.put(
+        key,
+        body.pipeThrough(hashing).pipeThrough(new FixedLengthStream(contentLength)),
+        options
+    )
+
+    const values = await Promise.all(digests.map(digest => digest.digest))
+    const checksums = Object.fromEntries(
+        checksumAlgorithms.map((algorithm, i) => [algorithm, toHex(values[i])])
+    ) as Record<ChecksumAlgorithm, string>
+
+    return { object, checksums }
+}
+
+// Helper function to transform the signature verification of a stored format, undefined when it was not signed
+function toSignatureResponse(format: ArtifactWithFormats['formats'][number]): TeaSignatureVerification | undefined {
+    if (!format.signatureFormat) {
+        return undefined
+    }
+    return {
+        format: format.signatureFormat as TeaSignatureVerification['format'],
+        status: format.signatureStatus as TeaSignatureVerification['status'],
+        keyIdentifier: format.signatureKeyUuid || undefined,
+        detail: format.signatureDetail,
+        verifiedAt: new Date(format.signatureVerifiedAt * 1000).toISOString()
+    }
+}
+
+// Transform a stored artifact to the artifact schema of the API
+export function toArtifactResponse(artifact: ArtifactWithFormats): TeaArtifact {
+    return {
+        uuid: artifact.uuid,
+        name: artifact.name,
+        type: artifact.type,
+        author: artifact.author ? {
+            name: artifact.author.name,
+            email: artifact.author.email,
+            organization: artifact.author.organizationName
+        } : undefined,
+        formats: artifact.formats.map(format => ({
+            mimeType: format.mimeType,
+            description: format.description,
+            url: format.url,
+            signatureUrl: format.signatureUrl || undefined,
+            signature: toSignatureResponse(format),
+            checksums: format.checksums.map(checksum => ({
+                algType: checksum.algType,
+                algValue: checksum.algValue
+            }))
+        }))
+    }
+}
+
+// Validate an artifact from a request body, returning a description of the first problem found
+export function validateArtifactInput(input: TeaArtifactInput): string | null {
+    if (input.uuid !== undefined) {
+        if (!/^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(input.uuid)) {
+            return `Invalid artifact UUID format`
+        }
+        // A reference to an existing artifact carries nothing else
+        return null
+    }
+    if (!input.name) {
+        return `Missing required field: artifacts[].name`
+    }
+    if (!artifactTypes.includes(input.type)) {
+        return `Invalid artifact type, expected one of: ${artifactTypes.join(', ')}`
+    }
+    if (input.author && (!input.author.name || !input.author.email || !input.author.organization)) {
+        return `Artifact author requires name, email and organization`
+    }
+    if (!Array.isArray(input.formats) || input.formats.length === 0) {
+        return `Missing required field: artifacts[].formats`
+    }
+    for (const format of input.formats) {
+        if (!format.mimeType || !format.url) {
+            return `Artifact format requires mimeType and url`
+        }
+        for (const checksum of format.checksums || []) {
+            if (!checksumTypes.includes(checksum.algType) || !checksum.algValue) {
+                return `Invalid artifact checksum, algType must be one of: ${checksumTypes.join(', ')}`
+            }
+        }
+    }
+    return null
+}
+
+// Find or create the author, authors are shared by the artifacts of an organization
+async function upsertAuthor(tx: Prisma.TransactionClient, organizationUuid: string, author: TeaArtifactInput['author'], now: number): Promise<string> {
+    const record = await tx.teaArtifactAuthor.upsert({
+        where: {
+            organizationUuid_name_email_organizationName: {
+                organizationUuid,
+                name: author.name,
+                email: author.email,
+                organizationName: author.organization
+            }
+        },
+        update: {},
+        create: {
+            uuid: crypto.randomUUID(),
+            organizationUuid,
+            name: author.name,
+            email: author.email,
+            organizationName: author.organization,
+            createdAt: now
+        }
+    })
+    return record.uuid
+}
+
+// Create an artifact with its author, formats and checksums, the input must already be validated
+export async function createArtifact(tx: Prisma.TransactionClient, artifactUuid: string, organizationUuid: string, createdBy: string, input: TeaArtifactInput, now: number, storage?: StoredObject): Promise<string> {
+    await tx.teaArtifact.create({
+        data: {
+            uuid: artifactUuid,
+            organizationUuid,
+            name: input.name,
+            type: input.type,
+            authorUuid: input.author ? await upsertAuthor(tx, organizationUuid, input.author, now) : null,
+            createdBy,
+            createdAt: now,
+            updatedAt: now
+        }
+    })
+
+    for (const format of input.formats) {
+        await tx.teaArtifactFormat.create({
+            data: {
+                uuid: crypto.randomUUID(),
+                artifactUuid,
+                mimeType: format.mimeType,
+                description: format.description || ``,
+                url: format.url,
+                signatureUrl: format.signatureUrl,
+                objectKey: storage?.objectKey,
+                size: storage?.size,
+                objectEtag: storage?.etag,
+                signatureFormat: storage?.signature?.format,
+                signatureStatus: storage?.signature?.status,
+                signatureKeyUuid: storage?.signature?.keyUuid,
+                signatureDetail: storage?.signature?.detail,
+                signatureVerifiedAt: storage?.signature ? now : null,
+                createdAt: now,
+                checksums: {
+                    create: (format.checksums || []).map(checksum => ({
+                        algType: checksum.algType,
+                        algValue: checksum.algValue
+                    }))
+                }
+            }
+        })
+    }
+
+    return artifactUuid
+}
+
+// Resolve the artifacts of a collection request to artifact UUIDs, creating new artifacts and
+// checking referenced ones belong to the organization. Returns null, before creating anything,
+// when a reference is not found.
+export async function resolveArtifacts(tx: Prisma.TransactionClient, organizationUuid: string, createdBy: string, inputs: TeaArtifactInput[], now: number): Promise<string[] | null> {
+    const references = [...new Set(inputs.filter(input => input.uuid).map(input => input.uuid))]
+    if (references.length > 0) {
+        const existingArtifacts = await tx.teaArtifact.count({
+            where: {
+                uuid: { in: references },
+                organizationUuid
+            }
+        })
+        if (existingArtifacts !== references.length) {
+            return null
+        }
+    }
+
+    const artifactUuids: string[] = []
+    for (const input of inputs) {
+        artifactUuids.push(input.uuid || await createArtifact(tx, crypto.randomUUID(), organizationUuid, createdBy, input, now))
+    }
+    return [...new Set(artifactUuids)]
+}
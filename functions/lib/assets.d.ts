@@ -0,0 +1,5 @@
+// Directories imported with the assets: prefix are copied to the static assets by the Pages build,
+// the import is a handler serving them through env.ASSETS relative to context.functionPath
+declare module 'assets:*' {
+    export const onRequest: PagesFunction;
+}
@@ -0,0 +1,173 @@
+import { Prisma, type PrismaClient } from "@prisma/client";
+import type { TeaAuditEvent, TeaPrincipal } from "../types";
+import { toHex } from "./artifacts";
+
+// Every change made through the publisher API is recorded as an audit event once the change is written.
+// The events of an organization form a hash chain: each holds a SHA-256 over its content and the hash of the event
+// before it, so an event changed, removed or inserted afterwards breaks the chain from that point on. Events are
+// never updated or deleted, and the unique sequence number keeps concurrent writers from taking the same link.
+// D1 commits every query on its own, even in prisma.$transaction, so the change is already stored when its event is
+// appended: a writer losing the race for a link appends again after the winner rather than failing the request.
+
+export const auditEntityTypes = ['product', 'component', 'release', 'collection', 'artifact', 'apikey', 'trustedkey', 'webhook', 'webhookdelivery']
+
+// Members holding secrets or their hashes, a change is recorded without the values
+const redactedMembers = ['keyHash', 'secret']
+
+export interface AuditRecord {
+    operation: 'create' | 'update' | 'delete' | 'restore' | 'rotate' | 'ingest' | 'retry';
+    entityType: string;
+    entityUuid: string;
+    before?: object | null;
+    after?: object | null;
+}
+
+// Attempts at appending an event while concurrent writers take the next sequence number first
+const MAX_APPEND_ATTEMPTS = 5
+
+type StoredAuditEvent = Awaited<ReturnType<PrismaClient['teaAuditEvent']['findUnique']>>;
+
+// Helper function to record the members that differ between an entity before and after a change. Of an update only
+// the members read both times are compared, relations loaded for checks alone are not changes.
+function auditChanges(before: object | null, after: object | null): Record<string, unknown> {
+    const changes: Record<string, unknown> = {}
+    const members = before && after
+        ? Object.keys(after).filter(member => member in before)
+        : Object.keys(before ?? after ?? {})
+    for (const member of members) {
+        const previous = before?.[member] ?? null
+        const value = after?.[member] ?? null
+        if (JSON.stringify(previous) === JSON.stringify(value)) {
+            continue
+        }
+        changes[member] = redactedMembers.includes(member) ? { redacted: true } : { before: previous, after: value }
+    }
+    return changes
+}
+
+// Helper function to hash the content of an event together with the hash of the event before it
+async function auditHash(event: Omit<StoredAuditEvent, 'uuid' | 'organizationUuid' | 'hash'>): Promise<string> {
+    const content = JSON.stringify([
+        event.sequence, event.previousHash, event.actor, event.apiKeyUuid, event.operation, event.entityType, event.entityUuid, event.changes, event.createdAt
+    ])
+    return toHex(await crypto.subtle.digest('SHA-256', new TextEncoder().encode(content)))
+}
+
+// Append an event to the audit chain of the organization of the principal, after the latest event at the time of
+// the attempt
+export async function recordAudit(tx: Prisma.TransactionClient, principal: TeaPrincipal, record: AuditRecord, now: number): Promise<void> {
+    const changes = JSON.stringify(auditChanges(record.before ?? null, record.after ?? null))
+
+    for (let attempt = 1; ; attempt++) {
+        const latest = await tx.teaAuditEvent.findFirst({
+            where: {
+                organizationUuid: principal.organizationUuid
+            },
+            orderBy: {
+                sequence: 'desc'
+            },
+            select: {
+                sequence: true,
+                hash: true
+            }
+        })
+
+        const event = {
+            sequence: (latest?.sequence ?? 0) + 1,
+            previousHash: latest?.hash ?? null,
+            actor: principal.subject,
+            apiKeyUuid: principal.apiKeyUuid ?? null,
+            operation: record.operation,
+            entityType: record.entityType,
+            entityUuid: record.entityUuid,
+            changes,
+            createdAt: now
+        }
+
+        try {
+            await tx.teaAuditEvent.create({
+                data: {
+                    uuid: crypto.randomUUID(),
+                    organizationUuid: principal.organizationUuid,
+                    ...event,
+                    hash: await auditHash(event)
+                }
+            })
+            return
+        } catch (error) {
+            // A concurrent writer appended this sequence number first, link to its event instead
+            if (attempt < MAX_APPEND_ATTEMPTS && error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+                continue
+            }
+            throw error
+        }
+    }
+}
+
+// Verify the audit chain of an organization, starting at a sequence number and checking at most limit events.
+// Returns the sequence number of the first event breaking the chain, and the hash of the last event checked so
+// callers can tell whether the latest events were removed since they last verified.
+export async function verifyAuditChain(prisma: PrismaClient, organizationUuid: string, fromSequence: number, limit: number): Promise<{ checked: number, lastSequence: number | null, lastHash: string | null, brokenAt: number | null, detail: string | null }> {
+    let previous: { sequence: number, hash: string } | null = null
+    if (fromSequence > 1) {
+        previous = await prisma.teaAuditEvent.findUnique({
+            where: {
+                organizationUuid_sequence: { organizationUuid, sequence: fromSequence - 1 }
+            },
+            select: {
+                sequence: true,
+                hash: true
+            }
+        })
+        if (!previous) {
+            return { checked: 0, lastSequence: null, lastHash: null, brokenAt: fromSequence - 1, detail: `Event ${fromSequence - 1} is missing` }
+        }
+    }
+
+    const events = await prisma.teaAuditEvent.findMany({
+        where: {
+            organizationUuid,
+            sequence: { gte: fromSequence }
+        },
+        orderBy: {
+            sequence: 'asc'
+        },
+        take: limit
+    })
+
+    let checked = 0
+    for (const event of events) {
+        const expected = (previous?.sequence ?? 0) + 1
+        let detail: string | null = null
+        if (event.sequence !== expected) {
+            detail = `Event ${expected} is missing`
+        } else if (event.previousHash !== (previous?.hash ?? null)) {
+            detail = `Event ${event.sequence} does not link to the event before it`
+        } else if (event.hash !== await auditHash(event)) {
+            detail = `Event ${event.sequence} does not match its hash`
+        }
+        if (detail) {
+            return { checked, lastSequence: previous?.sequence ?? null, lastHash: previous?.hash ?? null, brokenAt: expected, detail }
+        }
+        previous = event
+        checked++
+    }
+    return { checked, lastSequence: previous?.sequence ?? null, lastHash: previous?.hash ?? null, brokenAt: null, detail: null }
+}
+
+// Transform a stored audit event to the API format
+export function toAuditEventResponse(event: StoredAuditEvent): TeaAuditEvent {
+    return {
+        identifier: event.uuid,
+        sequence: event.sequence,
+        actor: event.actor,
+        apiKeyIdentifier: event.apiKeyUuid ?? undefined,
+        operation: event.operation,
+        entityType: event.entityType,
+        entityIdentifier: event.entityUuid,
+        changes: JSON.parse(event.changes),
+        previousHash: event.previousHash ?? undefined,
+        hash: event.hash,
+        createdAt: new Date(event.createdAt * 1000).toISOString()
+    }
+}
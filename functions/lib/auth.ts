@@ -0,0 +1,191 @@
+import { base64url, createRemoteJWKSet, jwtVerify } from 'jose';
+import type { JWTPayload, JWTVerifyOptions } from 'jose';
+import type { PrismaClient } from "@prisma/client";
+import type { TeaPrincipal, TeaScope } from "../types";
+import { problem, type ProblemCode } from "./problems";
+
+// Read-only operations described in specs/consumer.yaml
+export const SCOPE_CONSUMER: TeaScope = 'tea:consumer'
+// Write operations described in specs/publisher.yaml
+export const SCOPE_PUBLISHER: TeaScope = 'tea:publisher'
+
+export const knownScopes: TeaScope[] = [SCOPE_CONSUMER, SCOPE_PUBLISHER]
+
+// API keys are opaque tokens distinguished from JWTs by this prefix
+export const API_KEY_PREFIX = 'tea_'
+
+// Avoid a D1 write on every request, only record usage once per interval
+const LAST_USED_INTERVAL_SECONDS = 60
+
+// Remote key sets are cached per isolate so keys are not fetched on every request
+const remoteKeySets = new Map<string, ReturnType<typeof createRemoteJWKSet>>()
+
+// Helper function to determine the scope required for a request method
+export function requiredScope(method: string): TeaScope {
+    switch (method.toUpperCase()) {
+        case 'GET':
+        case 'HEAD':
+        case 'OPTIONS':
+            return SCOPE_CONSUMER
+        default:
+            return SCOPE_PUBLISHER
+    }
+}
+
+// Helper function to check a principal holds a scope, publishers are also allowed to read
+export function hasScope(principal: TeaPrincipal, scope: TeaScope): boolean {
+    if (principal.scopes.includes(scope)) {
+        return true
+    }
+    return scope === SCOPE_CONSUMER && principal.scopes.includes(SCOPE_PUBLISHER)
+}
+
+// Helper function to read scopes from either the `scope` (space delimited) or `scp` (array) claim
+function parseScopes(payload: JWTPayload): TeaScope[] {
+    const claimed: string[] = []
+    if (typeof payload.scope === 'string') {
+        claimed.push(...payload.scope.split(' '))
+    }
+    if (Array.isArray(payload.scp)) {
+        claimed.push(...payload.scp.filter(s => typeof s === 'string'))
+    }
+    return knownScopes.filter(scope => claimed.includes(scope))
+}
+
+// Extract the token from an `Authorization: Bearer <token>` header
+export function bearerToken(request: Request): string | null {
+    const authorization = request.headers.get('Authorization') || ''
+    const [scheme, token] = authorization.trim().split(/\s+/)
+    if (scheme?.toLowerCase() !== 'bearer' || !token) {
+        return null
+    }
+    return token
+}
+
+// Verify a JWT against the configured JWKS endpoint, or the shared HMAC secret when no JWKS is configured
+export async function verifyJwt(token: string, env: Env): Promise<TeaPrincipal> {
+    const options: JWTVerifyOptions = {
+        issuer: env.JWT_ISSUER || undefined,
+        audience: env.JWT_AUDIENCE || undefined,
+    }
+
+    let payload: JWTPayload
+    if (env.JWT_JWKS_URL) {
+        let keySet = remoteKeySets.get(env.JWT_JWKS_URL)
+        if (!keySet) {
+            keySet = createRemoteJWKSet(new URL(env.JWT_JWKS_URL))
+            remoteKeySets.set(env.JWT_JWKS_URL, keySet)
+        }
+        ({ payload } = await jwtVerify(token, keySet, options))
+    } else if (env.JWT_SECRET) {
+        ({ payload } = await jwtVerify(token, new TextEncoder().encode(env.JWT_SECRET), {
+            ...options,
+            algorithms: ['HS256', 'HS384', 'HS512'],
+        }))
+    } else {
+        throw new Error(`No JWT verification key configured, set JWT_JWKS_URL or JWT_SECRET`)
+    }
+
+    if (!payload.sub) {
+        throw new Error(`JWT is missing the sub claim`)
+    }
+
+    // Every principal acts within exactly one organization
+    const organizationUuid = payload[env.JWT_ORGANIZATION_CLAIM || 'org']
+    if (typeof organizationUuid !== 'string' || !/^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(organizationUuid)) {
+        throw new Error(`JWT is missing a valid organization claim`)
+    }
+
+    return {
+        subject: payload.sub,
+        organizationUuid: organizationUuid.toLowerCase(),
+        scopes: parseScopes(payload),
+        authType: 'jwt',
+        claims: payload,
+    }
+}
+
+// Helper function to check a principal may act on at least one of the given products. The allow-list of an API key
+// only limits modifications, reads of the organization are not filtered by it.
+export function permitsProduct(principal: TeaPrincipal, productUuids: string[]): boolean {
+    if (!principal.products) {
+        return true
+    }
+    return productUuids.some(uuid => principal.products.includes(uuid))
+}
+
+// Generate a new API key, the caller must return it once and store only its hash
+export function generateApiKey(): string {
+    return `${API_KEY_PREFIX}${base64url.encode(crypto.getRandomValues(new Uint8Array(32)))}`
+}
+
+// SHA-256 hex digest of an API key, keys are high entropy so no salt is required
+export async function hashApiKey(apiKey: string): Promise<string> {
+    const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(apiKey))
+    return [...new Uint8Array(digest)].map(b => b.toString(16).padStart(2, '0')).join('')
+}
+
+// Verify an API key against its stored hash, rejecting revoked and expired keys
+export async function verifyApiKey(apiKey: string, prisma: PrismaClient, waitUntil: (promise: Promise<unknown>) => void): Promise<TeaPrincipal> {
+    const now = Math.floor(Date.now() / 1000)
+    const record = await prisma.teaApiKey.findUnique({
+        where: {
+            keyHash: await hashApiKey(apiKey)
+        }
+    })
+
+    if (!record) {
+        throw new Error(`Unknown API key`)
+    }
+    if (record.revokedAt) {
+        throw new Error(`API key ${record.uuid} has been revoked`)
+    }
+    if (record.expiresAt && record.expiresAt <= now) {
+        throw new Error(`API key ${record.uuid} has expired`)
+    }
+
+    if (!record.lastUsedAt || now - record.lastUsedAt >= LAST_USED_INTERVAL_SECONDS) {
+        waitUntil(prisma.teaApiKey.update({
+            where: { uuid: record.uuid },
+            data: { lastUsedAt: now }
+        }).catch(error => console.error(`Error recording API key usage:`, error)))
+    }
+
+    return {
+        subject: record.createdBy,
+        organizationUuid: record.organizationUuid,
+        scopes: JSON.parse(record.scopes),
+        authType: 'apikey',
+        apiKeyUuid: record.uuid,
+        products: record.products ? JSON.parse(record.products) : undefined,
+    }
+}
+
+// Organizations are provisioned on first write by a JWT principal from its organization claim
+export async function ensureOrganization(principal: TeaPrincipal, prisma: PrismaClient): Promise<void> {
+    const now = Math.floor(Date.now() / 1000)
+    const name = principal.claims?.org_name
+    await prisma.teaOrganization.upsert({
+        where: {
+            uuid: principal.organizationUuid
+        },
+        update: {},
+        create: {
+            uuid: principal.organizationUuid,
+            name: typeof name === 'string' ? name : null,
+            createdAt: now,
+            updatedAt: now
+        }
+    })
+}
+
+// The 401-unauthorized or, for insufficient_scope, 403-forbidden response declared by both specs, with an RFC 6750 challenge
+export function unauthorized(request: Request, message: string, error: 'invalid_request' | 'invalid_token' | 'insufficient_scope', scope?: TeaScope): Response {
+    const challenge = [`realm="tea"`, `error="${error}"`, `error_description="${message}"`]
+    if (scope) {
+        challenge.push(`scope="${scope}"`)
+    }
+    return problem(request, error.replace('_', '-') as ProblemCode, message, scope ? { scope } : {}, {
+        'WWW-Authenticate': `Bearer ${challenge.join(', ')}`,
+    })
+}
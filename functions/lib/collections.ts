@@ -0,0 +1,178 @@
+import type { Prisma } from "@prisma/client";
+import type { TeaCollectionUpdateReason, TeaCollectionVersion, TeaLifecycle } from "../types";
+import { artifactInclude, toArtifactResponse } from "./artifacts";
+
+// collectionUpdateReason type
+export const updateReasonTypes = [
+    'INITIAL_RELEASE', 'VEX_UPDATED', 'ARTIFACT_UPDATED', 'ARTIFACT_ADDED', 'ARTIFACT_REMOVED'
+]
+
+// Include loading a collection version with everything toCollectionVersionResponse needs
+export const collectionVersionInclude = {
+    artifacts: {
+        include: {
+            artifact: {
+                include: artifactInclude
+            }
+        },
+        orderBy: {
+            id: 'asc'
+        }
+    }
+} satisfies Prisma.TeaCollectionVersionInclude
+
+// Include loading a collection with its products and latest version
+export const collectionInclude = {
+    products: {
+        select: {
+            uuid: true
+        }
+    },
+    versions: {
+        include: collectionVersionInclude,
+        orderBy: {
+            version: 'desc'
+        },
+        take: 1
+    }
+} satisfies Prisma.TeaCollectionInclude
+
+export type CollectionVersionWithArtifacts = Prisma.TeaCollectionVersionGetPayload<{ include: typeof collectionVersionInclude }>;
+
+export type CollectionWithVersion = Prisma.TeaCollectionGetPayload<{ include: typeof collectionInclude }>;
+
+// The lifecycle of a new collection of a release
+export function initialLifecycle(releaseUuid: string): TeaLifecycle {
+    const now = new Date().toISOString()
+    return {
+        phase: 'created',
+        name: getPhaseDisplayName('created'),
+        description: `Collection created for release ${releaseUuid}`,
+        startedOn: now,
+        completedOn: null,
+        lastUpdated: now
+    }
+}
+
+// Transition the lifecycle of a collection to a phase
+export function transitionLifecycle(currentLifecycle: TeaLifecycle, newPhase: TeaLifecycle['phase'], description?: string): TeaLifecycle {
+    const now = new Date().toISOString()
+    return {
+        ...currentLifecycle,
+        phase: newPhase,
+        name: getPhaseDisplayName(newPhase),
+        description: description || currentLifecycle.description,
+        lastUpdated: now,
+        completedOn: (newPhase === 'completed' || newPhase === 'archived' || newPhase === 'deprecated') ? now : currentLifecycle.completedOn
+    }
+}
+
+// Helper function to get display name for lifecycle phases
+function getPhaseDisplayName(phase: TeaLifecycle['phase']): string {
+    switch (phase) {
+        case 'created': return 'Collection Created'
+        case 'in-progress': return 'In Progress'
+        case 'updated': return 'Updated'
+        case 'completed': return 'Completed'
+        case 'archived': return 'Archived'
+        case 'deprecated': return 'Deprecated'
+        default: return 'Unknown Phase'
+    }
+}
+
+// Create a version of a collection holding the given artifacts. Versions are never updated afterwards,
+// the unique (collectionUuid, version) pair makes concurrent writers of the same version fail.
+export async function createCollectionVersion(tx: Prisma.TransactionClient, collectionUuid: string, version: number, updateReason: TeaCollectionUpdateReason, artifactUuids: string[], createdBy: string, now: number): Promise<void> {
+    await tx.teaCollectionVersion.create({
+        data: {
+            collectionUuid,
+            version,
+            updateReasonType: updateReason.type,
+            updateReasonComment: updateReason.comment,
+            releaseDate: now,
+            createdBy,
+            artifacts: {
+                create: artifactUuids.map(artifactUuid => ({
+                    artifactUuid,
+                    createdAt: now
+                }))
+            }
+        }
+    })
+}
+
+// Create the next version of a collection and make it the latest, returning the new version number
+export async function bumpCollectionVersion(tx: Prisma.TransactionClient, collection: { uuid: string, version: number }, updateReason: TeaCollectionUpdateReason, artifactUuids: string[], createdBy: string, now: number): Promise<number> {
+    const version = collection.version + 1
+    await createCollectionVersion(tx, collection.uuid, version, updateReason, artifactUuids, createdBy, now)
+    await tx.teaCollection.update({
+        where: {
+            uuid: collection.uuid
+        },
+        data: {
+            version,
+            updatedAt: now
+        }
+    })
+    return version
+}
+
+// Delete collections with their versions, the artifacts stay as they may be part of other collections
+export async function deleteCollections(tx: Prisma.TransactionClient, collectionUuids: string[]): Promise<void> {
+    await tx.teaCollectionArtifact.deleteMany({
+        where: {
+            collectionUuid: { in: collectionUuids }
+        }
+    })
+    await tx.teaCollectionVersion.deleteMany({
+        where: {
+            collectionUuid: { in: collectionUuids }
+        }
+    })
+    await tx.teaCollection.deleteMany({
+        where: {
+            uuid: { in: collectionUuids }
+        }
+    })
+}
+
+// Derive the update reason from the artifacts of two versions, null when nothing changed
+export function artifactUpdateReason(previous: string[], next: string[]): TeaCollectionUpdateReason | null {
+    const added = next.filter(uuid => !previous.includes(uuid))
+    const removed = previous.filter(uuid => !next.includes(uuid))
+    if (added.length === 0 && removed.length === 0) {
+        return null
+    }
+    if (removed.length === 0) {
+        return { type: 'ARTIFACT_ADDED' }
+    }
+    if (added.length === 0) {
+        return { type: 'ARTIFACT_REMOVED' }
+    }
+    return { type: 'ARTIFACT_UPDATED' }
+}
+
+// Transform a stored collection version to the collection schema of the API
+export function toCollectionVersionResponse(collectionUuid: string, version: CollectionVersionWithArtifacts): TeaCollectionVersion {
+    return {
+        uuid: collectionUuid,
+        version: version.version,
+        releaseDate: new Date(version.releaseDate * 1000).toISOString(),
+        updateReason: {
+            type: version.updateReasonType,
+            comment: version.updateReasonComment || undefined
+        },
+        artifacts: version.artifacts.map(link => toArtifactResponse(link.artifact))
+    }
+}
+
+// Transform a stored collection with its latest version to the API format
+export function toCollectionResponse(collection: CollectionWithVersion) {
+    return {
+        ...toCollectionVersionResponse(collection.uuid, collection.versions[0]),
+        name: collection.name,
+        description: collection.description,
+        lifecycle: JSON.parse(collection.lifecycle || '{}'),
+        products: collection.products.map(p => p.uuid)
+    }
+}
@@ -0,0 +1,321 @@
+// Common Platform Enumeration names, the CPE 2.3 naming (NISTIR 7695) and name matching (NISTIR 7696)
+// specifications. Attribute values are kept in the well-formed name (WFN) form: lowercase, every character
+// other than letters, digits and '_' quoted with a backslash, and unquoted '*' and '?' being wildcards.
+// The logical values ANY and NA are the bare strings '*' and '-', a literal hyphen is '\-'.
+
+import type { TeaCpeRelation } from "../types";
+import { compareVersions } from "./versions";
+
+export const cpeAttributes = ['part', 'vendor', 'product', 'version', 'update', 'edition', 'language', 'swEdition', 'targetSw', 'targetHw', 'other'] as const
+
+export type CpeName = Record<typeof cpeAttributes[number], string>;
+
+const ANY = '*'
+const NA = '-'
+
+export type CpeMatchMode = 'equal' | 'superset' | 'subset' | 'any';
+
+// Version bounds as given by vulnerability feeds next to a CPE with any version
+export interface CpeVersionRange {
+    startIncluding?: string;
+    startExcluding?: string;
+    endIncluding?: string;
+    endExcluding?: string;
+}
+
+export interface CpeQuery {
+    name: CpeName;
+    mode: CpeMatchMode;
+    range: CpeVersionRange;
+}
+
+// Helper function to check that the wildcards of a value only appear at its start and end
+function hasValidWildcards(value: string): boolean {
+    const unquoted = value.replace(/\\./g, 'x')
+    return /^(\*|\?+)?[^*?]*(\*|\?+)?$/.test(unquoted) && unquoted !== '**'
+}
+
+// Helper function to convert a formatted string attribute to the WFN form, null when it is malformed
+function fromFormattedString(value: string): string | null {
+    if (value === ANY || value === NA) {
+        return value
+    }
+    if (value === '') {
+        return null
+    }
+    let result = ''
+    for (let i = 0; i < value.length; i++) {
+        const char = value[i]
+        if (char === '\\') {
+            const quoted = value[++i]
+            if (quoted === undefined) {
+                return null
+            }
+            result += /[a-zA-Z0-9_]/.test(quoted) ? quoted.toLowerCase() : `\\${quoted}`
+        } else if (/[a-zA-Z0-9_]/.test(char)) {
+            result += char.toLowerCase()
+        } else if (char === '.' || char === '-') {
+            result += `\\${char}`
+        } else if (char === '*' || char === '?') {
+            result += char
+        } else {
+            return null
+        }
+    }
+    return hasValidWildcards(result) ? result : null
+}
+
+// Helper function to convert a URI attribute to the WFN form, null when it is malformed
+function fromUri(value: string): string | null {
+    if (value === '') {
+        return ANY
+    }
+    if (value === NA) {
+        return NA
+    }
+    let result = ''
+    for (let i = 0; i < value.length; i++) {
+        const char = value[i]
+        if (char === '%') {
+            const code = value.slice(i + 1, i + 3).toLowerCase()
+            if (!/^[0-9a-f]{2}$/.test(code)) {
+                return null
+            }
+            i += 2
+            // %01 and %02 are the wildcards '?' and '*'
+            if (code === '01') {
+                result += '?'
+            } else if (code === '02') {
+                result += '*'
+            } else {
+                const decoded = String.fromCharCode(parseInt(code, 16))
+                result += /[a-zA-Z0-9_]/.test(decoded) ? decoded.toLowerCase() : `\\${decoded}`
+            }
+        } else if (/[a-zA-Z0-9_]/.test(char)) {
+            result += char.toLowerCase()
+        } else if (char === '.' || char === '-' || char === '~') {
+            result += `\\${char}`
+        } else {
+            return null
+        }
+    }
+    return hasValidWildcards(result) ? result : null
+}
+
+// Helper function to split a formatted string at the colons that are not quoted
+function splitFormattedString(value: string): string[] {
+    const parts: string[] = []
+    let current = ''
+    for (let i = 0; i < value.length; i++) {
+        if (value[i] === '\\' && i + 1 < value.length) {
+            current += value[i] + value[++i]
+        } else if (value[i] === ':') {
+            parts.push(current)
+            current = ''
+        } else {
+            current += value[i]
+        }
+    }
+    parts.push(current)
+    return parts
+}
+
+// Parse a CPE 2.3 formatted string, cpe:2.3:part:vendor:product:version:update:edition:language:sw_edition:target_sw:target_hw:other,
+// or a CPE 2.2 URI, cpe:/part:vendor:product:version:update:edition:language. Returns null when the name is malformed.
+export function parseCpe(value: string): CpeName | null {
+    const trimmed = value.trim()
+    let values: (string | null)[]
+
+    if (/^cpe:2\.3:/i.test(trimmed)) {
+        const parts = splitFormattedString(trimmed.slice(8))
+        if (parts.length !== 11) {
+            return null
+        }
+        values = parts.map(fromFormattedString)
+    } else if (/^cpe:\//i.test(trimmed)) {
+        const parts = trimmed.slice(5).split(':')
+        if (parts.length > 7) {
+            return null
+        }
+        const [part, vendor, product, version, update, edition, language] = [...parts, '', '', '', '', '', '', ''].slice(0, 7)
+        // The edition of a URI may pack the extended attributes, ~edition~sw_edition~target_sw~target_hw~other
+        let packed = [edition, '', '', '', '']
+        if (edition.startsWith('~')) {
+            const fields = edition.slice(1).split('~')
+            if (fields.length !== 5) {
+                return null
+            }
+            packed = fields
+        }
+        values = [part, vendor, product, version, update, packed[0], language, ...packed.slice(1)].map(fromUri)
+    } else {
+        return null
+    }
+
+    if (values.some(v => v === null) || !['a', 'o', 'h', ANY].includes(values[0] as string)) {
+        return null
+    }
+    return Object.fromEntries(cpeAttributes.map((attribute, i) => [attribute, values[i]])) as CpeName
+}
+
+// Helper function to bind a WFN attribute to the formatted string, '.', '-' and '_' need no quoting there
+function toFormattedString(value: string): string {
+    if (value === ANY || value === NA) {
+        return value
+    }
+    return value.replace(/\\([.\-_])/g, '$1')
+}
+
+// Serialize a CPE name as a CPE 2.3 formatted string, the form CPE identifiers are stored in
+export function formatCpe(name: CpeName): string {
+    return `cpe:2.3:${cpeAttributes.map(attribute => toFormattedString(name[attribute])).join(':')}`
+}
+
+// The CPE 2.3 formatted string of a CPE name in either binding, null when it is malformed
+export function canonicalCpe(value: string): string | null {
+    const name = parseCpe(value)
+    return name ? formatCpe(name) : null
+}
+
+// Helper function to get the literal text of an attribute value without quoting
+function unquote(value: string): string {
+    return value.replace(/\\(.)/g, '$1')
+}
+
+// Helper function to turn a value with wildcards into a regular expression over quoted values, '?' matches
+// one character, quoted or not, and '*' any number of them
+function wildcardPattern(value: string): RegExp {
+    let pattern = ''
+    for (let i = 0; i < value.length; i++) {
+        if (value[i] === '\\') {
+            pattern += `\\\\${value[++i].replace(/[.*+?^${}()|[\]\\/-]/g, '\\$&')}`
+        } else if (value[i] === '*') {
+            pattern += '(?:\\\\.|[^\\\\])*'
+        } else if (value[i] === '?') {
+            pattern += '(?:\\\\.|[^\\\\])'
+        } else {
+            pattern += value[i]
+        }
+    }
+    return new RegExp(`^${pattern}$`)
+}
+
+// Helper function to check whether a value holds unquoted wildcards
+function hasWildcards(value: string): boolean {
+    return /[*?]/.test(value.replace(/\\./g, ''))
+}
+
+// Compare an attribute of the source name with the attribute of the target name (NISTIR 7696, table 6-2).
+// Targets with wildcards leave the relation undefined.
+function compareAttribute(source: string, target: string): TeaCpeRelation | 'UNDEFINED' {
+    if (target !== ANY && target !== NA && hasWildcards(target)) {
+        return 'UNDEFINED'
+    }
+    if (source === target) {
+        return 'EQUAL'
+    }
+    if (source === ANY) {
+        return 'SUPERSET'
+    }
+    if (target === ANY) {
+        return 'SUBSET'
+    }
+    if (source === NA || target === NA) {
+        return 'DISJOINT'
+    }
+    if (hasWildcards(source)) {
+        return wildcardPattern(source).test(target) ? 'SUPERSET' : 'DISJOINT'
+    }
+    return 'DISJOINT'
+}
+
+// Compare two CPE names (NISTIR 7696, section 6.2). The source names a superset of the target when each
+// of its attributes is a superset of or equal to the attribute of the target, and the other way round for
+// subsets. Names whose attributes are supersets and subsets at the same time are reported as UNDEFINED.
+export function compareCpes(source: CpeName, target: CpeName): TeaCpeRelation | 'UNDEFINED' {
+    const relations = cpeAttributes.map(attribute => compareAttribute(source[attribute], target[attribute]))
+    if (relations.includes('DISJOINT')) {
+        return 'DISJOINT'
+    }
+    if (relations.includes('UNDEFINED')) {
+        return 'UNDEFINED'
+    }
+    if (relations.every(relation => relation === 'EQUAL')) {
+        return 'EQUAL'
+    }
+    if (relations.every(relation => relation === 'EQUAL' || relation === 'SUPERSET')) {
+        return 'SUPERSET'
+    }
+    if (relations.every(relation => relation === 'EQUAL' || relation === 'SUBSET')) {
+        return 'SUBSET'
+    }
+    return 'UNDEFINED'
+}
+
+// Helper function to check the version of a stored name against version bounds. Names without a concrete
+// version cannot be placed in a range.
+function inVersionRange(version: string, range: CpeVersionRange): boolean {
+    if (!range.startIncluding && !range.startExcluding && !range.endIncluding && !range.endExcluding) {
+        return true
+    }
+    if (version === ANY || version === NA || hasWildcards(version)) {
+        return false
+    }
+    const literal = unquote(version)
+    return (!range.startIncluding || compareVersions('generic', literal, range.startIncluding) >= 0)
+        && (!range.startExcluding || compareVersions('generic', literal, range.startExcluding) > 0)
+        && (!range.endIncluding || compareVersions('generic', literal, range.endIncluding) <= 0)
+        && (!range.endExcluding || compareVersions('generic', literal, range.endExcluding) < 0)
+}
+
+// The relation of a stored CPE name to a query when it satisfies the match mode and version range, null otherwise.
+// equal: the names are equal. superset: the query names a superset of or the stored name, as vulnerability feeds do.
+// subset: the stored name is a superset of or equal to the query. any: the names are not disjoint.
+export function matchCpe(query: CpeQuery, stored: CpeName): TeaCpeRelation | null {
+    const relation = compareCpes(query.name, stored)
+    const accepted: Record<CpeMatchMode, (TeaCpeRelation | 'UNDEFINED')[]> = {
+        equal: ['EQUAL'],
+        superset: ['EQUAL', 'SUPERSET'],
+        subset: ['EQUAL', 'SUBSET'],
+        any: ['EQUAL', 'SUPERSET', 'SUBSET']
+    }
+    if (!accepted[query.mode].includes(relation) || !inVersionRange(stored.version, query.range)) {
+        return null
+    }
+    return relation as TeaCpeRelation
+}
+
+// Parse the cpe, cpeMatch and version bound query parameters of a list, null when they are invalid
+export function parseCpeQuery(url: URL): CpeQuery | null {
+    const name = parseCpe(url.searchParams.get('cpe') || '')
+    const mode = (url.searchParams.get('cpeMatch') || 'superset') as CpeMatchMode
+    if (!name || !['equal', 'superset', 'subset', 'any'].includes(mode)) {
+        return null
+    }
+    const range: CpeVersionRange = {}
+    for (const bound of ['startIncluding', 'startExcluding', 'endIncluding', 'endExcluding'] as const) {
+        const value = url.searchParams.get(`version${bound[0].toUpperCase()}${bound.slice(1)}`)
+        if (value) {
+            range[bound] = value
+        }
+    }
+    return { name, mode, range }
+}
+
+// The prefix the formatted strings of all names a query may match start with, the part, vendor and product
+// when they are given without wildcards. Stored names may be supersets of a query in the subset and any modes,
+// so those match names of every vendor and product.
+export function cpePrefix(query: CpeQuery): string {
+    let prefix = `cpe:2.3:`
+    if (query.mode === 'subset' || query.mode === 'any') {
+        return prefix
+    }
+    for (const attribute of ['part', 'vendor', 'product'] as const) {
+        const value = query.name[attribute]
+        if (value === ANY || hasWildcards(value)) {
+            break
+        }
+        prefix += `${toFormattedString(value)}:`
+    }
+    return prefix
+}
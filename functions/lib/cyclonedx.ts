@@ -0,0 +1,155 @@
+// Reading CycloneDX BOMs, specification versions 1.4 to 1.6 in the JSON and XML formats
+// https://cyclonedx.org/specification/overview/
+
+import type { TeaIdentifier } from "../types";
+import type { IngestedDocument, IngestedPackage } from "./ingest";
+import { parseXml, xmlChild, xmlChildren, xmlText, type XmlElement } from "./xml";
+
+export const cycloneDxVersions = ['1.4', '1.5', '1.6']
+
+// The parts of a CycloneDX component the API reads, in the JSON format
+interface CycloneDxComponent {
+    name?: string;
+    group?: string;
+    version?: string;
+    description?: string;
+    scope?: string;
+    publisher?: string;
+    supplier?: { name?: string };
+    purl?: string;
+    cpe?: string;
+    swid?: { tagId?: string };
+    externalReferences?: { type?: string, url?: string }[];
+    components?: CycloneDxComponent[];
+}
+
+interface CycloneDxBom {
+    specVersion: string;
+    timestamp?: string;
+    manufacturer?: string;
+    supplier?: string;
+    component?: CycloneDxComponent;
+    components: CycloneDxComponent[];
+}
+
+// Helper function to read a component element of the XML format into the JSON form
+function componentFromXml(element: XmlElement): CycloneDxComponent {
+    const swid = xmlChild(element, 'swid')
+    const supplier = xmlText(xmlChild(element, 'supplier'), 'name')
+    return {
+        name: xmlText(element, 'name'),
+        group: xmlText(element, 'group'),
+        version: xmlText(element, 'version'),
+        description: xmlText(element, 'description'),
+        scope: xmlText(element, 'scope'),
+        publisher: xmlText(element, 'publisher'),
+        supplier: supplier ? { name: supplier } : undefined,
+        purl: xmlText(element, 'purl'),
+        cpe: xmlText(element, 'cpe'),
+        swid: swid?.attributes.tagId ? { tagId: swid.attributes.tagId } : undefined,
+        externalReferences: xmlChildren(xmlChild(element, 'externalReferences'), 'reference').map(reference => ({
+            type: reference.attributes.type,
+            url: xmlText(reference, 'url')
+        })),
+        components: xmlChildren(xmlChild(element, 'components'), 'component').map(componentFromXml)
+    }
+}
+
+// Helper function to read a BOM in the XML format, the specification version is part of the namespace
+function bomFromXml(source: string): CycloneDxBom | string {
+    const root = parseXml(source)
+    if (!root) {
+        return `The BOM is not well-formed XML`
+    }
+    const namespace = /^http:\/\/cyclonedx\.org\/schema\/bom\/(\d+\.\d+)$/.exec(root.attributes.xmlns || '')
+    if (root.name !== 'bom' || !namespace) {
+        return `The document is not a CycloneDX BOM`
+    }
+    const metadata = xmlChild(root, 'metadata')
+    const component = xmlChild(metadata, 'component')
+    return {
+        specVersion: namespace[1],
+        timestamp: xmlText(metadata, 'timestamp'),
+        manufacturer: xmlText(xmlChild(metadata, 'manufacturer') || xmlChild(metadata, 'manufacture'), 'name'),
+        supplier: xmlText(xmlChild(metadata, 'supplier'), 'name'),
+        component: component ? componentFromXml(component) : undefined,
+        components: xmlChildren(xmlChild(root, 'components'), 'component').map(componentFromXml)
+    }
+}
+
+// Helper function to read a BOM in the JSON format
+function bomFromJson(source: string): CycloneDxBom | string {
+    let bom: any
+    try {
+        bom = JSON.parse(source)
+    } catch {
+        return `The BOM is not valid JSON`
+    }
+    if (bom?.bomFormat !== 'CycloneDX' || typeof bom.specVersion !== 'string') {
+        return `The document is not a CycloneDX BOM`
+    }
+    const metadata = bom.metadata || {}
+    return {
+        specVersion: bom.specVersion,
+        timestamp: metadata.timestamp,
+        // metadata.manufacture was renamed to metadata.manufacturer in 1.6
+        manufacturer: (metadata.manufacturer || metadata.manufacture)?.name,
+        supplier: metadata.supplier?.name,
+        component: metadata.component,
+        components: Array.isArray(bom.components) ? bom.components : []
+    }
+}
+
+// Helper function to map a component to a package, using the scope as the relationship to the release
+function toPackage(component: CycloneDxComponent, vendor?: string): IngestedPackage {
+    const identifiers: TeaIdentifier[] = []
+    if (component.purl) identifiers.push({ idType: 'purl', idValue: component.purl })
+    if (component.cpe) identifiers.push({ idType: 'cpe', idValue: component.cpe })
+    if (component.swid?.tagId) identifiers.push({ idType: 'swid', idValue: component.swid.tagId })
+    const references = Array.isArray(component.externalReferences) ? component.externalReferences : []
+    return {
+        name: component.name,
+        namespace: component.group,
+        version: component.version,
+        description: component.description,
+        vendor: component.supplier?.name || component.publisher || vendor,
+        homepageUrl: references.find(reference => reference.type === 'website')?.url,
+        downloadUrl: references.find(reference => reference.type === 'distribution')?.url,
+        identifiers,
+        relationship: component.scope || `required`
+    }
+}
+
+// Helper function to list a component tree depth first, nested components are components of the release too
+function flatten(components: CycloneDxComponent[]): CycloneDxComponent[] {
+    return (Array.isArray(components) ? components : []).flatMap(component => [component, ...flatten(component.components || [])])
+}
+
+// Read a CycloneDX BOM in the JSON or XML format, returning the document to ingest or a description of the
+// problem. metadata.component is the product and release the BOM describes, it needs a name and a version.
+export function parseCycloneDx(source: string): IngestedDocument | string {
+    const bom = source.trimStart().startsWith('<') ? bomFromXml(source) : bomFromJson(source)
+    if (typeof bom === 'string') {
+        return bom
+    }
+    if (!cycloneDxVersions.includes(bom.specVersion)) {
+        return `Unsupported CycloneDX version ${bom.specVersion}, expected one of: ${cycloneDxVersions.join(', ')}`
+    }
+    const subject = bom.component
+    if (!subject?.name || !subject.version) {
+        return `The BOM needs a metadata.component with a name and a version`
+    }
+
+    const components = flatten([...(subject.components || []), ...bom.components])
+    const unnamed = components.findIndex(component => !component.name)
+    if (unnamed >= 0) {
+        return `Component ${unnamed} of the BOM has no name`
+    }
+
+    const timestamp = bom.timestamp && !isNaN(Date.parse(bom.timestamp)) ? new Date(bom.timestamp).toISOString() : undefined
+    return {
+        subject: toPackage(subject, bom.supplier || bom.manufacturer),
+        components: components.map(component => toPackage(component)),
+        releaseDate: timestamp
+    }
+}
@@ -0,0 +1,99 @@
+// Conditional and range requests for downloads of stored artifacts (RFC 9110, sections 13 and 14)
+
+export interface ByteRange {
+    offset: number;
+    length: number;
+}
+
+// Helper function to split a list of entity tags, keeping commas inside quoted tags
+function parseEntityTags(value: string): string[] {
+    return value.match(/(W\/)?"[^"]*"|\*/g) || []
+}
+
+// Helper function to compare entity tags. Weak comparison ignores the W/ prefix, strong comparison fails on weak tags.
+function entityTagsMatch(a: string, b: string, weak: boolean): boolean {
+    if (!weak && (a.startsWith('W/') || b.startsWith('W/'))) {
+        return false
+    }
+    return a.replace(/^W\//, '') === b.replace(/^W\//, '')
+}
+
+// Helper function to parse an HTTP date, null when it is missing or malformed
+function parseHttpDate(value: string | null): number | null {
+    const time = value ? Date.parse(value) : NaN
+    return isNaN(time) ? null : Math.floor(time / 1000)
+}
+
+// Whether a GET or HEAD may be answered with 304 Not Modified. If-None-Match takes precedence over
+// If-Modified-Since, which is only evaluated when no entity tags are given.
+export function notModified(headers: Headers, etag: string, uploaded: Date): boolean {
+    const ifNoneMatch = headers.get('If-None-Match')
+    if (ifNoneMatch) {
+        return parseEntityTags(ifNoneMatch).some(tag => tag === '*' || entityTagsMatch(tag, etag, true))
+    }
+    const since = parseHttpDate(headers.get('If-Modified-Since'))
+    return since !== null && Math.floor(uploaded.getTime() / 1000) <= since
+}
+
+// Whether a request fails its If-Match or If-Unmodified-Since precondition and must be answered with 412
+export function preconditionFailed(headers: Headers, etag: string, uploaded: Date): boolean {
+    const ifMatch = headers.get('If-Match')
+    if (ifMatch) {
+        return !parseEntityTags(ifMatch).some(tag => tag === '*' || entityTagsMatch(tag, etag, false))
+    }
+    const since = parseHttpDate(headers.get('If-Unmodified-Since'))
+    return since !== null && Math.floor(uploaded.getTime() / 1000) > since
+}
+
+// The byte range requested by the Range header of a request for an object of the given size. Returns null when the
+// whole object is to be sent: there is no Range header, it is not a single valid byte range, or If-Range names another
+// version of the object. Returns 'unsatisfiable' when the range lies outside the object.
+export function requestedRange(headers: Headers, size: number, etag: string, uploaded: Date): ByteRange | 'unsatisfiable' | null {
+    const range = headers.get('Range')
+    if (!range) {
+        return null
+    }
+
+    // If-Range holds either a strong entity tag or a date, ranges of other versions are not served
+    const ifRange = headers.get('If-Range')
+    if (ifRange) {
+        const current = ifRange.startsWith('"') || ifRange.startsWith('W/')
+            ? entityTagsMatch(ifRange, etag, false)
+            : parseHttpDate(ifRange) === Math.floor(uploaded.getTime() / 1000)
+        if (!current) {
+            return null
+        }
+    }
+
+    // Multiple ranges would need a multipart response, sending the whole object is allowed instead
+    const match = /^bytes=(\d*)-(\d*)$/.exec(range.replace(/\s+/g, ''))
+    if (!match || (match[1] === '' && match[2] === '')) {
+        return null
+    }
+    if (match[1] === '') {
+        // A suffix range, the last bytes of the object
+        const suffix = parseInt(match[2])
+        if (suffix === 0 || size === 0) {
+            return 'unsatisfiable'
+        }
+        const length = Math.min(suffix, size)
+        return { offset: size - length, length }
+    }
+    const first = parseInt(match[1])
+    // A range ending before it starts is invalid and ignored (RFC 9110 section 14.1.1)
+    if (match[2] !== '' && parseInt(match[2]) < first) {
+        return null
+    }
+    if (first >= size) {
+        return 'unsatisfiable'
+    }
+    const last = match[2] === '' ? size - 1 : Math.min(parseInt(match[2]), size - 1)
+    return { offset: first, length: last - first + 1 }
+}
+
+// A Content-Disposition header offering the object as a file download. The plain filename parameter is limited
+// to ASCII for old clients, filename* carries the full name (RFC 6266).
+export function contentDisposition(name: string): string {
+    const fallback = name.replace(/[^\x20-\x7e]|["\\]/g, '_')
+    return `attachment; filename="${fallback}"; filename*=UTF-8''${encodeURIComponent(name)}`
+}
@@ -0,0 +1,188 @@
+import type { Prisma } from "@prisma/client";
+import type { TeaCpeMatch, TeaIdentifier } from "../types";
+import { canonicalCpe, cpePrefix, matchCpe, parseCpe, type CpeQuery } from "./cpe";
+import { canonicalPurl, parsePurl, type PackageUrl } from "./purl";
+
+export type IdentifierOwner = 'product' | 'component';
+
+// How many products and components of an organization may carry the same identifier.
+// exclusive: one product or component, a TEI or SWID tag names exactly one thing.
+// perKind: one product and one component, a product commonly shares its purl with the component it ships.
+// shared: any number, a CPE often covers several products of a vendor.
+export const identifierPolicies: Record<TeaIdentifier['idType'], 'exclusive' | 'perKind' | 'shared'> = {
+    tei: 'exclusive',
+    swid: 'exclusive',
+    purl: 'perKind',
+    cpe: 'shared'
+}
+
+// Select loading the identifiers of a product or component in the API format
+export const identifierSelect = {
+    select: {
+        idType: true,
+        idValue: true
+    },
+    orderBy: {
+        id: 'asc'
+    }
+} satisfies Prisma.TeaProduct$identifiersArgs
+
+// Transform stored identifier records to the identifier schema of the API
+export function toIdentifierResponse(records: { idType: string, idValue: string }[]): TeaIdentifier[] {
+    return records.map(record => ({
+        idType: record.idType as TeaIdentifier['idType'],
+        idValue: record.idValue
+    }))
+}
+
+// Helper function to get the form an identifier value is stored and looked up in, purls are canonicalized
+// and CPEs stored as CPE 2.3 formatted strings
+export function normalizeIdentifierValue(idType: string, idValue: string): string {
+    const trimmed = idValue.trim()
+    switch (idType) {
+        case 'purl':
+            return canonicalPurl(trimmed) ?? trimmed
+        case 'cpe':
+            return canonicalCpe(trimmed) ?? trimmed
+        default:
+            return trimmed
+    }
+}
+
+// Helper function to trim identifier values, canonicalize purls and CPEs and drop duplicates from a request body
+export function normalizeIdentifiers(identifiers: TeaIdentifier[] | undefined): TeaIdentifier[] {
+    const seen = new Set<string>()
+    const normalized: TeaIdentifier[] = []
+    for (const identifier of identifiers || []) {
+        const idValue = normalizeIdentifierValue(identifier.idType, identifier.idValue)
+        const key = `${identifier.idType}:${idValue}`
+        if (!seen.has(key)) {
+            seen.add(key)
+            normalized.push({ idType: identifier.idType, idValue })
+        }
+    }
+    return normalized
+}
+
+// Find an identifier value that is not valid for its type, returning a description or null
+export function invalidIdentifier(identifiers: TeaIdentifier[]): string | null {
+    for (const identifier of identifiers) {
+        if (identifier.idType === 'purl' && !parsePurl(identifier.idValue)) {
+            return `Invalid purl: ${identifier.idValue}`
+        }
+        if (identifier.idType === 'cpe' && !parseCpe(identifier.idValue)) {
+            return `Invalid CPE: ${identifier.idValue}`
+        }
+    }
+    return null
+}
+
+// The purl among the identifiers of a product or component, the first one when there are several
+export function identifierPurl(identifiers: TeaIdentifier[]): PackageUrl | null {
+    const identifier = identifiers.find(identifier => identifier.idType === 'purl')
+    return identifier ? parsePurl(identifier.idValue) : null
+}
+
+// Find an identifier that the product or component cannot take because other products or components already
+// carry it, returning a description of the conflict or null
+export async function identifierConflict(tx: Prisma.TransactionClient, organizationUuid: string, owner: IdentifierOwner, ownerUuid: string | null, identifiers: TeaIdentifier[]): Promise<string | null> {
+    const restricted = identifiers.filter(identifier => identifierPolicies[identifier.idType] !== 'shared')
+    if (restricted.length === 0) {
+        return null
+    }
+    const records = await tx.teaIdentifierRecord.findMany({
+        where: {
+            organizationUuid,
+            OR: restricted.map(identifier => ({ idType: identifier.idType, idValue: identifier.idValue }))
+        },
+        include: {
+            products: { select: { uuid: true } },
+            components: { select: { uuid: true } }
+        }
+    })
+    for (const record of records) {
+        const products = record.products.filter(p => owner !== 'product' || p.uuid !== ownerUuid)
+        const components = record.components.filter(c => owner !== 'component' || c.uuid !== ownerUuid)
+        const policy = identifierPolicies[record.idType as TeaIdentifier['idType']]
+        if (policy === 'exclusive' && products.length + components.length > 0) {
+            const other = products.length > 0 ? `product ${products[0].uuid}` : `component ${components[0].uuid}`
+            return `Identifier ${record.idType} ${record.idValue} is already used by ${other}`
+        }
+        if (policy === 'perKind' && owner === 'product' && products.length > 0) {
+            return `Identifier ${record.idType} ${record.idValue} is already used by product ${products[0].uuid}`
+        }
+        if (policy === 'perKind' && owner === 'component' && components.length > 0) {
+            return `Identifier ${record.idType} ${record.idValue} is already used by component ${components[0].uuid}`
+        }
+    }
+    return null
+}
+
+// Nested write connecting a product or component to its identifiers, creating the records not stored yet.
+// On updates the previous identifiers are disconnected first.
+export function identifierConnections(organizationUuid: string, identifiers: TeaIdentifier[], now: number, replace: boolean) {
+    return {
+        ...(replace ? { set: [] } : {}),
+        connectOrCreate: identifiers.map(identifier => ({
+            where: {
+                organizationUuid_idType_idValue: {
+                    organizationUuid,
+                    idType: identifier.idType,
+                    idValue: identifier.idValue
+                }
+            },
+            create: {
+                organizationUuid,
+                idType: identifier.idType,
+                idValue: identifier.idValue,
+                createdAt: now
+            }
+        }))
+    }
+}
+
+// Delete identifier records no product or component carries anymore
+export async function deleteUnusedIdentifiers(tx: Prisma.TransactionClient, organizationUuid: string): Promise<void> {
+    await tx.teaIdentifierRecord.deleteMany({
+        where: {
+            organizationUuid,
+            products: { none: {} },
+            components: { none: {} }
+        }
+    })
+}
+
+// The matched identifiers are bound as parameters of the list query, and D1 binds at most 100 per statement
+const MAX_CPE_MATCHES = 50
+
+// Find the stored CPE identifiers of an organization matching a CPE query, by record id. Names of other
+// vendors and products are skipped in the database where the query allows it, the rest is compared here.
+// Returns a description when the query matches more identifiers than a list can be filtered by.
+export async function findCpeMatches(tx: Prisma.TransactionClient, organizationUuid: string, query: CpeQuery): Promise<Map<number, TeaCpeMatch> | string> {
+    const records = await tx.teaIdentifierRecord.findMany({
+        where: {
+            organizationUuid,
+            idType: 'cpe',
+            idValue: { startsWith: cpePrefix(query) }
+        },
+        select: { id: true, idValue: true }
+    })
+    const matches = new Map<number, TeaCpeMatch>()
+    for (const record of records) {
+        const name = parseCpe(record.idValue)
+        const relation = name && matchCpe(query, name)
+        if (relation) {
+            matches.set(record.id, { cpe: record.idValue, relation })
+        }
+        if (matches.size > MAX_CPE_MATCHES) {
+            return `The cpe matches more than ${MAX_CPE_MATCHES} identifiers, narrow it with a vendor, product or version`
+        }
+    }
+    return matches
+}
+
+// The CPE matches among the identifiers of a product or component
+export function cpeMatchesOf(records: { idType: string, idValue: string }[], matches: Map<number, TeaCpeMatch>): TeaCpeMatch[] {
+    const values = new Set(records.filter(record => record.idType === 'cpe').map(record => record.idValue))
+    return [...matches.values()].filter(match => values.has(match.cpe))
+}
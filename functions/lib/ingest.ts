@@ -0,0 +1,522 @@
+import type { Prisma, PrismaClient } from "@prisma/client";
+import type { TeaArtifactInput, TeaCollectionUpdateReason, TeaIdentifier, TeaIngestResult, TeaLifecycle, TeaPrincipal } from "../types";
+import { artifactInclude, createArtifact, streamToR2, toArtifactResponse, type StoredObject, type StreamedObject } from "./artifacts";
+import { recordAudit } from "./audit";
+import { permitsProduct, unauthorized } from "./auth";
+import { bumpCollectionVersion, collectionInclude, createCollectionVersion, initialLifecycle, transitionLifecycle } from "./collections";
+import { identifierConflict, identifierConnections, identifierPolicies, identifierPurl, invalidIdentifier, normalizeIdentifiers } from "./identifiers";
+import { errorProblem, problem } from "./problems";
+import { formatPurl, purlColumns } from "./purl";
+import { checkSignature, requestSignature, storeSignature } from "./signatures";
+import { notDeleted } from "./trash";
+import { collectionVersionEvents, lifecycleEvent, queueWebhookEvents, releaseEvent } from "./webhooks";
+
+// A package described by an ingested document, the product and release it describes or one of their components
+export interface IngestedPackage {
+    name: string;
+    namespace?: string;
+    version?: string;
+    description?: string;
+    vendor?: string;
+    homepageUrl?: string;
+    downloadUrl?: string;
+    identifiers: TeaIdentifier[];
+    // Relationship of a component to the product and release, e.g. the CycloneDX scope
+    relationship: string;
+}
+
+// The contents of a BOM the API builds products, components, releases and collections from
+export interface IngestedDocument {
+    // The package the document describes, the product and its release
+    subject: IngestedPackage;
+    components: IngestedPackage[];
+    // Creation time of the document, used as the date of new releases
+    releaseDate?: string;
+}
+
+// A document format the ingest endpoints accept, see ingestRequest()
+export interface IngestFormat {
+    // Storage prefix of the object key, one of artifacts
+    prefix: string;
+    // Name of the format, used as the description of the artifact format
+    title: string;
+    // What an empty body should have held, e.g. `a CycloneDX BOM`
+    expected: string;
+    parse: (source: string) => IngestedDocument | string;
+    // File name and mime type of a document when the request does not name it
+    defaults: (source: string) => { name: string, mimeType: string };
+}
+
+export interface IngestResult {
+    productUuid: string;
+    releaseUuid: string;
+    collectionVersion: number;
+    componentUuids: string[];
+    productCreated: boolean;
+    releaseCreated: boolean;
+    componentsCreated: number;
+}
+
+// Helper function to normalize the identifiers of a package. Documents often carry malformed purls and CPEs,
+// those are dropped rather than failing the whole document.
+function packageIdentifiers(pkg: IngestedPackage): TeaIdentifier[] {
+    return normalizeIdentifiers(pkg.identifiers).filter(identifier => invalidIdentifier([identifier]) === null)
+}
+
+// The versionless purl identifying the product of a document, null when its subject has no purl
+export function productPurl(subject: IngestedPackage): string | null {
+    const purl = identifierPurl(packageIdentifiers(subject))
+    return purl ? formatPurl({ ...purl, version: null }) : null
+}
+
+// Find the product a document describes, by the versionless purl of its subject or else by name. Products in the
+// trash are found too, after those that are not, as they still hold their identifiers.
+export async function findIngestedProduct(tx: Prisma.TransactionClient, organizationUuid: string, subject: IngestedPackage) {
+    const purl = productPurl(subject)
+    if (purl) {
+        const product = await tx.teaProduct.findFirst({
+            where: {
+                organizationUuid,
+                identifiers: { some: { idType: 'purl', idValue: purl } }
+            },
+            orderBy: {
+                deletedAt: 'asc'
+            }
+        })
+        if (product) {
+            return product
+        }
+    }
+    return tx.teaProduct.findFirst({
+        where: {
+            organizationUuid,
+            name: subject.name
+        },
+        orderBy: [{ deletedAt: 'asc' }, { createdAt: 'asc' }]
+    })
+}
+
+// Ingested documents are parsed in memory, larger request bodies are refused
+export const MAX_DOCUMENT_SIZE = 16 * 1024 * 1024
+
+// Read the body of a request ingesting a document, null when it is larger than MAX_DOCUMENT_SIZE. The Content-Length
+// is checked before anything is read, a body without one is read until it passes the limit.
+export async function readDocument(request: Request): Promise<ArrayBuffer | null> {
+    const contentLength = parseInt(request.headers.get('Content-Length') || '')
+    if (contentLength > MAX_DOCUMENT_SIZE) {
+        return null
+    }
+    if (!request.body) {
+        return new ArrayBuffer(0)
+    }
+    const chunks: Uint8Array[] = []
+    let size = 0
+    const reader = request.body.getReader()
+    for (;;) {
+        const { done, value } = await reader.read()
+        if (done) {
+            break
+        }
+        size += value.byteLength
+        if (size > MAX_DOCUMENT_SIZE) {
+            await reader.cancel()
+            return null
+        }
+        chunks.push(value)
+    }
+    const document = new Uint8Array(size)
+    let offset = 0
+    for (const chunk of chunks) {
+        document.set(chunk, offset)
+        offset += chunk.byteLength
+    }
+    return document.buffer
+}
+
+// Store a document read into memory in R2 under the key of an artifact, computing its checksums. R2 is given the
+// SHA-256 up front, so it records it for the integrity check of downloads.
+export async function storeDocument(bucket: R2Bucket, objectKey: string, document: ArrayBuffer, mimeType: string, organizationUuid: string, artifactUuid: string): Promise<StreamedObject> {
+    return streamToR2(bucket, objectKey, new Blob([document]).stream(), document.byteLength, {
+        sha256: await crypto.subtle.digest('SHA-256', document),
+        httpMetadata: {
+            contentType: mimeType
+        },
+        customMetadata: {
+            organizationUuid,
+            artifactUuid
+        }
+    })
+}
+
+// Helper function to find the component of a package, by its purl or, lacking one, by name and version
+async function findComponent(tx: Prisma.TransactionClient, organizationUuid: string, pkg: IngestedPackage, identifiers: TeaIdentifier[]) {
+    const purl = identifiers.find(identifier => identifier.idType === 'purl')
+    if (purl) {
+        return tx.teaComponent.findFirst({
+            where: {
+                organizationUuid,
+                identifiers: { some: { idType: 'purl', idValue: purl.idValue } },
+                ...notDeleted
+            }
+        })
+    }
+    return tx.teaComponent.findFirst({
+        where: {
+            organizationUuid,
+            name: pkg.name,
+            namespace: pkg.namespace || ``,
+            version: pkg.version ?? null,
+            ...notDeleted
+        }
+    })
+}
+
+// Helper function to find or create the component of a package and link it to the product
+async function upsertComponent(tx: Prisma.TransactionClient, organizationUuid: string, productUuid: string, pkg: IngestedPackage, now: number): Promise<{ uuid: string, created: boolean }> {
+    let identifiers = packageIdentifiers(pkg)
+    let component = await findComponent(tx, organizationUuid, pkg, identifiers)
+    const created = !component
+
+    if (!component) {
+        // Identifiers already carried by other products or components are left out instead of failing the document
+        const available: TeaIdentifier[] = []
+        for (const identifier of identifiers) {
+            if (identifierPolicies[identifier.idType] === 'shared' || !await identifierConflict(tx, organizationUuid, 'component', null, [identifier])) {
+                available.push(identifier)
+            }
+        }
+        identifiers = available
+
+        const purl = identifierPurl(identifiers)
+        component = await tx.teaComponent.create({
+            data: {
+                uuid: crypto.randomUUID(),
+                organizationUuid,
+                name: pkg.name,
+                type: `generic`,
+                namespace: pkg.namespace || ``,
+                version: pkg.version,
+                qualifiers: `[]`,
+                vendor: pkg.vendor,
+                identifiers: identifierConnections(organizationUuid, identifiers, now, false),
+                homepageUrl: pkg.homepageUrl,
+                downloadUrl: pkg.downloadUrl,
+                description: pkg.description,
+                createdAt: now,
+                updatedAt: now,
+                // The parts of a purl identifier take precedence over the separate fields
+                ...(purl ? purlColumns(purl) : {})
+            }
+        })
+    }
+
+    await tx.teaProductComponent.upsert({
+        where: {
+            productUuid_componentUuid: {
+                productUuid,
+                componentUuid: component.uuid
+            }
+        },
+        update: {},
+        create: {
+            productUuid,
+            componentUuid: component.uuid,
+            relationship: pkg.relationship,
+            createdAt: now
+        }
+    })
+
+    return { uuid: component.uuid, created }
+}
+
+// Helper function to create the product of a document, identified by the versionless purl of its subject
+async function createProduct(tx: Prisma.TransactionClient, organizationUuid: string, subject: IngestedPackage, now: number): Promise<string> {
+    const subjectPurl = identifierPurl(packageIdentifiers(subject))
+    const purl = subjectPurl ? { ...subjectPurl, version: null } : null
+    const identifiers: TeaIdentifier[] = purl ? [{ idType: 'purl', idValue: formatPurl(purl) }] : []
+    const product = await tx.teaProduct.create({
+        data: {
+            uuid: crypto.randomUUID(),
+            organizationUuid,
+            name: subject.name,
+            type: `generic`,
+            namespace: subject.namespace || ``,
+            version: null,
+            qualifiers: `[]`,
+            vendor: subject.vendor,
+            identifiers: identifierConnections(organizationUuid, identifiers, now, false),
+            homepageUrl: subject.homepageUrl,
+            downloadUrl: subject.downloadUrl,
+            description: subject.description,
+            createdAt: now,
+            updatedAt: now,
+            ...(purl ? purlColumns(purl) : {})
+        }
+    })
+    return product.uuid
+}
+
+// Attach an artifact to a new version of the collection of a release, returning the version. The collection is
+// created with the artifact as its initial release when the release has none yet. Subscribed webhooks are
+// notified of the new version and artifact. A collection in the trash gets the version too, shown once it is restored.
+export async function attachToReleaseCollection(tx: Prisma.TransactionClient, organizationUuid: string, createdBy: string, release: { uuid: string, productUuid: string, version: string | null }, productName: string, artifactUuid: string, updateReason: TeaCollectionUpdateReason, now: number): Promise<number> {
+    // The collection of a release shares its UUID
+    const collection = await tx.teaCollection.findUnique({
+        where: {
+            uuid: release.uuid
+        },
+        include: collectionInclude
+    })
+    if (collection) {
+        const currentArtifactUuids = collection.versions[0].artifacts.map(link => link.artifactUuid)
+        const version = await bumpCollectionVersion(tx, collection, updateReason, [...currentArtifactUuids, artifactUuid], createdBy, now)
+
+        const lifecycle: TeaLifecycle = JSON.parse(collection.lifecycle || '{}')
+        await tx.teaCollection.update({
+            where: {
+                uuid: collection.uuid
+            },
+            data: {
+                lifecycle: JSON.stringify(transitionLifecycle(lifecycle, 'updated', 'Collection artifacts have been updated'))
+            }
+        })
+
+        const subject = { uuid: collection.uuid, productUuids: collection.products.map(product => product.uuid) }
+        const events = collectionVersionEvents(subject, version, updateReason, [...currentArtifactUuids, artifactUuid], currentArtifactUuids)
+        if (lifecycle.phase !== 'updated') {
+            events.push(lifecycleEvent(subject, lifecycle.phase, 'updated'))
+        }
+        await queueWebhookEvents(tx, organizationUuid, events, now)
+        return version
+    }
+
+    await tx.teaCollection.create({
+        data: {
+            uuid: release.uuid,
+            organizationUuid,
+            name: `Collection for ${productName} v${release.version}`,
+            description: null,
+            lifecycle: JSON.stringify(initialLifecycle(release.uuid)),
+            version: 1,
+            createdAt: now,
+            updatedAt: now,
+            products: {
+                connect: {
+                    uuid: release.productUuid
+                }
+            }
+        }
+    })
+    const initialReason: TeaCollectionUpdateReason = {
+        type: 'INITIAL_RELEASE',
+        comment: updateReason.comment
+    }
+    await createCollectionVersion(tx, release.uuid, 1, initialReason, [artifactUuid], createdBy, now)
+
+    await queueWebhookEvents(tx, organizationUuid, collectionVersionEvents({
+        uuid: release.uuid,
+        productUuids: [release.productUuid]
+    }, 1, initialReason, [artifactUuid], []), now)
+    return 1
+}
+
+// Build the product, components, release and collection of an ingested document. The product is created when
+// productUuid is null, the release of the subject version when it does not exist yet. The document itself,
+// already stored, becomes an artifact of the collection of the release.
+export async function ingestDocument(tx: Prisma.TransactionClient, organizationUuid: string, createdBy: string, productUuid: string | null, document: IngestedDocument, artifactUuid: string, artifact: TeaArtifactInput, storage: StoredObject, now: number): Promise<IngestResult> {
+    const { subject } = document
+    const productCreated = !productUuid
+    if (!productUuid) {
+        productUuid = await createProduct(tx, organizationUuid, subject, now)
+    }
+    const product = await tx.teaProduct.findUniqueOrThrow({ where: { uuid: productUuid } })
+
+    // The subject is the component the release is of, as for releases created through the API
+    const relationships = new Map<string, string>()
+    let componentsCreated = 0
+    for (const pkg of [{ ...subject, relationship: `release` }, ...document.components]) {
+        const component = await upsertComponent(tx, organizationUuid, productUuid, pkg, now)
+        if (!relationships.has(component.uuid)) {
+            relationships.set(component.uuid, pkg.relationship)
+        }
+        if (component.created) {
+            componentsCreated++
+        }
+    }
+
+    let release = await tx.teaRelease.findFirst({
+        where: {
+            organizationUuid,
+            productUuid,
+            version: subject.version,
+            ...notDeleted
+        }
+    })
+    const releaseCreated = !release
+    if (!release) {
+        release = await tx.teaRelease.create({
+            data: {
+                uuid: crypto.randomUUID(),
+                organizationUuid,
+                productUuid,
+                tag: `v${subject.version}`,
+                version: subject.version,
+                releaseDate: document.releaseDate || new Date(now * 1000).toISOString(),
+                createdAt: now,
+                updatedAt: now
+            }
+        })
+        await queueWebhookEvents(tx, organizationUuid, [releaseEvent('release.created', release)], now)
+    }
+
+    // Components already linked keep their relationship
+    for (const [componentUuid, relationship] of relationships) {
+        await tx.teaReleaseComponent.upsert({
+            where: {
+                releaseUuid_componentUuid: {
+                    releaseUuid: release.uuid,
+                    componentUuid
+                }
+            },
+            update: {},
+            create: {
+                releaseUuid: release.uuid,
+                componentUuid,
+                relationship,
+                createdAt: now
+            }
+        })
+    }
+
+    await createArtifact(tx, artifactUuid, organizationUuid, createdBy, artifact, now, storage)
+
+    const collectionVersion = await attachToReleaseCollection(tx, organizationUuid, createdBy, release, product.name, artifactUuid, {
+        type: 'ARTIFACT_ADDED',
+        comment: `Ingested ${artifact.name}`
+    }, now)
+
+    return {
+        productUuid,
+        releaseUuid: release.uuid,
+        collectionVersion,
+        componentUuids: [...relationships.keys()],
+        productCreated,
+        releaseCreated,
+        componentsCreated
+    }
+}
+
+// Handle a request ingesting a document, building the product, components, release and collection it describes
+export async function ingestRequest(context: EventContext<Env, string, Record<string, unknown>>, format: IngestFormat): Promise<Response> {
+    const { data, env, request } = context
+    const prisma = data.prisma as PrismaClient
+    const principal = data.principal as TeaPrincipal
+
+    try {
+
+        // The document is parsed as a whole, so unlike artifact uploads it is read into memory
+        const body = await readDocument(request)
+        if (!body) {
+            return problem(request, 'content-too-large', `The document is larger than ${MAX_DOCUMENT_SIZE} bytes`)
+        }
+        if (body.byteLength === 0) {
+            return problem(request, 'invalid-request-body', `The request body must hold ${format.expected}`)
+        }
+        const source = new TextDecoder().decode(body)
+        const defaults = format.defaults(source)
+
+        const url = new URL(request.url)
+        const name = url.searchParams.get('name') || defaults.name
+        if (!/^[A-Za-z0-9][A-Za-z0-9._-]{0,254}$/.test(name)) {
+            return problem(request, 'invalid-parameter', `Invalid name, expected a file name of letters, digits, '.', '_' or '-'`)
+        }
+
+        // A detached signature of the document may be sent along in the Tea-Signature header
+        const signature = requestSignature(request.headers)
+        if (typeof signature === 'string') {
+            return problem(request, 'invalid-parameter', signature)
+        }
+
+        const document = format.parse(source)
+        if (typeof document === 'string') {
+            return problem(request, 'invalid-request-body', document)
+        }
+
+        // Check the product before storing anything, so a rejected document does not leave an orphaned object
+        const existingProduct = await findIngestedProduct(prisma, principal.organizationUuid, document.subject)
+        if (existingProduct && !permitsProduct(principal, [existingProduct.uuid])) {
+            return unauthorized(request, `Not permitted to modify this product`, 'insufficient_scope')
+        }
+        if (existingProduct?.deletedAt) {
+            return problem(request, 'conflict', `Product ${existingProduct.uuid} is in the trash, restore it to ingest documents of it`)
+        }
+        if (!existingProduct && principal.products) {
+            // Keys limited to specific products cannot create new ones
+            return unauthorized(request, `Not permitted to create products`, 'insufficient_scope')
+        }
+
+        // New products have neither trusted keys nor a signature policy yet
+        const { verification, rejection } = await checkSignature(prisma, principal.organizationUuid, existingProduct ? [existingProduct.uuid] : [], signature, new Uint8Array(body))
+        if (rejection) {
+            return problem(request, 'signature-rejected', rejection)
+        }
+
+        const artifactUuid = crypto.randomUUID()
+        const objectKey = `${format.prefix}/${artifactUuid}/${name}`
+        const now = Math.floor(Date.now() / 1000)
+
+        const { object, checksums } = await storeDocument(env.r2artifacts, objectKey, body, defaults.mimeType, principal.organizationUuid, artifactUuid)
+        const signatureUrl = signature
+            ? `${url.origin}/${await storeSignature(env.r2artifacts, objectKey, signature.format, signature.signature, principal.organizationUuid, artifactUuid)}`
+            : undefined
+
+        const result = await prisma.$transaction(async (tx) => {
+            const ingested = await ingestDocument(tx, principal.organizationUuid, principal.subject, existingProduct?.uuid || null, document, artifactUuid, {
+                name,
+                type: 'BOM',
+                formats: [{
+                    mimeType: defaults.mimeType,
+                    description: format.title,
+                    // The artifact is served by artifactRewritePath at the object key
+                    url: `${url.origin}/${objectKey}`,
+                    signatureUrl,
+                    checksums: Object.entries(checksums).map(([algType, algValue]) => ({ algType, algValue }))
+                }]
+            }, { objectKey, size: object.size, etag: object.etag, signature: verification }, now)
+
+            await recordAudit(tx, principal, { operation: 'ingest', entityType: 'release', entityUuid: ingested.releaseUuid, after: { artifactUuid, ...ingested } }, now)
+
+            return ingested
+        })
+
+        const teaArtifact = await prisma.teaArtifact.findUnique({
+            where: {
+                uuid: artifactUuid
+            },
+            include: artifactInclude
+        })
+
+        const response: TeaIngestResult = {
+            productIdentifier: result.productUuid,
+            releaseIdentifier: result.releaseUuid,
+            collectionIdentifier: result.releaseUuid,
+            collectionVersion: result.collectionVersion,
+            components: result.componentUuids,
+            created: {
+                product: result.productCreated,
+                release: result.releaseCreated,
+                components: result.componentsCreated
+            },
+            artifact: toArtifactResponse(teaArtifact)
+        }
+
+        return new Response(JSON.stringify(response), {
+            status: 201,
+            headers: { 'Content-Type': 'application/json' }
+        })
+
+    } catch (error) {
+        console.error(`Error ingesting ${format.title}:`, error)
+        return errorProblem(request, error)
+    }
+}
@@ -0,0 +1,80 @@
+import { parse } from "yaml";
+import { onRequest as specAssets } from "assets:../specs";
+
+export type OpenApiDocument = Record<string, any>;
+
+// Parsed once per isolate, the specs only change with a deployment
+let merged: Promise<OpenApiDocument> | null = null
+
+// Helper function to read a spec from the static assets copied by the Pages build
+async function loadSpec(env: Env, origin: string, file: string): Promise<OpenApiDocument> {
+    const response = await specAssets({
+        request: new Request(`${origin}/${file}`),
+        env,
+        functionPath: ''
+    } as unknown as EventContext<Env, string, Record<string, unknown>>)
+    if (!response.ok) {
+        throw new Error(`Unable to load ${file}: ${response.status}`)
+    }
+    return parse(await response.text())
+}
+
+// Helper function to merge two maps, entries of the first map win on conflicts
+function mergeMaps(first: Record<string, any> = {}, second: Record<string, any> = {}): Record<string, any> {
+    return { ...second, ...first }
+}
+
+// Merge the consumer and publisher specs into one document. Paths present in both are merged per
+// operation, and shared components are taken from the consumer spec.
+function mergeSpecs(consumer: OpenApiDocument, publisher: OpenApiDocument): OpenApiDocument {
+    const paths: Record<string, any> = { ...consumer.paths }
+    for (const [path, operations] of Object.entries<Record<string, any>>(publisher.paths || {})) {
+        paths[path] = mergeMaps(paths[path], operations)
+    }
+
+    const components: Record<string, any> = {}
+    for (const section of new Set([...Object.keys(consumer.components || {}), ...Object.keys(publisher.components || {})])) {
+        components[section] = mergeMaps(consumer.components?.[section], publisher.components?.[section])
+    }
+
+    const tags = [...(consumer.tags || [])]
+    for (const tag of publisher.tags || []) {
+        if (!tags.some(existing => existing.name === tag.name)) {
+            tags.push(tag)
+        }
+    }
+
+    return {
+        ...consumer,
+        paths,
+        components,
+        tags
+    }
+}
+
+// The merged OpenAPI document as written in the specs, shared by everything reading it
+export function loadOpenApiDocument(env: Env, origin: string): Promise<OpenApiDocument> {
+    if (!merged) {
+        merged = Promise.all([
+            loadSpec(env, origin, 'consumer.yaml'),
+            loadSpec(env, origin, 'publisher.yaml')
+        ]).then(([consumer, publisher]) => mergeSpecs(consumer, publisher))
+        // Retry on the next request rather than caching a failure
+        merged.catch(() => { merged = null })
+    }
+    return merged
+}
+
+// The merged OpenAPI document, with the server URL of the deployment answering the request
+export async function openApiDocument(env: Env, request: Request): Promise<OpenApiDocument> {
+    const origin = new URL(request.url).origin
+    return {
+        ...await loadOpenApiDocument(env, origin),
+        servers: [
+            {
+                url: origin,
+                description: `This deployment`
+            }
+        ]
+    }
+}
@@ -0,0 +1,215 @@
+import { base64url } from 'jose';
+import type { TeaPagination } from "../types";
+
+// Lists are ordered by creation time, newest first, with the uuid breaking ties between rows created in the
+// same second. A cursor holds the position of a row in that order, so pages do not shift when rows are
+// inserted while a client walks the list, and D1 does not have to skip over earlier pages.
+
+export type CursorDirection = 'next' | 'prev';
+
+interface CursorPosition {
+    createdAt: number;
+    uuid: string;
+    direction: CursorDirection;
+}
+
+export interface PageRequest {
+    pageOffset: number;
+    pageSize: number;
+    cursor: CursorPosition | null;
+}
+
+// findMany arguments of a page, shared by every model with createdAt and uuid columns
+export interface PageQuery {
+    where: any;
+    orderBy: { createdAt?: 'asc' | 'desc', uuid?: 'asc' | 'desc' }[];
+    skip?: number;
+    take: number;
+}
+
+// findMany arguments of a page of rows numbered by a unique integer column, see numberedPageQuery()
+export interface NumberedPageQuery<K extends string> {
+    where: any;
+    orderBy: Record<K, 'asc' | 'desc'>;
+    skip?: number;
+    take: number;
+}
+
+// Larger pageSize values are capped to this
+const MAX_PAGE_SIZE = 1000
+
+// HMAC key used to sign cursors, imported once per secret
+let signingKey: { secret: string, key: Promise<CryptoKey> } | null = null
+
+// Helper function to get the key signing cursors. CURSOR_SECRET is required, the configuration middleware
+// refuses requests without it, see cursorSecretMissing()
+function cursorKey(env: Env): Promise<CryptoKey> {
+    const secret = env.CURSOR_SECRET
+    if (!secret) {
+        throw new Error(`No cursor signing key configured, set CURSOR_SECRET`)
+    }
+    if (signingKey?.secret !== secret) {
+        const key = crypto.subtle.importKey('raw', new TextEncoder().encode(secret), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign', 'verify'])
+        signingKey = { secret, key }
+    }
+    return signingKey.key
+}
+
+// Whether the secret signing cursors is missing from the configuration. It is not shared with JWT verification,
+// deployments verifying tokens with JWT_JWKS_URL have no JWT secret, and a cursor must not be a signing oracle for tokens.
+export function cursorSecretMissing(env: Env): boolean {
+    return !env.CURSOR_SECRET
+}
+
+// Encode a position in a list as an opaque cursor. The list name is signed along, so a cursor of one
+// list is not accepted by another.
+async function encodeCursor(env: Env, list: string, position: CursorPosition): Promise<string> {
+    const payload = new TextEncoder().encode(JSON.stringify({ l: list, c: position.createdAt, u: position.uuid, d: position.direction }))
+    const signature = await crypto.subtle.sign('HMAC', await cursorKey(env), payload)
+    return `${base64url.encode(payload)}.${base64url.encode(new Uint8Array(signature))}`
+}
+
+// Decode a cursor of a list, null when it is malformed, signed for another list or tampered with
+async function decodeCursor(env: Env, list: string, cursor: string): Promise<CursorPosition | null> {
+    try {
+        const [encodedPayload, encodedSignature, ...rest] = cursor.split('.')
+        if (!encodedPayload || !encodedSignature || rest.length > 0) {
+            return null
+        }
+        const payload = base64url.decode(encodedPayload)
+        if (!await crypto.subtle.verify('HMAC', await cursorKey(env), base64url.decode(encodedSignature), payload)) {
+            return null
+        }
+        const { l, c, u, d } = JSON.parse(new TextDecoder().decode(payload))
+        if (l !== list || typeof c !== 'number' || typeof u !== 'string' || (d !== 'next' && d !== 'prev')) {
+            return null
+        }
+        return { createdAt: c, uuid: u, direction: d }
+    } catch {
+        // base64url.decode throws on invalid input
+        return null
+    }
+}
+
+// Parse the pageOffset, pageSize and cursor query parameters of a list, or describe why they are invalid.
+// A cursor takes precedence over pageOffset.
+export async function parsePageRequest(env: Env, url: URL, list: string): Promise<PageRequest | string> {
+    const pageOffset = parseInt(url.searchParams.get('pageOffset') || '0')
+    if (isNaN(pageOffset) || pageOffset < 0) {
+        return `pageOffset must be a non-negative integer`
+    }
+    const pageSize = parseInt(url.searchParams.get('pageSize') || '100')
+    if (isNaN(pageSize) || pageSize < 1) {
+        return `pageSize must be a positive integer`
+    }
+    const cursorParam = url.searchParams.get('cursor')
+    if (!cursorParam) {
+        return { pageOffset, pageSize: Math.min(pageSize, MAX_PAGE_SIZE), cursor: null }
+    }
+    const cursor = await decodeCursor(env, list, cursorParam)
+    return cursor ? { pageOffset, pageSize: Math.min(pageSize, MAX_PAGE_SIZE), cursor } : `Invalid cursor`
+}
+
+// Prisma findMany arguments selecting a page of rows matching where. Pages read by cursor fetch one row more
+// than requested, telling paginate() whether the list continues in the direction of travel.
+export function pageQuery(page: PageRequest, where: any): PageQuery {
+    if (!page.cursor) {
+        return {
+            where,
+            orderBy: [{ createdAt: 'desc' }, { uuid: 'desc' }],
+            skip: page.pageOffset,
+            take: page.pageSize
+        }
+    }
+    const { createdAt, uuid, direction } = page.cursor
+    const comparison = direction === 'next' ? 'lt' : 'gt'
+    const order = direction === 'next' ? 'desc' : 'asc'
+    return {
+        where: {
+            AND: [
+                where,
+                {
+                    OR: [
+                        { createdAt: { [comparison]: createdAt } },
+                        { createdAt, uuid: { [comparison]: uuid } }
+                    ]
+                }
+            ]
+        },
+        orderBy: [{ createdAt: order }, { uuid: order }],
+        take: page.pageSize + 1
+    }
+}
+
+// Prisma findMany arguments selecting a page of rows ordered by a unique integer column instead of creation time,
+// highest first, such as collection versions or audit events. Cursors of these lists hold the number as createdAt.
+export function numberedPageQuery<K extends string>(page: PageRequest, where: any, column: K): NumberedPageQuery<K> {
+    if (!page.cursor) {
+        return {
+            where,
+            orderBy: { [column]: 'desc' } as Record<K, 'desc'>,
+            skip: page.pageOffset,
+            take: page.pageSize
+        }
+    }
+    const { createdAt: number, direction } = page.cursor
+    return {
+        where: { AND: [where, { [column]: { [direction === 'next' ? 'lt' : 'gt']: number } }] },
+        orderBy: { [column]: direction === 'next' ? 'desc' : 'asc' } as Record<K, 'asc' | 'desc'>,
+        take: page.pageSize + 1
+    }
+}
+
+// Trim the rows fetched with pageQuery() or numberedPageQuery() to the page, newest first, and describe it with cursors
+// to the neighbouring pages
+export async function paginate<T extends { createdAt: number, uuid: string }>(env: Env, list: string, page: PageRequest, rows: T[], total: number): Promise<{ items: T[], pagination: TeaPagination }> {
+    let items = rows
+    let hasNext: boolean
+    let hasPrevious: boolean
+    if (!page.cursor) {
+        hasNext = page.pageOffset + page.pageSize < total
+        hasPrevious = page.pageOffset > 0
+    } else if (page.cursor.direction === 'next') {
+        items = rows.slice(0, page.pageSize)
+        hasNext = rows.length > page.pageSize
+        hasPrevious = items.length > 0
+    } else {
+        items = rows.slice(0, page.pageSize).reverse()
+        hasPrevious = rows.length > page.pageSize
+        hasNext = items.length > 0
+    }
+
+    return { items, pagination: await describePage(env, list, page, items, total, hasNext, hasPrevious) }
+}
+
+// Helper function to describe a page of a list with cursors to the neighbouring pages
+async function describePage<T extends { createdAt: number, uuid: string }>(env: Env, list: string, page: PageRequest, items: T[], total: number, hasNext: boolean, hasPrevious: boolean): Promise<TeaPagination> {
+    const first = items[0]
+    const last = items[items.length - 1]
+    return {
+        total,
+        pageOffset: page.cursor ? undefined : page.pageOffset,
+        pageSize: page.pageSize,
+        hasNext,
+        hasPrevious,
+        next: hasNext && last ? await encodeCursor(env, list, { createdAt: last.createdAt, uuid: last.uuid, direction: 'next' }) : null,
+        prev: hasPrevious && first ? await encodeCursor(env, list, { createdAt: first.createdAt, uuid: first.uuid, direction: 'prev' }) : null
+    }
+}
+
+// Take a page of a list sorted in memory, for orders the database cannot produce. Cursors continue after
+// or before the row they were created at, null when that row is no longer in the list.
+export async function paginateSorted<T extends { createdAt: number, uuid: string }>(env: Env, list: string, page: PageRequest, rows: T[]): Promise<{ items: T[], pagination: TeaPagination } | null> {
+    let start = page.pageOffset
+    let end = page.pageOffset + page.pageSize
+    if (page.cursor) {
+        const position = rows.findIndex(row => row.uuid === page.cursor!.uuid)
+        if (position < 0) {
+            return null
+        }
+        start = page.cursor.direction === 'next' ? position + 1 : Math.max(0, position - page.pageSize)
+        end = page.cursor.direction === 'next' ? position + 1 + page.pageSize : position
+    }
+    const items = rows.slice(start, end)
+    return { items, pagination: await describePage(env, list, page, items, rows.length, end < rows.length, start > 0) }
+}
@@ -0,0 +1,314 @@
+// Verification of detached OpenPGP signatures (RFC 9580) with WebCrypto. Covers v4 signatures by RSA and Ed25519
+// keys, the algorithms signing tools default to; other versions and algorithms are reported as unsupported.
+
+export interface PgpPublicKey {
+    fingerprint: string; // Hex v4 fingerprint
+    algorithm: number;
+    material: Uint8Array[]; // RSA: n, e. Ed25519: the 32 byte public key
+}
+
+export interface PgpSignature {
+    signatureType: number;
+    algorithm: number;
+    hashAlgorithm: number;
+    hashedData: Uint8Array; // The signature packet up to the end of the hashed subpackets
+    hashPrefix: Uint8Array; // Left 16 bits of the signed hash
+    issuerFingerprint?: string;
+    issuerKeyId?: string;
+    values: Uint8Array[];
+}
+
+interface Packet {
+    tag: number;
+    body: Uint8Array;
+}
+
+const RSA = [1, 3]
+const EDDSA_LEGACY = 22
+const ED25519 = 27
+
+// OID of Ed25519 in legacy EdDSA keys, 1.3.6.1.4.1.11591.15.1
+const ed25519Oid = '2b06010401da470f01'
+
+const hashAlgorithms: Record<number, string> = {
+    8: 'SHA-256',
+    9: 'SHA-384',
+    10: 'SHA-512'
+}
+
+// Helper function to encode bytes as lowercase hex
+function hex(bytes: Uint8Array): string {
+    return [...bytes].map(b => b.toString(16).padStart(2, '0')).join('')
+}
+
+// Helper function to encode bytes as base64url for JWK members
+function base64url(bytes: Uint8Array): string {
+    return btoa(String.fromCharCode(...bytes)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '')
+}
+
+// Remove the ASCII armor of an OpenPGP message, binary input is returned unchanged. Null when the armor is malformed.
+export function dearmor(source: Uint8Array): Uint8Array | null {
+    const text = new TextDecoder().decode(source)
+    if (!text.trimStart().startsWith('-----BEGIN PGP ')) {
+        return source
+    }
+    const lines = text.split(/\r?\n/).map(line => line.trim())
+    const begin = lines.findIndex(line => line.startsWith('-----BEGIN PGP '))
+    const end = lines.findIndex((line, i) => i > begin && line.startsWith('-----END PGP '))
+    if (end < 0) {
+        return null
+    }
+    // Armor headers end at the first empty line, the checksum line starts with '='
+    let start = begin + 1
+    while (start < end && lines[start].includes(': ')) {
+        start++
+    }
+    const body = lines.slice(start, end).filter(line => line && !line.startsWith('=')).join('')
+    try {
+        return Uint8Array.from(atob(body), c => c.charCodeAt(0))
+    } catch {
+        return null
+    }
+}
+
+// Helper function to split a binary OpenPGP message into packets, null when a length runs past the end
+function readPackets(data: Uint8Array): Packet[] | null {
+    const packets: Packet[] = []
+    let offset = 0
+    while (offset < data.length) {
+        const header = data[offset++]
+        if ((header & 0x80) === 0) {
+            return null
+        }
+        let tag: number
+        let length: number
+        if (header & 0x40) {
+            // New format, partial body lengths are only used for literal data and are not supported
+            tag = header & 0x3f
+            const first = data[offset++]
+            if (first < 192) {
+                length = first
+            } else if (first < 224) {
+                length = ((first - 192) << 8) + data[offset++] + 192
+            } else if (first === 255) {
+                length = (data[offset] << 24 | data[offset + 1] << 16 | data[offset + 2] << 8 | data[offset + 3]) >>> 0
+                offset += 4
+            } else {
+                return null
+            }
+        } else {
+            // Old format, the low two bits give the size of the length
+            tag = (header >> 2) & 0x0f
+            const size = [1, 2, 4][header & 0x03]
+            if (!size) {
+                return null
+            }
+            length = 0
+            for (let i = 0; i < size; i++) {
+                length = length * 256 + data[offset++]
+            }
+        }
+        if (offset + length > data.length) {
+            return null
+        }
+        packets.push({ tag, body: data.subarray(offset, offset + length) })
+        offset += length
+    }
+    return packets
+}
+
+// Helper function to read the multiprecision integers at an offset, null when they run past the end
+function readMpis(data: Uint8Array, offset: number, count: number): Uint8Array[] | null {
+    const values: Uint8Array[] = []
+    for (let i = 0; i < count; i++) {
+        if (offset + 2 > data.length) {
+            return null
+        }
+        const bytes = Math.ceil(((data[offset] << 8) | data[offset + 1]) / 8)
+        offset += 2
+        if (offset + bytes > data.length) {
+            return null
+        }
+        values.push(data.subarray(offset, offset + bytes))
+        offset += bytes
+    }
+    return values
+}
+
+// Helper function to read a v4 public key or subkey packet, null for other versions and unsupported algorithms
+async function readPublicKey(body: Uint8Array): Promise<PgpPublicKey | null> {
+    if (body[0] !== 4) {
+        return null
+    }
+    const algorithm = body[5]
+    let material: Uint8Array[] | null = null
+    if (RSA.includes(algorithm)) {
+        material = readMpis(body, 6, 2)
+    } else if (algorithm === EDDSA_LEGACY) {
+        const oidLength = body[6]
+        if (hex(body.subarray(7, 7 + oidLength)) !== ed25519Oid) {
+            return null
+        }
+        // The point is prefixed by 0x40 to mark the native encoding
+        const point = readMpis(body, 7 + oidLength, 1)
+        material = point && point[0].length === 33 && point[0][0] === 0x40 ? [point[0].subarray(1)] : null
+    } else if (algorithm === ED25519) {
+        material = body.length >= 38 ? [body.subarray(6, 38)] : null
+    }
+    if (!material) {
+        return null
+    }
+
+    // v4 fingerprints hash the packet with an old format header of two length bytes
+    const hashed = new Uint8Array(3 + body.length)
+    hashed.set([0x99, body.length >> 8, body.length & 0xff])
+    hashed.set(body, 3)
+    const fingerprint = hex(new Uint8Array(await crypto.subtle.digest('SHA-1', hashed)))
+    return { fingerprint, algorithm, material }
+}
+
+// Read the primary key and subkeys of an OpenPGP public key, armored or binary. Keys that cannot verify signatures
+// are left out, null when there are none.
+export async function parsePgpPublicKeys(source: Uint8Array): Promise<PgpPublicKey[] | null> {
+    const data = dearmor(source)
+    const packets = data && readPackets(data)
+    if (!packets || packets[0]?.tag !== 6) {
+        return null
+    }
+    const keys: PgpPublicKey[] = []
+    for (const packet of packets.filter(packet => packet.tag === 6 || packet.tag === 14)) {
+        const key = await readPublicKey(packet.body)
+        if (key) {
+            keys.push(key)
+        }
+    }
+    return keys.length > 0 ? keys : null
+}
+
+// Read a detached OpenPGP signature, armored or binary. Returns a description of the problem when it is not a
+// v4 signature of a document.
+export function parsePgpSignature(source: Uint8Array): PgpSignature | string {
+    const data = dearmor(source)
+    const packets = data && readPackets(data)
+    const packet = packets?.find(packet => packet.tag === 2)
+    if (!packet) {
+        return `Not an OpenPGP signature`
+    }
+    const body = packet.body
+    if (body[0] !== 4) {
+        return `Unsupported OpenPGP signature version ${body[0]}`
+    }
+    const signatureType = body[1]
+    if (signatureType !== 0x00 && signatureType !== 0x01) {
+        return `OpenPGP signature is not a signature of a document`
+    }
+    const hashedLength = (body[4] << 8) | body[5]
+    const unhashedStart = 6 + hashedLength
+    const unhashedLength = (body[unhashedStart] << 8) | body[unhashedStart + 1]
+    const valuesStart = unhashedStart + 2 + unhashedLength
+    if (valuesStart + 2 > body.length) {
+        return `Truncated OpenPGP signature`
+    }
+
+    const signature: PgpSignature = {
+        signatureType,
+        algorithm: body[2],
+        hashAlgorithm: body[3],
+        hashedData: body.subarray(0, unhashedStart),
+        hashPrefix: body.subarray(valuesStart, valuesStart + 2),
+        values: []
+    }
+
+    // Issuer subpackets may be in either area, the hashed one is read last so it wins
+    for (const [start, end] of [[unhashedStart + 2, valuesStart], [6, unhashedStart]]) {
+        let offset = start
+        while (offset < end) {
+            let length = body[offset++]
+            if (length >= 192 && length < 255) {
+                length = ((length - 192) << 8) + body[offset++] + 192
+            } else if (length === 255) {
+                length = (body[offset] << 24 | body[offset + 1] << 16 | body[offset + 2] << 8 | body[offset + 3]) >>> 0
+                offset += 4
+            }
+            const type = body[offset] & 0x7f
+            const value = body.subarray(offset + 1, offset + length)
+            if (type === 16) {
+                signature.issuerKeyId = hex(value)
+            } else if (type === 33 && value[0] === 4) {
+                signature.issuerFingerprint = hex(value.subarray(1))
+            }
+            offset += length
+        }
+    }
+
+    const values = signature.algorithm === ED25519
+        ? (body.length >= valuesStart + 66 ? [body.subarray(valuesStart + 2, valuesStart + 66)] : null)
+        : readMpis(body, valuesStart + 2, RSA.includes(signature.algorithm) ? 1 : 2)
+    if (!values) {
+        return `Truncated OpenPGP signature`
+    }
+    signature.values = values
+    return signature
+}
+
+// Whether a signature names a key as its issuer, by fingerprint or by the key id of its last 8 bytes
+export function issuedBy(signature: PgpSignature, key: PgpPublicKey): boolean {
+    if (signature.issuerFingerprint) {
+        return signature.issuerFingerprint === key.fingerprint
+    }
+    return signature.issuerKeyId === key.fingerprint.slice(-16)
+}
+
+// Helper function to left-pad a big-endian number to a length
+function pad(value: Uint8Array, length: number): Uint8Array {
+    if (value.length >= length) {
+        return value.subarray(value.length - length)
+    }
+    const padded = new Uint8Array(length)
+    padded.set(value, length - value.length)
+    return padded
+}
+
+// Verify a detached signature of a document with a public key. Returns a description of the problem when the
+// signature does not verify.
+export async function verifyPgpSignature(signature: PgpSignature, key: PgpPublicKey, content: Uint8Array): Promise<string | null> {
+    const hash = hashAlgorithms[signature.hashAlgorithm]
+    if (!hash) {
+        return `Unsupported OpenPGP hash algorithm ${signature.hashAlgorithm}`
+    }
+    if (signature.algorithm !== key.algorithm && !(RSA.includes(signature.algorithm) && RSA.includes(key.algorithm))) {
+        return `OpenPGP signature algorithm does not match the key`
+    }
+
+    // Text signatures are made over the document with CRLF line endings
+    const document = signature.signatureType === 0x01
+        ? new TextEncoder().encode(new TextDecoder().decode(content).replace(/\r?\n/g, '\r\n'))
+        : content
+
+    // The hash covers the document, the hashed part of the signature packet and a v4 trailer
+    const length = signature.hashedData.length
+    const signed = new Uint8Array(document.length + length + 6)
+    signed.set(document)
+    signed.set(signature.hashedData, document.length)
+    signed.set([0x04, 0xff, (length >>> 24) & 0xff, (length >>> 16) & 0xff, (length >>> 8) & 0xff, length & 0xff], document.length + length)
+
+    const digest = new Uint8Array(await crypto.subtle.digest(hash, signed))
+    if (digest[0] !== signature.hashPrefix[0] || digest[1] !== signature.hashPrefix[1]) {
+        return `OpenPGP signature does not match the document`
+    }
+
+    let valid: boolean
+    if (RSA.includes(key.algorithm)) {
+        const [n, e] = key.material
+        const publicKey = await crypto.subtle.importKey('jwk', { kty: 'RSA', n: base64url(n), e: base64url(e), ext: true }, { name: 'RSASSA-PKCS1-v1_5', hash }, false, ['verify'])
+        valid = await crypto.subtle.verify('RSASSA-PKCS1-v1_5', publicKey, pad(signature.values[0], n.length), signed)
+    } else {
+        // EdDSA signs the digest rather than the data
+        const publicKey = await crypto.subtle.importKey('raw', key.material[0], { name: 'Ed25519' }, false, ['verify'])
+        const value = signature.values.length === 2
+            ? new Uint8Array([...pad(signature.values[0], 32), ...pad(signature.values[1], 32)])
+            : signature.values[0]
+        valid = await crypto.subtle.verify('Ed25519', publicKey, value, digest)
+    }
+    return valid ? null : `OpenPGP signature does not match the document`
+}
@@ -0,0 +1,74 @@
+import { Prisma } from "@prisma/client";
+
+// Error codes of the API, the last segment of the problem type URI. Documented in the specs as problemCode,
+// clients may rely on them while titles and details are for humans and may change.
+export const problemTypes = {
+    'invalid-parameter': { status: 400, title: `Invalid parameter` },
+    'invalid-request-body': { status: 400, title: `Invalid request body` },
+    'validation-failed': { status: 400, title: `Request validation failed` },
+    'invalid-reference': { status: 400, title: `Referenced object not found` },
+    'invalid-lifecycle-transition': { status: 400, title: `Invalid lifecycle transition` },
+    'api-key-revoked': { status: 400, title: `API key revoked` },
+    'invalid-request': { status: 401, title: `Missing credentials` },
+    'invalid-token': { status: 401, title: `Invalid credentials` },
+    'insufficient-scope': { status: 403, title: `Insufficient scope` },
+    'not-found': { status: 404, title: `Not found` },
+    'not-acceptable': { status: 406, title: `Not acceptable` },
+    'conflict': { status: 409, title: `Conflict` },
+    'length-required': { status: 411, title: `Length required` },
+    'precondition-failed': { status: 412, title: `Precondition failed` },
+    'content-too-large': { status: 413, title: `Content too large` },
+    'range-not-satisfiable': { status: 416, title: `Range not satisfiable` },
+    'signature-rejected': { status: 422, title: `Signature rejected` },
+    'internal-error': { status: 500, title: `Internal server error` },
+    'integrity-check-failed': { status: 500, title: `Integrity check failed` }
+}
+
+export type ProblemCode = keyof typeof problemTypes;
+
+// Prisma error codes caused by the request rather than by the server
+// https://www.prisma.io/docs/orm/reference/error-reference
+const prismaProblems: Record<string, { code: ProblemCode, detail: string }> = {
+    P2000: { code: 'invalid-request-body', detail: `A value is too long` },
+    P2002: { code: 'conflict', detail: `An object with the same identifier already exists` },
+    P2003: { code: 'invalid-reference', detail: `A referenced object does not exist` },
+    P2011: { code: 'invalid-request-body', detail: `A required value is missing` },
+    P2014: { code: 'conflict', detail: `The change would break a required relation between objects` },
+    P2025: { code: 'not-found', detail: `An object required for the operation was not found` },
+    P2034: { code: 'conflict', detail: `The object was modified concurrently, retry the request` }
+}
+
+// An RFC 7807 problem details response, extension members are added to the problem object
+export function problem(request: Request, code: ProblemCode, detail: string, extensions: Record<string, unknown> = {}, headers: Record<string, string> = {}): Response {
+    const { status, title } = problemTypes[code]
+    const body = {
+        type: `urn:tea:problem:${code}`,
+        title,
+        status,
+        detail,
+        instance: new URL(request.url).pathname,
+        code,
+        ...extensions
+    }
+    return new Response(JSON.stringify(body), {
+        status,
+        headers: {
+            'Content-Type': 'application/problem+json',
+            ...headers
+        }
+    })
+}
+
+// The problem for an error thrown while handling a request. Known Prisma errors are client errors,
+// anything else is reported as an internal error without details.
+export function errorProblem(request: Request, error: unknown): Response {
+    if (error instanceof Prisma.PrismaClientKnownRequestError && prismaProblems[error.code]) {
+        const { code, detail } = prismaProblems[error.code]
+        // A foreign key failing on delete means the object is still referenced
+        if (error.code === 'P2003' && request.method === 'DELETE') {
+            return problem(request, 'conflict', `The object is still referenced by other objects`)
+        }
+        return problem(request, code, detail)
+    }
+    return problem(request, 'internal-error', `Internal server error`)
+}
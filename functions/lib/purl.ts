@@ -0,0 +1,223 @@
+// Package URL parsing and serialization following the purl specification
+// https://github.com/package-url/purl-spec
+
+export interface PackageUrl {
+    type: string;
+    namespace: string | null;
+    name: string;
+    version: string | null;
+    qualifiers: Record<string, string>;
+    subpath: string | null;
+}
+
+// Parts of the purl that are case insensitive or otherwise normalized for a type, per PURL-TYPES
+const typeRules: Record<string, { namespace?: 'lowercase', name?: 'lowercase' | 'pypi', version?: 'lowercase' }> = {
+    alpm: { namespace: 'lowercase', name: 'lowercase' },
+    apk: { namespace: 'lowercase', name: 'lowercase' },
+    bitbucket: { namespace: 'lowercase', name: 'lowercase' },
+    bitnami: { name: 'lowercase' },
+    composer: { namespace: 'lowercase', name: 'lowercase' },
+    deb: { namespace: 'lowercase', name: 'lowercase' },
+    github: { namespace: 'lowercase', name: 'lowercase' },
+    hex: { namespace: 'lowercase', name: 'lowercase' },
+    huggingface: { version: 'lowercase' },
+    luarocks: { version: 'lowercase' },
+    npm: { name: 'lowercase' },
+    oci: { name: 'lowercase' },
+    pub: { name: 'lowercase' },
+    pypi: { name: 'pypi' },
+    qpkg: { namespace: 'lowercase' }
+}
+
+// Helper function to split a string at the last occurrence of a separator
+function splitLast(value: string, separator: string): [string, string | null] {
+    const index = value.lastIndexOf(separator)
+    return index < 0 ? [value, null] : [value.slice(0, index), value.slice(index + 1)]
+}
+
+// Helper function to decode the segments of a namespace or subpath, dropping empty segments.
+// Subpaths also drop the relative segments '.' and '..'.
+function decodeSegments(value: string, relative: boolean): string | null {
+    const segments = value.split('/')
+        .filter(segment => segment !== '' && (!relative || (segment !== '.' && segment !== '..')))
+        .map(segment => decodeURIComponent(segment))
+    return segments.length > 0 ? segments.join('/') : null
+}
+
+// Helper function to percent-encode a purl component. ':' needs no encoding anywhere, '/' needs none in
+// qualifier values.
+function encode(value: string, keepSlash = false): string {
+    const encoded = encodeURIComponent(value).replace(/%3A/gi, ':')
+    return keepSlash ? encoded.replace(/%2F/gi, '/') : encoded
+}
+
+// Helper function to apply the normalization rules of the purl type
+function canonicalize(purl: PackageUrl): PackageUrl {
+    const rules = typeRules[purl.type] || {}
+    let name = purl.name
+    if (rules.name === 'lowercase') {
+        name = name.toLowerCase()
+    } else if (rules.name === 'pypi') {
+        name = name.toLowerCase().replace(/_/g, '-')
+    }
+    return {
+        ...purl,
+        namespace: rules.namespace === 'lowercase' && purl.namespace ? purl.namespace.toLowerCase() : purl.namespace,
+        name,
+        version: rules.version === 'lowercase' && purl.version ? purl.version.toLowerCase() : purl.version
+    }
+}
+
+// Parse a purl, pkg:type/namespace/name@version?qualifiers#subpath, null when it is not a valid purl.
+// The result is canonical: the type and qualifier keys are lowercase and the rules of the type applied.
+export function parsePurl(value: string): PackageUrl | null {
+    try {
+        let remainder = value.trim()
+
+        let subpath: string | null = null
+        const [withoutSubpath, rawSubpath] = splitLast(remainder, '#')
+        if (rawSubpath !== null) {
+            subpath = decodeSegments(rawSubpath, true)
+            remainder = withoutSubpath
+        }
+
+        const qualifiers: Record<string, string> = {}
+        const [withoutQualifiers, rawQualifiers] = splitLast(remainder, '?')
+        if (rawQualifiers !== null) {
+            for (const pair of rawQualifiers.split('&').filter(pair => pair !== '')) {
+                const separator = pair.indexOf('=')
+                if (separator < 1) {
+                    return null
+                }
+                const key = pair.slice(0, separator).toLowerCase()
+                if (!/^[a-z.\-_][a-z0-9.\-_]*$/.test(key) || key in qualifiers) {
+                    return null
+                }
+                // Qualifiers without a value are the same as absent ones
+                const qualifierValue = decodeURIComponent(pair.slice(separator + 1))
+                if (qualifierValue !== '') {
+                    qualifiers[key] = qualifierValue
+                }
+            }
+            remainder = withoutQualifiers
+        }
+
+        const colon = remainder.indexOf(':')
+        if (colon < 0 || remainder.slice(0, colon).toLowerCase() !== 'pkg') {
+            return null
+        }
+        // The scheme may be followed by slashes, pkg://type/name is read as pkg:type/name
+        remainder = remainder.slice(colon + 1).replace(/^\/+/, '').replace(/\/+$/, '')
+
+        const slash = remainder.indexOf('/')
+        if (slash < 0) {
+            return null
+        }
+        const type = remainder.slice(0, slash).toLowerCase()
+        if (!/^[a-z.\-+][a-z0-9.\-+]*$/.test(type)) {
+            return null
+        }
+        remainder = remainder.slice(slash + 1)
+
+        // An '@' before the name belongs to the namespace, as in npm scopes
+        let version: string | null = null
+        const at = remainder.lastIndexOf('@')
+        if (at > remainder.lastIndexOf('/')) {
+            version = decodeURIComponent(remainder.slice(at + 1)) || null
+            remainder = remainder.slice(0, at)
+        }
+
+        const [rawNamespace, rawName] = splitLast(remainder, '/')
+        const name = decodeURIComponent(rawName ?? rawNamespace)
+        if (!name) {
+            return null
+        }
+        const namespace = rawName !== null ? decodeSegments(rawNamespace, false) : null
+
+        return canonicalize({ type, namespace, name, version, qualifiers, subpath })
+    } catch {
+        // decodeURIComponent throws on malformed escapes
+        return null
+    }
+}
+
+// Serialize a purl in its canonical form, with qualifiers sorted by key
+export function formatPurl(purl: PackageUrl): string {
+    const { type, namespace, name, version, qualifiers, subpath } = canonicalize(purl)
+    let value = `pkg:${type}/`
+    if (namespace) {
+        value += `${namespace.split('/').filter(segment => segment !== '').map(segment => encode(segment)).join('/')}/`
+    }
+    value += encode(name)
+    if (version) {
+        value += `@${encode(version)}`
+    }
+    const pairs = Object.keys(qualifiers)
+        .filter(key => qualifiers[key] !== '')
+        .sort()
+        .map(key => `${key.toLowerCase()}=${encode(qualifiers[key], true)}`)
+    if (pairs.length > 0) {
+        value += `?${pairs.join('&')}`
+    }
+    if (subpath) {
+        value += `#${subpath.split('/').filter(segment => segment !== '' && segment !== '.' && segment !== '..').map(segment => encode(segment)).join('/')}`
+    }
+    return value
+}
+
+// The canonical form of a purl, null when it is not a valid purl
+export function canonicalPurl(value: string): string | null {
+    const purl = parsePurl(value)
+    return purl ? formatPurl(purl) : null
+}
+
+// Helper function to merge the qualifier objects of a request into one map with lowercase keys.
+// Products and components accept qualifiers as an array of objects.
+export function mergeQualifiers(qualifiers: Record<string, string>[] | undefined): Record<string, string> {
+    const merged: Record<string, string> = {}
+    for (const entry of qualifiers || []) {
+        for (const [key, value] of Object.entries(entry)) {
+            if (value !== '') {
+                merged[key.toLowerCase()] = value
+            }
+        }
+    }
+    return merged
+}
+
+// The stored form of qualifiers, a JSON array holding one object with the keys sorted, so equal qualifiers
+// are stored as equal strings
+export function qualifierColumn(qualifiers: Record<string, string>): string {
+    const keys = Object.keys(qualifiers).sort()
+    return JSON.stringify(keys.length > 0 ? [Object.fromEntries(keys.map(key => [key, qualifiers[key]]))] : [])
+}
+
+// The structured columns of a product or component described by a purl
+export function purlColumns(purl: PackageUrl) {
+    return {
+        type: purl.type,
+        namespace: purl.namespace || ``,
+        name: purl.name,
+        version: purl.version,
+        qualifiers: qualifierColumn(purl.qualifiers),
+        subpath: purl.subpath
+    }
+}
+
+// Where clause matching products or components by the structured columns of a purl. The version and
+// qualifiers may be ignored, finding every version or build of a package.
+export function purlWhere(purl: PackageUrl, ignoreVersion: boolean, ignoreQualifiers: boolean) {
+    const columns = purlColumns(purl)
+    const conditions: any[] = [
+        { type: columns.type, namespace: columns.namespace, name: columns.name },
+        // Absent optional parts may have been stored as null or as empty strings
+        columns.subpath ? { subpath: columns.subpath } : { OR: [{ subpath: null }, { subpath: `` }] }
+    ]
+    if (!ignoreVersion) {
+        conditions.push(columns.version ? { version: columns.version } : { OR: [{ version: null }, { version: `` }] })
+    }
+    if (!ignoreQualifiers) {
+        conditions.push(columns.qualifiers !== '[]' ? { qualifiers: columns.qualifiers } : { OR: [{ qualifiers: null }, { qualifiers: `[]` }] })
+    }
+    return { AND: conditions }
+}
@@ -0,0 +1,529 @@
+import type { Prisma } from "@prisma/client";
+import type { TeaArtifactInput, TeaTrustedKey } from "../types";
+import { base64url, decodeProtectedHeader, flattenedVerify, importJWK, importSPKI } from 'jose';
+import { toHex } from "./artifacts";
+import { issuedBy, parsePgpPublicKeys, parsePgpSignature, verifyPgpSignature } from "./pgp";
+
+// Detached signatures accepted with uploaded documents
+export const signatureFormats = ['jws', 'sigstore', 'pgp'] as const
+
+// verified: a key trusted for the product verifies the signature. untrusted: no trusted key verifies it, but it
+// is not known to be broken. invalid: the signature is malformed or does not match the document.
+export const signatureStatuses = ['verified', 'untrusted', 'invalid'] as const
+
+// none: signatures are verified and recorded only. verify: badly or untrusted signed artifacts are rejected.
+// require: only artifacts with a verified signature are accepted.
+export const signaturePolicies = ['none', 'verify', 'require'] as const
+
+// Encodings of the public keys trusted for a product
+export const trustedKeyTypes = ['jwk', 'pem', 'pgp'] as const
+
+export type SignatureFormat = typeof signatureFormats[number];
+export type SignatureStatus = typeof signatureStatuses[number];
+export type SignaturePolicy = typeof signaturePolicies[number];
+export type TrustedKeyType = typeof trustedKeyTypes[number];
+
+export interface SignatureVerification {
+    format: SignatureFormat;
+    status: SignatureStatus;
+    keyUuid: string | null;
+    detail: string;
+}
+
+// A detached signature sent with a document
+export interface RequestSignature {
+    signature: Uint8Array;
+    format: SignatureFormat;
+}
+
+export type StoredTrustedKey = Prisma.TeaTrustedKeyGetPayload<{}>;
+
+// R2 key suffixes of stored signatures
+const signatureExtensions: Record<SignatureFormat, string> = {
+    jws: '.jws',
+    sigstore: '.sigstore.json',
+    pgp: '.sig'
+}
+
+const signatureMimeTypes: Record<SignatureFormat, string> = {
+    jws: 'application/jose',
+    sigstore: 'application/vnd.dev.sigstore.bundle+json',
+    pgp: 'application/pgp-signature'
+}
+
+// DER encoded object identifiers of the public key algorithms of X.509 certificates and PEM keys
+const keyOids = {
+    ecPublicKey: '2a8648ce3d0201',
+    rsaEncryption: '2a864886f70d010101',
+    ed25519: '2b6570'
+}
+
+const curveOids: Record<string, { curve: string, hash: string, size: number }> = {
+    '2a8648ce3d030107': { curve: 'P-256', hash: 'SHA-256', size: 32 },
+    '2b81040022': { curve: 'P-384', hash: 'SHA-384', size: 48 },
+    '2b81040023': { curve: 'P-521', hash: 'SHA-512', size: 66 }
+}
+
+interface DerElement {
+    tag: number;
+    start: number; // Offset of the tag
+    contentStart: number;
+    end: number;
+}
+
+// A public key in the form WebCrypto verifies with
+interface VerificationKey {
+    key: CryptoKey;
+    algorithm: SubtleCryptoSignAlgorithm;
+    ecdsaSize?: number; // Size of r and s when signatures are DER encoded ECDSA values
+}
+
+// Helper function to decode base64 or base64url
+function decodeBase64(value: string): Uint8Array {
+    const normalized = value.replace(/-/g, '+').replace(/_/g, '/').replace(/\s+/g, '')
+    return Uint8Array.from(atob(normalized), c => c.charCodeAt(0))
+}
+
+// Helper function to read the DER element at an offset, null when it runs past the end
+function readDer(data: Uint8Array, offset: number): DerElement | null {
+    if (offset + 2 > data.length) {
+        return null
+    }
+    const tag = data[offset]
+    let length = data[offset + 1]
+    let contentStart = offset + 2
+    if (length & 0x80) {
+        const size = length & 0x7f
+        if (size === 0 || size > 4) {
+            return null
+        }
+        length = 0
+        for (let i = 0; i < size; i++) {
+            length = length * 256 + data[contentStart + i]
+        }
+        contentStart += size
+    }
+    const end = contentStart + length
+    return end <= data.length ? { tag, start: offset, contentStart, end } : null
+}
+
+// Helper function to read the elements of a DER sequence
+function readDerSequence(data: Uint8Array, element: DerElement): DerElement[] | null {
+    const children: DerElement[] = []
+    let offset = element.contentStart
+    while (offset < element.end) {
+        const child = readDer(data, offset)
+        if (!child) {
+            return null
+        }
+        children.push(child)
+        offset = child.end
+    }
+    return children
+}
+
+// Helper function to take the SubjectPublicKeyInfo out of a DER encoded X.509 certificate
+function certificateSpki(certificate: Uint8Array): Uint8Array | null {
+    const root = readDer(certificate, 0)
+    const tbs = root && readDerSequence(certificate, root)?.[0]
+    const fields = tbs && readDerSequence(certificate, tbs)
+    if (!fields) {
+        return null
+    }
+    // The version is an optional explicitly tagged field before the serial number
+    const spki = fields[fields[0].tag === 0xa0 ? 6 : 5]
+    return spki ? certificate.subarray(spki.start, spki.end) : null
+}
+
+// Helper function to import a SubjectPublicKeyInfo for verifying signatures, null for unsupported algorithms
+async function importSpki(spki: Uint8Array): Promise<VerificationKey | null> {
+    const root = readDer(spki, 0)
+    const algorithm = root && readDerSequence(spki, root)?.[0]
+    const parts = algorithm && readDerSequence(spki, algorithm)
+    if (!parts || parts.length === 0) {
+        return null
+    }
+    const oid = toHex(spki.slice(parts[0].contentStart, parts[0].end).buffer)
+    if (oid === keyOids.ecPublicKey && parts[1]) {
+        const curve = curveOids[toHex(spki.slice(parts[1].contentStart, parts[1].end).buffer)]
+        if (!curve) {
+            return null
+        }
+        const key = await crypto.subtle.importKey('spki', spki, { name: 'ECDSA', namedCurve: curve.curve }, true, ['verify'])
+        return { key, algorithm: { name: 'ECDSA', hash: curve.hash }, ecdsaSize: curve.size }
+    }
+    if (oid === keyOids.rsaEncryption) {
+        const key = await crypto.subtle.importKey('spki', spki, { name: 'RSASSA-PKCS1-v1_5', hash: 'SHA-256' }, true, ['verify'])
+        return { key, algorithm: { name: 'RSASSA-PKCS1-v1_5' } }
+    }
+    if (oid === keyOids.ed25519) {
+        const key = await crypto.subtle.importKey('spki', spki, { name: 'Ed25519' }, true, ['verify'])
+        return { key, algorithm: { name: 'Ed25519' } }
+    }
+    return null
+}
+
+// Helper function to convert a DER encoded ECDSA signature to the r || s form WebCrypto expects
+function ecdsaSignature(signature: Uint8Array, size: number): Uint8Array | null {
+    const root = readDer(signature, 0)
+    const values = root && readDerSequence(signature, root)
+    if (!values || values.length !== 2) {
+        return null
+    }
+    const raw = new Uint8Array(size * 2)
+    values.forEach((value, i) => {
+        const bytes = signature.subarray(value.contentStart, value.end)
+        const trimmed = bytes.subarray(Math.max(0, bytes.length - size))
+        raw.set(trimmed, (i + 1) * size - trimmed.length)
+    })
+    return raw
+}
+
+// Helper function to verify a signature made with a SubjectPublicKeyInfo key
+async function verifyWithKey(key: VerificationKey, signature: Uint8Array, data: Uint8Array): Promise<boolean> {
+    const value = key.ecdsaSize ? ecdsaSignature(signature, key.ecdsaSize) : signature
+    return value !== null && crypto.subtle.verify(key.algorithm, key.key, value, data)
+}
+
+// Helper function to read the SubjectPublicKeyInfo of a PEM public key
+function pemSpki(pem: string): Uint8Array | null {
+    const match = /-----BEGIN PUBLIC KEY-----([\s\S]+?)-----END PUBLIC KEY-----/.exec(pem)
+    try {
+        return match ? decodeBase64(match[1]) : null
+    } catch {
+        return null
+    }
+}
+
+// Helper function to find the WebCrypto import parameters of a public JWK
+function jwkAlgorithm(jwk: JsonWebKey): SubtleCryptoImportKeyAlgorithm | null {
+    if (jwk.kty === 'EC' && ['P-256', 'P-384', 'P-521'].includes(jwk.crv)) {
+        return { name: 'ECDSA', namedCurve: jwk.crv }
+    }
+    if (jwk.kty === 'RSA') {
+        return { name: 'RSASSA-PKCS1-v1_5', hash: 'SHA-256' }
+    }
+    if (jwk.kty === 'OKP' && jwk.crv === 'Ed25519') {
+        return { name: 'Ed25519' }
+    }
+    return null
+}
+
+// Helper function to read the SubjectPublicKeyInfo of a trusted JWK or PEM key
+async function trustedKeySpki(key: { keyType: string, publicKey: string }): Promise<Uint8Array | null> {
+    if (key.keyType === 'pem') {
+        return pemSpki(key.publicKey)
+    }
+    const { kty, crv, n, e, x, y } = JSON.parse(key.publicKey)
+    const jwk: JsonWebKey = { kty, crv, n, e, x, y }
+    const algorithm = jwkAlgorithm(jwk)
+    if (!algorithm) {
+        return null
+    }
+    const imported = await crypto.subtle.importKey('jwk', jwk, algorithm, true, ['verify'])
+    return new Uint8Array(await crypto.subtle.exportKey('spki', imported) as ArrayBuffer)
+}
+
+// Read a public key to be trusted for a product, returning its fingerprint or a description of the problem.
+// JWK and PEM keys are fingerprinted by the SHA-256 of their SubjectPublicKeyInfo, PGP keys by their v4 fingerprint.
+export async function readTrustedKey(keyType: TrustedKeyType, publicKey: string): Promise<{ fingerprint: string } | string> {
+    try {
+        if (keyType === 'pgp') {
+            const keys = await parsePgpPublicKeys(new TextEncoder().encode(publicKey))
+            return keys ? { fingerprint: keys[0].fingerprint } : `publicKey is not an OpenPGP public key with an RSA or Ed25519 key`
+        }
+        if (keyType === 'jwk' && 'd' in JSON.parse(publicKey)) {
+            return `jwk must be a public key`
+        }
+        const spki = await trustedKeySpki({ keyType, publicKey })
+        if (!spki || !await importSpki(spki)) {
+            return `publicKey is not an EC P-256, P-384, P-521, RSA or Ed25519 public key`
+        }
+        return { fingerprint: toHex(await crypto.subtle.digest('SHA-256', spki)) }
+    } catch {
+        return `publicKey is not a valid ${keyType} public key`
+    }
+}
+
+// Transform a stored trusted key to the API format
+export function toTrustedKeyResponse(key: StoredTrustedKey): TeaTrustedKey {
+    return {
+        identifier: key.uuid,
+        productIdentifier: key.productUuid,
+        name: key.name,
+        keyType: key.keyType as TrustedKeyType,
+        publicKey: key.keyType === 'jwk' ? JSON.parse(key.publicKey) : key.publicKey,
+        fingerprint: key.fingerprint,
+        createdBy: key.createdBy,
+        createdAt: new Date(key.createdAt * 1000).toISOString()
+    }
+}
+
+// Read the detached signature sent in the Tea-Signature header as base64. Returns null without a header and a
+// description of the problem when it is not a signature in one of the accepted formats.
+export function requestSignature(headers: Headers): RequestSignature | string | null {
+    const header = headers.get('Tea-Signature')
+    if (!header) {
+        return null
+    }
+    let signature: Uint8Array
+    try {
+        signature = decodeBase64(header)
+    } catch {
+        return `Tea-Signature must be base64 encoded`
+    }
+
+    const text = new TextDecoder().decode(signature).trim()
+    if (text.startsWith('{')) {
+        try {
+            const json = JSON.parse(text)
+            if (typeof json.mediaType === 'string' && json.mediaType.startsWith('application/vnd.dev.sigstore.bundle')) {
+                return { signature, format: 'sigstore' }
+            }
+            if (typeof json.protected === 'string' && typeof json.signature === 'string') {
+                return { signature, format: 'jws' }
+            }
+        } catch {
+            // Not JSON after all, fall through
+        }
+    } else if (/^[A-Za-z0-9_-]+\.[A-Za-z0-9_-]*\.[A-Za-z0-9_-]+$/.test(text)) {
+        return { signature, format: 'jws' }
+    } else if (text.startsWith('-----BEGIN PGP SIGNATURE-----') || (signature[0] & 0x80) !== 0) {
+        return { signature, format: 'pgp' }
+    }
+    return `Tea-Signature is not a detached JWS, a Sigstore bundle or an OpenPGP signature`
+}
+
+// Helper function to verify a detached JWS, in compact or flattened JSON serialization
+async function verifyJws(signature: Uint8Array, content: Uint8Array, keys: StoredTrustedKey[]): Promise<SignatureVerification> {
+    const text = new TextDecoder().decode(signature).trim()
+    let jws: { protected: string, payload?: string, signature: string }
+    if (text.startsWith('{')) {
+        jws = JSON.parse(text)
+    } else {
+        const [header, payload, value] = text.split('.')
+        jws = { protected: header, payload, signature: value }
+    }
+    if (jws.payload) {
+        return { format: 'jws', status: 'invalid', keyUuid: null, detail: `The JWS payload is not detached` }
+    }
+
+    let header: ReturnType<typeof decodeProtectedHeader>
+    try {
+        header = decodeProtectedHeader({ protected: jws.protected, signature: jws.signature })
+    } catch {
+        return { format: 'jws', status: 'invalid', keyUuid: null, detail: `The JWS header is malformed` }
+    }
+
+    // Unencoded payloads (RFC 7797) are signed as they are, others as base64url
+    const payload = header.b64 === false ? content : base64url.encode(content)
+
+    // A kid names the key, keys without a matching kid are still tried when none matches
+    const candidates = keys.filter(key => key.keyType === 'jwk' || key.keyType === 'pem')
+    const named = header.kid ? candidates.filter(key => key.keyType === 'jwk' && JSON.parse(key.publicKey).kid === header.kid) : []
+    for (const key of named.length > 0 ? named : candidates) {
+        let publicKey: CryptoKey | Uint8Array
+        try {
+            publicKey = key.keyType === 'jwk'
+                ? await importJWK(JSON.parse(key.publicKey), header.alg)
+                : await importSPKI(key.publicKey, header.alg)
+        } catch {
+            // The key does not fit the algorithm of the signature
+            continue
+        }
+        try {
+            await flattenedVerify({ protected: jws.protected, payload, signature: jws.signature }, publicKey)
+            return { format: 'jws', status: 'verified', keyUuid: key.uuid, detail: `Verified with ${key.name}` }
+        } catch {
+            // Not signed with this key
+        }
+    }
+    if (named.length > 0) {
+        return { format: 'jws', status: 'invalid', keyUuid: null, detail: `The JWS does not match the document` }
+    }
+    return { format: 'jws', status: 'untrusted', keyUuid: null, detail: `No key trusted for the product verifies the JWS` }
+}
+
+// Helper function to verify a Sigstore bundle over a document. Trust is by key: the signing key must be trusted
+// for the product, certificates are only read for their public key and are not checked against Fulcio or Rekor.
+async function verifySigstore(signature: Uint8Array, content: Uint8Array, keys: StoredTrustedKey[]): Promise<SignatureVerification> {
+    const invalid = (detail: string): SignatureVerification => ({ format: 'sigstore', status: 'invalid', keyUuid: null, detail })
+    const bundle = JSON.parse(new TextDecoder().decode(signature))
+    const digest = toHex(await crypto.subtle.digest('SHA-256', content))
+
+    // What was signed: the document itself, or a DSSE envelope with an in-toto statement about it
+    let signed: Uint8Array
+    let value: Uint8Array
+    if (bundle.messageSignature) {
+        const messageDigest = bundle.messageSignature.messageDigest
+        if (messageDigest && (messageDigest.algorithm !== 'SHA2_256' || toHex(decodeBase64(messageDigest.digest).slice().buffer) !== digest)) {
+            return invalid(`The bundle is for another document`)
+        }
+        signed = content
+        value = decodeBase64(bundle.messageSignature.signature || '')
+    } else if (bundle.dsseEnvelope) {
+        const envelope = bundle.dsseEnvelope
+        const payload = decodeBase64(envelope.payload || '')
+        let statement: any
+        try {
+            statement = JSON.parse(new TextDecoder().decode(payload))
+        } catch {
+            return invalid(`The DSSE payload is not an in-toto statement`)
+        }
+        if (!Array.isArray(statement.subject) || !statement.subject.some(subject => subject?.digest?.sha256?.toLowerCase() === digest)) {
+            return invalid(`The in-toto statement is about another document`)
+        }
+        // DSSE signs the pre-authentication encoding of the payload type and payload
+        const type = new TextEncoder().encode(envelope.payloadType || '')
+        const prefix = new TextEncoder().encode(`DSSEv1 ${type.length} `)
+        const middle = new TextEncoder().encode(` ${payload.length} `)
+        signed = new Uint8Array([...prefix, ...type, ...middle, ...payload])
+        value = decodeBase64(envelope.signatures?.[0]?.sig || '')
+    } else {
+        return invalid(`The bundle holds neither a message signature nor a DSSE envelope`)
+    }
+
+    const material = bundle.verificationMaterial || {}
+    const certificate = material.certificate?.rawBytes || material.x509CertificateChain?.certificates?.[0]?.rawBytes
+    const candidates = keys.filter(key => key.keyType === 'jwk' || key.keyType === 'pem')
+    if (certificate) {
+        // The certificate names the signing key, it is trusted when a trusted key has the same fingerprint
+        const spki = certificateSpki(decodeBase64(certificate))
+        const key = spki && await importSpki(spki)
+        if (!key) {
+            return invalid(`The bundle certificate holds no supported public key`)
+        }
+        if (!await verifyWithKey(key, value, signed)) {
+            return invalid(`The bundle signature does not match the document`)
+        }
+        const fingerprint = toHex(await crypto.subtle.digest('SHA-256', spki))
+        const trusted = candidates.find(candidate => candidate.fingerprint === fingerprint)
+        return trusted
+            ? { format: 'sigstore', status: 'verified', keyUuid: trusted.uuid, detail: `Verified with ${trusted.name}` }
+            : { format: 'sigstore', status: 'untrusted', keyUuid: null, detail: `The bundle was signed with a key not trusted for the product` }
+    }
+
+    for (const candidate of candidates) {
+        const spki = await trustedKeySpki(candidate)
+        const key = spki && await importSpki(spki)
+        if (key && await verifyWithKey(key, value, signed).catch(() => false)) {
+            return { format: 'sigstore', status: 'verified', keyUuid: candidate.uuid, detail: `Verified with ${candidate.name}` }
+        }
+    }
+    return { format: 'sigstore', status: 'untrusted', keyUuid: null, detail: `No key trusted for the product verifies the bundle` }
+}
+
+// Helper function to verify a detached OpenPGP signature with the PGP keys trusted for the product
+async function verifyPgp(signature: Uint8Array, content: Uint8Array, keys: StoredTrustedKey[]): Promise<SignatureVerification> {
+    const parsed = parsePgpSignature(signature)
+    if (typeof parsed === 'string') {
+        return { format: 'pgp', status: 'invalid', keyUuid: null, detail: parsed }
+    }
+    for (const key of keys.filter(key => key.keyType === 'pgp')) {
+        const subkeys = await parsePgpPublicKeys(new TextEncoder().encode(key.publicKey)) || []
+        const issuer = subkeys.find(subkey => issuedBy(parsed, subkey))
+        if (issuer) {
+            // The issuer is trusted, so a failure means the signature is broken rather than foreign
+            const problem = await verifyPgpSignature(parsed, issuer, content)
+            return problem
+                ? { format: 'pgp', status: 'invalid', keyUuid: null, detail: problem }
+                : { format: 'pgp', status: 'verified', keyUuid: key.uuid, detail: `Verified with ${key.name}` }
+        }
+    }
+    return { format: 'pgp', status: 'untrusted', keyUuid: null, detail: `The signature was made with a key not trusted for the product` }
+}
+
+// Helper function to verify a detached signature of a document against the keys trusted for its products
+async function verifySignature(format: SignatureFormat, signature: Uint8Array, content: Uint8Array, keys: StoredTrustedKey[]): Promise<SignatureVerification> {
+    try {
+        switch (format) {
+            case 'jws': return await verifyJws(signature, content, keys)
+            case 'sigstore': return await verifySigstore(signature, content, keys)
+            case 'pgp': return await verifyPgp(signature, content, keys)
+        }
+    } catch {
+        return { format, status: 'invalid', keyUuid: null, detail: `The signature is malformed` }
+    }
+}
+
+// Helper function to check artifacts signed or left unsigned against the signature policies of products, returning
+// why one is rejected or null when every policy accepts them. A signature verified with a key of another product
+// counts as untrusted.
+async function signaturePolicyRejection(tx: Prisma.TransactionClient, productUuids: string[], signatures: ({ status: string, keyUuid: string | null } | null)[]): Promise<string | null> {
+    const products = await tx.teaProduct.findMany({
+        where: {
+            uuid: { in: productUuids },
+            signaturePolicy: { not: 'none' }
+        },
+        select: { uuid: true, name: true, signaturePolicy: true }
+    })
+    if (products.length === 0) {
+        return null
+    }
+    const keyUuids = signatures.map(signature => signature?.keyUuid).filter(uuid => uuid)
+    const keys = await tx.teaTrustedKey.findMany({
+        where: { uuid: { in: keyUuids } },
+        select: { uuid: true, productUuid: true }
+    })
+
+    for (const product of products) {
+        for (const signature of signatures) {
+            const verified = signature?.status === 'verified' && keys.some(key => key.uuid === signature.keyUuid && key.productUuid === product.uuid)
+            if (!signature && product.signaturePolicy === 'require') {
+                return `Product ${product.name} requires artifacts to be signed`
+            }
+            if (signature && !verified) {
+                const status = signature.status === 'verified' ? 'untrusted' : signature.status
+                return `Product ${product.name} does not accept artifacts with ${status} signatures`
+            }
+        }
+    }
+    return null
+}
+
+// Check the artifacts to be attached to a collection against the signature policies of its products. New
+// artifacts given in the request body are unsigned, referenced artifacts bring the signatures of their formats.
+export async function artifactsPolicyRejection(tx: Prisma.TransactionClient, productUuids: string[], inputs: TeaArtifactInput[]): Promise<string | null> {
+    const references = inputs.filter(input => input.uuid).map(input => input.uuid)
+    const formats = await tx.teaArtifactFormat.findMany({
+        where: { artifactUuid: { in: references } },
+        select: { signatureStatus: true, signatureKeyUuid: true }
+    })
+    const signatures = [
+        ...inputs.filter(input => !input.uuid).map(() => null),
+        ...formats.map(format => format.signatureStatus ? { status: format.signatureStatus, keyUuid: format.signatureKeyUuid } : null)
+    ]
+    return signaturePolicyRejection(tx, productUuids, signatures)
+}
+
+// Verify the detached signature of a document and check it against the signature policies of its products. Without
+// products, as for artifacts not attached to a collection, the keys of every product of the organization are tried.
+export async function checkSignature(tx: Prisma.TransactionClient, organizationUuid: string, productUuids: string[] | null, signature: RequestSignature | null, content: Uint8Array | null): Promise<{ verification: SignatureVerification | null, rejection: string | null }> {
+    let verification: SignatureVerification = null
+    if (signature) {
+        const keys = await tx.teaTrustedKey.findMany({
+            where: {
+                organizationUuid,
+                ...(productUuids ? { productUuid: { in: productUuids } } : {})
+            }
+        })
+        verification = await verifySignature(signature.format, signature.signature, content, keys)
+    }
+    const rejection = await signaturePolicyRejection(tx, productUuids || [], [verification])
+    return { verification, rejection: rejection && verification ? `${rejection}: ${verification.detail}` : rejection }
+}
+
+// Store a detached signature next to its document, returning the object key it is served at
+export async function storeSignature(bucket: R2Bucket, objectKey: string, format: SignatureFormat, signature: Uint8Array, organizationUuid: string, artifactUuid: string): Promise<string> {
+    const signatureKey = `${objectKey}${signatureExtensions[format]}`
+    await bucket.put(signatureKey, signature, {
+        httpMetadata: {
+            contentType: signatureMimeTypes[format]
+        },
+        customMetadata: {
+            organizationUuid,
+            artifactUuid
+        }
+    })
+    return signatureKey
+}
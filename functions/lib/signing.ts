@@ -0,0 +1,154 @@
+import { FlattenedSign, calculateJwkThumbprint, importJWK } from 'jose';
+import type { JWK } from 'jose';
+import { problem } from "./problems";
+
+// Collection documents are signed by the server, so consumers can prove a document came from it. The private keys
+// are a JWK Set in the SIGNING_KEYS secret and every key of the set is published at /.well-known/jwks.json. The key
+// named by SIGNING_KEY_ID signs, the first key when unset. To rotate, add the new key to the set, switch
+// SIGNING_KEY_ID once cached key sets have expired, and remove the old key when its signatures no longer matter.
+
+// Media type of a JWS in the flattened JSON serialization, clients accepting it receive the document in an envelope
+export const JWS_ENVELOPE_TYPE = 'application/jose+json'
+
+// Response header holding the compact JWS of a document with its payload detached (RFC 7515 appendix F)
+export const JWS_SIGNATURE_HEADER = 'X-JWS-Signature'
+
+// Published key sets may be cached by consumers for this long, new keys must be published before they sign
+export const JWKS_MAX_AGE_SECONDS = 3600
+
+interface SigningKey {
+    kid: string;
+    alg: string;
+    key: Awaited<ReturnType<typeof importJWK>>;
+    publicJwk: JWK;
+}
+
+interface SigningKeySet {
+    active: SigningKey;
+    keys: SigningKey[];
+}
+
+// Signing keys, imported once per configuration
+let signingKeys: { secret: string, keyId: string, keys: Promise<SigningKeySet | null> } | null = null
+
+// Helper function to pick the algorithm of a key that does not name one
+function defaultAlgorithm(jwk: JWK): string | undefined {
+    switch (jwk.kty) {
+        case 'EC':
+            return { 'P-256': 'ES256', 'P-384': 'ES384', 'P-521': 'ES512' }[jwk.crv]
+        case 'OKP':
+            return jwk.crv === 'Ed25519' ? 'EdDSA' : undefined
+        case 'RSA':
+            return 'RS256'
+    }
+    return undefined
+}
+
+// Helper function to keep the public members of a private JWK
+function publicMembers(jwk: JWK): JWK {
+    switch (jwk.kty) {
+        case 'EC':
+            return { kty: jwk.kty, crv: jwk.crv, x: jwk.x, y: jwk.y }
+        case 'OKP':
+            return { kty: jwk.kty, crv: jwk.crv, x: jwk.x }
+        default:
+            return { kty: jwk.kty, n: jwk.n, e: jwk.e }
+    }
+}
+
+// Helper function to import the keys of the SIGNING_KEYS secret. A misconfigured secret throws, so it is
+// noticed rather than silently serving unsigned documents.
+async function importSigningKeys(secret: string, keyId: string): Promise<SigningKeySet | null> {
+    const parsed = JSON.parse(secret)
+    const jwks: JWK[] = Array.isArray(parsed?.keys) ? parsed.keys : [parsed]
+    const keys: SigningKey[] = []
+    for (const jwk of jwks) {
+        const alg = jwk.alg || defaultAlgorithm(jwk)
+        if (!alg || !jwk.d) {
+            throw new Error(`SIGNING_KEYS must hold private EC, Ed25519 or RSA keys`)
+        }
+        const publicJwk = publicMembers(jwk)
+        const kid = jwk.kid || await calculateJwkThumbprint(publicJwk)
+        if (keys.some(key => key.kid === kid)) {
+            throw new Error(`SIGNING_KEYS holds more than one key with kid ${kid}`)
+        }
+        keys.push({
+            kid,
+            alg,
+            key: await importJWK(jwk, alg),
+            publicJwk: { ...publicJwk, kid, alg, use: 'sig' }
+        })
+    }
+    if (keys.length === 0) {
+        return null
+    }
+    const active = keyId ? keys.find(key => key.kid === keyId) : keys[0]
+    if (!active) {
+        throw new Error(`SIGNING_KEY_ID ${keyId} is not a key of SIGNING_KEYS`)
+    }
+    return { active, keys }
+}
+
+// Helper function to get the signing keys, null when the server does not sign documents
+function loadSigningKeys(env: Env): Promise<SigningKeySet | null> {
+    const secret = env.SIGNING_KEYS || ''
+    const keyId = env.SIGNING_KEY_ID || ''
+    if (!secret) {
+        return Promise.resolve(null)
+    }
+    if (signingKeys?.secret !== secret || signingKeys.keyId !== keyId) {
+        signingKeys = { secret, keyId, keys: importSigningKeys(secret, keyId) }
+    }
+    return signingKeys.keys
+}
+
+// The public keys verifying documents signed by the server, the signing key and the keys it rotates from or to
+export async function publishedKeys(env: Env): Promise<{ keys: JWK[] }> {
+    const keys = await loadSigningKeys(env)
+    return {
+        keys: keys ? keys.keys.map(key => key.publicJwk) : []
+    }
+}
+
+// Helper function to check whether a request accepts a media type
+function accepts(request: Request, mediaType: string): boolean {
+    const accept = request.headers.get('Accept') || ''
+    return accept.split(',').some(range => range.split(';')[0].trim().toLowerCase() === mediaType)
+}
+
+// A JSON response signed by the server. The document is returned as is with a detached JWS header, or as the
+// payload of a JWS envelope when the client accepts one.
+export async function signedResponse(env: Env, request: Request, document: unknown): Promise<Response> {
+    const payload = new TextEncoder().encode(JSON.stringify(document))
+    const envelope = accepts(request, JWS_ENVELOPE_TYPE)
+    const keys = await loadSigningKeys(env)
+
+    if (!keys) {
+        if (envelope) {
+            return problem(request, 'not-acceptable', `This server does not sign documents, request application/json`)
+        }
+        return new Response(payload, {
+            status: 200,
+            headers: { 'Content-Type': 'application/json' }
+        })
+    }
+
+    const jws = await new FlattenedSign(payload)
+        .setProtectedHeader({ alg: keys.active.alg, kid: keys.active.kid, cty: 'json' })
+        .sign(keys.active.key)
+
+    if (envelope) {
+        return new Response(JSON.stringify(jws), {
+            status: 200,
+            headers: { 'Content-Type': JWS_ENVELOPE_TYPE, 'Vary': 'Accept' }
+        })
+    }
+    return new Response(payload, {
+        status: 200,
+        headers: {
+            'Content-Type': 'application/json',
+            [JWS_SIGNATURE_HEADER]: `${jws.protected}..${jws.signature}`,
+            'Vary': 'Accept'
+        }
+    })
+}
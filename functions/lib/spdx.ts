@@ -0,0 +1,346 @@
+// Reading SPDX documents, version 2.3 in the JSON and tag-value formats and version 3.0 in the JSON-LD format
+// https://spdx.github.io/spdx-spec/
+
+import type { TeaIdentifier } from "../types";
+import type { IngestedDocument, IngestedPackage } from "./ingest";
+
+// The parts of a package the API reads, common to all formats
+interface SpdxPackage {
+    id: string;
+    name?: string;
+    version?: string;
+    supplier?: string;
+    homepage?: string;
+    downloadLocation?: string;
+    description?: string;
+    identifiers: TeaIdentifier[];
+}
+
+// Relationships are kept in the 2.x form with inverse types turned around, e.g. B DEPENDENCY_OF A is A DEPENDS_ON B
+interface SpdxRelationship {
+    from: string;
+    type: string;
+    to: string;
+}
+
+interface SpdxGraph {
+    created?: string;
+    packages: Map<string, SpdxPackage>;
+    relationships: SpdxRelationship[];
+}
+
+// Relationship types stored in the relationship column of the links to a product and release
+const componentRelationships: Record<string, string> = {
+    DEPENDS_ON: `depends-on`,
+    CONTAINS: `contains`
+}
+
+// Inverse relationship types of SPDX 2.x and the type they are read as
+const inverseRelationships: Record<string, string> = {
+    DESCRIBED_BY: 'DESCRIBES',
+    DEPENDENCY_OF: 'DEPENDS_ON',
+    CONTAINED_BY: 'CONTAINS'
+}
+
+// Helper function to drop the values SPDX uses for unknown fields
+function assertion(value: unknown): string | undefined {
+    return typeof value === 'string' && value.trim() !== '' && value !== 'NOASSERTION' && value !== 'NONE' ? value.trim() : undefined
+}
+
+// Helper function to read the name of a 2.x supplier, "Organization: Acme (contact@acme.example)"
+function supplierName(value: unknown): string | undefined {
+    const supplier = assertion(value)
+    return supplier?.replace(/^(Organization|Person|Tool):\s*/, '').replace(/\s*\([^)]*\)$/, '') || undefined
+}
+
+// Helper function to map an external reference or identifier to an identifier of the API
+function externalIdentifier(type: string, locator: unknown): TeaIdentifier | null {
+    if (typeof locator !== 'string' || !locator) {
+        return null
+    }
+    switch (type) {
+        case 'purl':
+        case 'packageUrl':
+            return { idType: 'purl', idValue: locator }
+        case 'cpe23Type':
+        case 'cpe22Type':
+        case 'cpe23':
+        case 'cpe22':
+            return { idType: 'cpe', idValue: locator }
+        case 'swid':
+            return { idType: 'swid', idValue: locator }
+        default:
+            return null
+    }
+}
+
+// Helper function to add a relationship, turning inverse types around
+function addRelationship(relationships: SpdxRelationship[], from: string, type: string, to: string) {
+    const normalized = type.toUpperCase()
+    if (inverseRelationships[normalized]) {
+        relationships.push({ from: to, type: inverseRelationships[normalized], to: from })
+    } else {
+        relationships.push({ from, type: normalized, to })
+    }
+}
+
+// Helper function to read a version 2.x document in the JSON format
+function graphFromJson2(document: any): SpdxGraph {
+    const packages = new Map<string, SpdxPackage>()
+    for (const pkg of Array.isArray(document.packages) ? document.packages : []) {
+        packages.set(pkg.SPDXID, {
+            id: pkg.SPDXID,
+            name: assertion(pkg.name),
+            version: assertion(pkg.versionInfo),
+            supplier: supplierName(pkg.supplier) || supplierName(pkg.originator),
+            homepage: assertion(pkg.homepage),
+            downloadLocation: assertion(pkg.downloadLocation),
+            description: assertion(pkg.description) || assertion(pkg.summary),
+            identifiers: (Array.isArray(pkg.externalRefs) ? pkg.externalRefs : [])
+                .map((ref: any) => externalIdentifier(ref.referenceType, ref.referenceLocator))
+                .filter((identifier: TeaIdentifier | null) => identifier !== null)
+        })
+    }
+
+    const relationships: SpdxRelationship[] = []
+    const documentId = document.SPDXID || 'SPDXRef-DOCUMENT'
+    for (const described of Array.isArray(document.documentDescribes) ? document.documentDescribes : []) {
+        addRelationship(relationships, documentId, 'DESCRIBES', described)
+    }
+    for (const relationship of Array.isArray(document.relationships) ? document.relationships : []) {
+        if (typeof relationship.relationshipType === 'string') {
+            addRelationship(relationships, relationship.spdxElementId, relationship.relationshipType, relationship.relatedSpdxElement)
+        }
+    }
+
+    return { created: document.creationInfo?.created, packages, relationships }
+}
+
+// Helper function to read a version 3.0 document in the JSON-LD format, a flat graph of elements
+function graphFromJson3(document: any): SpdxGraph {
+    const elements: any[] = Array.isArray(document['@graph']) ? document['@graph'] : []
+    const names = new Map<string, string>(elements.filter(element => element.spdxId && element.name).map(element => [element.spdxId, element.name]))
+
+    const packages = new Map<string, SpdxPackage>()
+    const relationships: SpdxRelationship[] = []
+    let created: string | undefined
+    for (const element of elements) {
+        switch (element.type) {
+            case 'software_Package':
+                packages.set(element.spdxId, {
+                    id: element.spdxId,
+                    name: assertion(element.name),
+                    version: assertion(element.software_packageVersion),
+                    // The supplier is an agent element referenced by its id
+                    supplier: names.get(element.suppliedBy) || assertion(element.suppliedBy),
+                    homepage: assertion(element.software_homePage),
+                    downloadLocation: assertion(element.software_downloadLocation),
+                    description: assertion(element.description) || assertion(element.summary),
+                    identifiers: [
+                        externalIdentifier('packageUrl', element.software_packageUrl),
+                        ...(Array.isArray(element.externalIdentifier) ? element.externalIdentifier : [])
+                            .map((identifier: any) => externalIdentifier(identifier.externalIdentifierType, identifier.identifier))
+                    ].filter(identifier => identifier !== null)
+                })
+                break
+            case 'Relationship':
+                // Types are camel case in 3.0, dependsOn is DEPENDS_ON of 2.x
+                for (const to of Array.isArray(element.to) ? element.to : [element.to]) {
+                    addRelationship(relationships, element.from, String(element.relationshipType).replace(/([a-z])([A-Z])/g, '$1_$2'), to)
+                }
+                break
+            case 'SpdxDocument':
+            case 'software_Sbom':
+                // The root elements of a document or SBOM are the elements it describes
+                for (const root of Array.isArray(element.rootElement) ? element.rootElement : []) {
+                    addRelationship(relationships, element.spdxId, 'DESCRIBES', root)
+                }
+                break
+            case 'CreationInfo':
+                created = created || element.created
+                break
+        }
+    }
+
+    return { created, packages, relationships }
+}
+
+// Helper function to read a version 2.x document in the tag-value format. Text values may span lines
+// between <text> and </text>. A PackageName tag starts a package, the tags of files and snippets end it.
+function graphFromTagValue(source: string): SpdxGraph | string {
+    const packages = new Map<string, SpdxPackage>()
+    const relationships: SpdxRelationship[] = []
+    let created: string | undefined
+    let current: SpdxPackage | null = null
+    let version: string | undefined
+
+    const lines = source.split(/\r?\n/)
+    for (let i = 0; i < lines.length; i++) {
+        const line = lines[i]
+        if (line.trim() === '' || line.startsWith('#')) {
+            continue
+        }
+        const colon = line.indexOf(':')
+        if (colon < 0) {
+            return `Invalid tag-value line ${i + 1}`
+        }
+        const tag = line.slice(0, colon).trim()
+        let value = line.slice(colon + 1).trim()
+        if (value.startsWith('<text>')) {
+            value = value.slice(6)
+            while (!value.includes('</text>') && i + 1 < lines.length) {
+                value += `\n${lines[++i]}`
+            }
+            if (!value.includes('</text>')) {
+                return `Unterminated text value of ${tag}`
+            }
+            value = value.slice(0, value.indexOf('</text>')).trim()
+        }
+
+        switch (tag) {
+            case 'SPDXVersion':
+                version = value
+                break
+            case 'Created':
+                created = value
+                break
+            case 'PackageName':
+                current = { id: '', name: assertion(value), identifiers: [] }
+                break
+            case 'SPDXID':
+                // The SPDXID of the document itself comes before any package
+                if (current && !current.id) {
+                    current.id = value
+                    packages.set(value, current)
+                }
+                break
+            case 'FileName':
+            case 'SnippetSPDXID':
+                current = null
+                break
+            case 'PackageVersion':
+                if (current) current.version = assertion(value)
+                break
+            case 'PackageSupplier':
+                if (current) current.supplier = supplierName(value)
+                break
+            case 'PackageOriginator':
+                if (current) current.supplier = current.supplier || supplierName(value)
+                break
+            case 'PackageHomePage':
+                if (current) current.homepage = assertion(value)
+                break
+            case 'PackageDownloadLocation':
+                if (current) current.downloadLocation = assertion(value)
+                break
+            case 'PackageDescription':
+            case 'PackageSummary':
+                if (current) current.description = current.description || assertion(value)
+                break
+            case 'ExternalRef': {
+                // ExternalRef: <category> <type> <locator>
+                const [, type, locator] = value.split(/\s+/)
+                const identifier = externalIdentifier(type, locator)
+                if (current && identifier) current.identifiers.push(identifier)
+                break
+            }
+            case 'Relationship': {
+                // Relationship: <element> <type> <element>
+                const [from, type, to] = value.split(/\s+/)
+                if (from && type && to) addRelationship(relationships, from, type, to)
+                break
+            }
+        }
+    }
+
+    if (!version?.startsWith('SPDX-2.')) {
+        return `The document is not an SPDX 2 tag-value document`
+    }
+    return { created, packages, relationships }
+}
+
+// Helper function to map a package to a package of the API
+function toPackage(pkg: SpdxPackage, relationship: string): IngestedPackage {
+    return {
+        name: pkg.name,
+        version: pkg.version,
+        description: pkg.description,
+        vendor: pkg.supplier,
+        homepageUrl: pkg.homepage,
+        downloadUrl: pkg.downloadLocation && /^https?:\/\//.test(pkg.downloadLocation) ? pkg.downloadLocation : undefined,
+        identifiers: pkg.identifiers,
+        relationship
+    }
+}
+
+// Read an SPDX document, returning the document to ingest or a description of the problem. The package the
+// document DESCRIBES is the product and release, it needs a name and a version. Its components are the packages
+// it reaches by DEPENDS_ON and CONTAINS relationships, directly or through other packages, related to the release
+// by the relationship that first reached them.
+export function parseSpdx(source: string): IngestedDocument | string {
+    let graph: SpdxGraph | string
+    if (source.trimStart().startsWith('{')) {
+        let document: any
+        try {
+            document = JSON.parse(source)
+        } catch {
+            return `The document is not valid JSON`
+        }
+        if (typeof document?.spdxVersion === 'string') {
+            if (!document.spdxVersion.startsWith('SPDX-2.')) {
+                return `Unsupported SPDX version ${document.spdxVersion}, expected 2.3 or 3.0`
+            }
+            graph = graphFromJson2(document)
+        } else if (Array.isArray(document?.['@graph']) && JSON.stringify(document['@context'] || '').includes('spdx.org/rdf/3.0')) {
+            graph = graphFromJson3(document)
+        } else {
+            return `The document is not an SPDX document`
+        }
+    } else {
+        graph = graphFromTagValue(source)
+    }
+    if (typeof graph === 'string') {
+        return graph
+    }
+
+    const described = graph.relationships
+        .filter(relationship => relationship.type === 'DESCRIBES' && graph.packages.has(relationship.to))
+        .map(relationship => graph.packages.get(relationship.to))
+    const subject = described[0]
+    if (!subject?.name || !subject.version) {
+        return `The document needs to describe a package with a name and a version`
+    }
+
+    // Walk the dependency graph breadth first, so a package takes the relationship closest to the subject
+    const reached = new Map<string, string>([[subject.id, `release`]])
+    const queue = [subject.id]
+    while (queue.length > 0) {
+        const from = queue.shift()
+        for (const relationship of graph.relationships) {
+            const label = componentRelationships[relationship.type]
+            if (relationship.from === from && label && graph.packages.has(relationship.to) && !reached.has(relationship.to)) {
+                reached.set(relationship.to, label)
+                queue.push(relationship.to)
+            }
+        }
+    }
+
+    const components: IngestedPackage[] = []
+    for (const [id, relationship] of reached) {
+        const pkg = graph.packages.get(id)
+        if (id === subject.id) {
+            continue
+        }
+        if (!pkg.name) {
+            return `Package ${id} of the document has no name`
+        }
+        components.push(toPackage(pkg, relationship))
+    }
+
+    const created = graph.created && !isNaN(Date.parse(graph.created)) ? new Date(graph.created).toISOString() : undefined
+    return {
+        subject: toPackage(subject, `release`),
+        components,
+        releaseDate: created
+    }
+}
@@ -0,0 +1,79 @@
+// Transparency Exchange Identifiers, urn:tei:<type>:<domain>:<unique identifier>
+// https://github.com/CycloneDX/transparency-exchange-api/blob/main/discovery/readme.md
+
+// API versions advertised in the /.well-known/tea discovery document
+export const teaApiVersions = ['0.1.0-beta.2']
+
+export const teiTypes = ['uuid', 'purl', 'hash', 'swid', 'eanupc', 'gtin', 'asin', 'udi'] as const
+
+export type TeiType = typeof teiTypes[number];
+
+export interface ParsedTei {
+    tei: string;
+    type: TeiType;
+    domain: string;
+    identifier: string;
+}
+
+// Hash algorithms accepted in urn:tei:hash, named as in the artifactChecksum schema
+const teiHashLengths: Record<string, number> = {
+    'SHA-256': 64,
+    'SHA-384': 96,
+    'SHA-512': 128
+}
+
+// Helper function to check the trailing GS1 check digit of an EAN, UPC or GTIN
+function hasValidCheckDigit(digits: string): boolean {
+    let sum = 0
+    for (let i = digits.length - 2, weight = 3; i >= 0; i--, weight = 4 - weight) {
+        sum += parseInt(digits[i]) * weight
+    }
+    return (10 - (sum % 10)) % 10 === parseInt(digits[digits.length - 1])
+}
+
+// Helper function to validate the unique identifier part for a TEI type
+function isValidIdentifier(type: TeiType, identifier: string): boolean {
+    switch (type) {
+        case 'uuid':
+            return /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(identifier)
+        case 'purl':
+            return /^pkg:[A-Za-z.+-][A-Za-z0-9.+-]*\/.+/.test(identifier)
+        case 'hash': {
+            const separator = identifier.indexOf(':')
+            const algorithm = identifier.slice(0, separator)
+            const value = identifier.slice(separator + 1)
+            return separator > 0 && teiHashLengths[algorithm] === value.length && /^[0-9a-f]+$/i.test(value)
+        }
+        case 'eanupc':
+            return /^([0-9]{12}|[0-9]{13})$/.test(identifier) && hasValidCheckDigit(identifier)
+        case 'gtin':
+            return /^([0-9]{8}|[0-9]{12}|[0-9]{13}|[0-9]{14})$/.test(identifier) && hasValidCheckDigit(identifier)
+        case 'asin':
+            return /^[A-Z0-9]{10}$/.test(identifier)
+        case 'swid':
+        case 'udi':
+            return identifier.length > 0
+    }
+}
+
+// Parse a TEI, returning null when it is not a well-formed TEI of a known type.
+// The unique identifier may itself contain ':', so only the first four separators are significant.
+export function parseTei(tei: string): ParsedTei | null {
+    const match = /^urn:tei:([a-z]+):([^:]+):(.+)$/i.exec(tei)
+    if (!match) {
+        return null
+    }
+    const type = match[1].toLowerCase() as TeiType
+    const domain = match[2].toLowerCase()
+    const identifier = match[3]
+    if (!teiTypes.includes(type)) {
+        return null
+    }
+    if (!/^(?=.{1,253}$)([a-z0-9]([a-z0-9-]{0,61}[a-z0-9])?\.)+[a-z]{2,63}$/.test(domain)) {
+        return null
+    }
+    if (!isValidIdentifier(type, identifier)) {
+        return null
+    }
+    return { tei: `urn:tei:${type}:${domain}:${identifier}`, type, domain, identifier }
+}
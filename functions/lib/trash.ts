@@ -0,0 +1,214 @@
+import type { Prisma, PrismaClient } from "@prisma/client";
+import type { TeaTrashItem } from "../types";
+import { deleteCollections } from "./collections";
+import { deleteUnusedIdentifiers } from "./identifiers";
+
+// Deleting a product, component, release or collection moves it to the trash instead of removing it. Rows in the
+// trash carry the time and subject of their deletion, are hidden from every endpoint but the trash and restore ones,
+// and are purged for good once they have been in the trash for TRASH_RETENTION_DAYS. Rows deleted along with
+// another, the releases of a product and the collections of those, share its deletedAt and are restored with it.
+// Rows in the trash keep their identifiers, so restoring one never conflicts with products or components created since.
+
+export const trashTypes: TeaTrashItem['type'][] = ['product', 'component', 'release', 'collection']
+
+// Days rows stay in the trash when TRASH_RETENTION_DAYS is not set
+const DEFAULT_RETENTION_DAYS = 30
+// Most rows of each type purged after one request, a larger backlog is worked off by later requests
+const PURGE_BATCH = 20
+// Avoid D1 queries for expired rows on every request, only look once per interval
+const PURGE_INTERVAL_SECONDS = 3600
+
+// When this isolate last looked for rows to purge, by organization
+const lastPurgeChecks = new Map<string, number>()
+
+// Where clause of rows that are not in the trash
+export const notDeleted = { deletedAt: null }
+
+// Helper function to read the retention window of the trash in seconds
+export function trashRetention(env: Env): number {
+    const days = parseInt(env.TRASH_RETENTION_DAYS || '')
+    return (isNaN(days) || days < 0 ? DEFAULT_RETENTION_DAYS : days) * 86400
+}
+
+// Move releases to the trash along with their collections, which share their UUIDs
+export async function trashReleases(tx: Prisma.TransactionClient, releaseUuids: string[], deletedBy: string, now: number): Promise<void> {
+    await tx.teaCollection.updateMany({
+        where: {
+            uuid: { in: releaseUuids },
+            ...notDeleted
+        },
+        data: {
+            deletedAt: now,
+            deletedBy
+        }
+    })
+    await tx.teaRelease.updateMany({
+        where: {
+            uuid: { in: releaseUuids },
+            ...notDeleted
+        },
+        data: {
+            deletedAt: now,
+            deletedBy
+        }
+    })
+}
+
+// Restore releases along with the collections deleted at the same time
+export async function restoreReleases(tx: Prisma.TransactionClient, releaseUuids: string[], deletedAt: number): Promise<void> {
+    await tx.teaCollection.updateMany({
+        where: {
+            uuid: { in: releaseUuids },
+            deletedAt
+        },
+        data: {
+            deletedAt: null,
+            deletedBy: null
+        }
+    })
+    await tx.teaRelease.updateMany({
+        where: {
+            uuid: { in: releaseUuids },
+            deletedAt
+        },
+        data: {
+            deletedAt: null,
+            deletedBy: null
+        }
+    })
+}
+
+// Remove releases for good, with their component relationships, vulnerability statements and collections
+export async function purgeReleases(tx: Prisma.TransactionClient, releaseUuids: string[]): Promise<void> {
+    await tx.teaReleaseComponent.deleteMany({
+        where: {
+            releaseUuid: { in: releaseUuids }
+        }
+    })
+    await tx.teaVulnerabilityStatement.deleteMany({
+        where: {
+            releaseUuid: { in: releaseUuids }
+        }
+    })
+    // Collections share the UUID of their release
+    await deleteCollections(tx, releaseUuids)
+    await tx.teaRelease.deleteMany({
+        where: {
+            uuid: { in: releaseUuids }
+        }
+    })
+}
+
+// Remove products for good, with their component relationships, releases and trusted keys
+export async function purgeProducts(tx: Prisma.TransactionClient, productUuids: string[]): Promise<void> {
+    await tx.teaProductComponent.deleteMany({
+        where: {
+            productUuid: { in: productUuids }
+        }
+    })
+    const releases = await tx.teaRelease.findMany({
+        where: {
+            productUuid: { in: productUuids }
+        },
+        select: {
+            uuid: true
+        }
+    })
+    await purgeReleases(tx, releases.map(release => release.uuid))
+    // Signed artifacts keep their verification, but no longer name the keys of the product
+    await tx.teaArtifactFormat.updateMany({
+        where: {
+            signatureKey: { productUuid: { in: productUuids } }
+        },
+        data: {
+            signatureKeyUuid: null
+        }
+    })
+    await tx.teaTrustedKey.deleteMany({
+        where: {
+            productUuid: { in: productUuids }
+        }
+    })
+    await tx.teaProduct.deleteMany({
+        where: {
+            uuid: { in: productUuids }
+        }
+    })
+}
+
+// Remove components for good, with their product and release relationships and vulnerability statements
+export async function purgeComponents(tx: Prisma.TransactionClient, componentUuids: string[]): Promise<void> {
+    await tx.teaProductComponent.deleteMany({
+        where: {
+            componentUuid: { in: componentUuids }
+        }
+    })
+    await tx.teaReleaseComponent.deleteMany({
+        where: {
+            componentUuid: { in: componentUuids }
+        }
+    })
+    await tx.teaVulnerabilityStatement.deleteMany({
+        where: {
+            componentUuid: { in: componentUuids }
+        }
+    })
+    await tx.teaComponent.deleteMany({
+        where: {
+            uuid: { in: componentUuids }
+        }
+    })
+}
+
+// Purge the rows of an organization that have been in the trash longer than the retention window, products first
+// so their releases and collections go with them
+export async function purgeTrash(prisma: PrismaClient, env: Env, organizationUuid: string): Promise<void> {
+    const expired = {
+        organizationUuid,
+        deletedAt: { lte: Math.floor(Date.now() / 1000) - trashRetention(env) }
+    }
+    const select = {
+        uuid: true
+    }
+    await prisma.$transaction(async (tx) => {
+        const products = await tx.teaProduct.findMany({ where: expired, select, take: PURGE_BATCH })
+        await purgeProducts(tx, products.map(product => product.uuid))
+
+        const releases = await tx.teaRelease.findMany({ where: expired, select, take: PURGE_BATCH })
+        await purgeReleases(tx, releases.map(release => release.uuid))
+
+        const collections = await tx.teaCollection.findMany({ where: expired, select, take: PURGE_BATCH })
+        await deleteCollections(tx, collections.map(collection => collection.uuid))
+
+        const components = await tx.teaComponent.findMany({ where: expired, select, take: PURGE_BATCH })
+        await purgeComponents(tx, components.map(component => component.uuid))
+
+        // Records of identifiers only the purged products and components carried are unused now
+        if (products.length > 0 || components.length > 0) {
+            await deleteUnusedIdentifiers(tx, organizationUuid)
+        }
+    })
+}
+
+// Whether a request of an organization should look for its rows to purge once it is answered, at most once per interval
+export function purgeDue(organizationUuid: string): boolean {
+    const now = Math.floor(Date.now() / 1000)
+    if (now - (lastPurgeChecks.get(organizationUuid) ?? 0) < PURGE_INTERVAL_SECONDS) {
+        return false
+    }
+    lastPurgeChecks.set(organizationUuid, now)
+    return true
+}
+
+// Transform a row in the trash to the API format
+export function toTrashItem(type: TeaTrashItem['type'], row: { uuid: string, name: string | null, deletedAt: number | null, deletedBy: string | null }, productUuid: string | null, retention: number): TeaTrashItem {
+    return {
+        type,
+        identifier: row.uuid,
+        name: row.name ?? undefined,
+        productIdentifier: productUuid ?? undefined,
+        deletedAt: new Date(row.deletedAt! * 1000).toISOString(),
+        deletedBy: row.deletedBy ?? undefined,
+        purgeAt: new Date((row.deletedAt! + retention) * 1000).toISOString()
+    }
+}
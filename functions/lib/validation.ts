@@ -0,0 +1,181 @@
+import { dereference, encodePointer, validate, type OutputUnit, type Schema } from "@cfworker/json-schema";
+import type { TeaViolation } from "../types";
+import { loadOpenApiDocument, type OpenApiDocument } from "./openapi";
+
+// Base URI of the merged document, local $refs of the specs resolve against it
+const documentId = 'https://tea.invalid/openapi.json'
+
+const methods = ['get', 'put', 'post', 'delete', 'options', 'head', 'patch', 'trace']
+
+// Keywords reporting that a subschema failed, the failing subschema reports the actual problem
+const wrapperKeywords = ['$ref', 'properties', 'items', 'prefixItems', 'allOf', 'additionalProperties']
+
+interface SpecOperation {
+    pattern: RegExp;
+    parameterNames: string[];
+    method: string;
+    parameters: Record<string, any>[];
+    requestBody?: Record<string, any>;
+}
+
+interface CompiledSpec {
+    lookup: Record<string, Schema | boolean>;
+    operations: SpecOperation[];
+}
+
+// Compiled once per merged document
+const compiledSpecs = new WeakMap<OpenApiDocument, CompiledSpec>()
+
+// Helper function to follow an OpenAPI $ref to the object it points to
+function resolve(lookup: Record<string, Schema | boolean>, node: any): any {
+    while (node && typeof node.$ref === 'string' && node.$ref.startsWith('#')) {
+        node = lookup[`${documentId}${node.$ref}`]
+    }
+    return node
+}
+
+// Helper function to resolve a list of parameters. dereference() does not descend into parameter lists,
+// so the schemas of inline parameters are added to the lookup here.
+function indexParameters(lookup: Record<string, Schema | boolean>, parameters: Record<string, any>[] | undefined, basePointer: string): Record<string, any>[] {
+    return (parameters || []).map((parameter, i) => {
+        const pointer = `${basePointer}/parameters/${i}/schema`
+        if (parameter.schema && !parameter.$ref && lookup[`${documentId}#${pointer}`] === undefined) {
+            dereference(parameter.schema, lookup, new URL(documentId), pointer)
+        }
+        return resolve(lookup, parameter)
+    })
+}
+
+// Index the operations of the document by path template. Templates without parameters come first, so
+// /apikey/{uuid}/rotate is not taken for an unknown operation on /apikey/{uuid}.
+function compileSpec(document: OpenApiDocument): CompiledSpec {
+    // dereference() annotates the schemas it visits, keep the served document untouched
+    const copy = structuredClone(document)
+    const lookup = dereference({ ...copy, $id: documentId } as Schema)
+    const operations: SpecOperation[] = []
+
+    for (const [path, pathItem] of Object.entries<Record<string, any>>(copy.paths || {})) {
+        const parameterNames: string[] = []
+        const pattern = new RegExp(`^${path.replace(/[.*+?^$()|[\]\\]/g, '\\$&').replace(/\{([^}]+)\}/g, (_, name) => {
+            parameterNames.push(name)
+            return '([^/]+)'
+        })}$`)
+        for (const method of methods.filter(method => pathItem[method])) {
+            const operation = pathItem[method]
+            // Operation parameters override path item parameters with the same name and location
+            const parameters = new Map<string, Record<string, any>>()
+            for (const parameter of [
+                ...indexParameters(lookup, pathItem.parameters, `/paths/${encodePointer(path)}`),
+                ...indexParameters(lookup, operation.parameters, `/paths/${encodePointer(path)}/${method}`)
+            ]) {
+                parameters.set(`${parameter.in}:${parameter.name}`, parameter)
+            }
+            operations.push({
+                pattern,
+                parameterNames,
+                method,
+                parameters: [...parameters.values()],
+                requestBody: resolve(lookup, operation.requestBody)
+            })
+        }
+    }
+    operations.sort((a, b) => a.parameterNames.length - b.parameterNames.length)
+
+    return { lookup, operations }
+}
+
+// Helper function to convert a query or path parameter to the type its schema expects
+function coerceParameter(lookup: Record<string, Schema | boolean>, schema: any, value: string): unknown {
+    const resolved = resolve(lookup, schema) || {}
+    const types = Array.isArray(resolved.type) ? resolved.type : [resolved.type]
+    if ((types.includes('integer') || types.includes('number')) && /^-?[0-9]+(\.[0-9]+)?$/.test(value)) {
+        return Number(value)
+    }
+    if (types.includes('boolean') && (value === 'true' || value === 'false')) {
+        return value === 'true'
+    }
+    return value
+}
+
+// Helper function to turn the output of the validator into violations with JSON pointers (RFC 6901)
+function toViolations(location: TeaViolation['in'], basePointer: string, errors: OutputUnit[]): TeaViolation[] {
+    return errors
+        .filter(error => !wrapperKeywords.includes(error.keyword))
+        // The alternatives of a failed oneOf or anyOf are reported as one violation
+        .filter(error => !/\/(oneOf|anyOf)\/[0-9]+\//.test(error.keywordLocation))
+        .map(error => {
+            let pointer = basePointer + decodeURI(error.instanceLocation.replace(/^#/, ''))
+            // Point at the missing property rather than at the object lacking it
+            const missing = error.keyword === 'required' && /"([^"]+)"/.exec(error.error)
+            if (missing) {
+                pointer += `/${missing[1].replace(/~/g, '~0').replace(/\//g, '~1')}`
+            }
+            return { in: location, pointer, message: error.error }
+        })
+}
+
+// Validate the path, query parameters and JSON body of a request against the operation of the OpenAPI
+// specs it targets. Requests for paths or methods absent from the specs are not validated.
+export async function validateRequest(env: Env, request: Request): Promise<TeaViolation[]> {
+    const url = new URL(request.url)
+    const document = await loadOpenApiDocument(env, url.origin)
+    let spec = compiledSpecs.get(document)
+    if (!spec) {
+        spec = compileSpec(document)
+        compiledSpecs.set(document, spec)
+    }
+    const { lookup } = spec
+
+    const method = request.method.toLowerCase()
+    let match: RegExpExecArray | null = null
+    const operation = spec.operations.find(operation => operation.method === method && (match = operation.pattern.exec(url.pathname)))
+    if (!operation || !match) {
+        return []
+    }
+    const pathValues = match as RegExpExecArray
+
+    const violations: TeaViolation[] = []
+
+    for (const parameter of operation.parameters) {
+        if (parameter.in !== 'path' && parameter.in !== 'query') {
+            continue
+        }
+        const value = parameter.in === 'path'
+            ? decodeURIComponent(pathValues[operation.parameterNames.indexOf(parameter.name) + 1] ?? '')
+            : url.searchParams.get(parameter.name)
+        const pointer = `/${parameter.name}`
+        if (value === null || value === '') {
+            if (parameter.required) {
+                violations.push({ in: parameter.in, pointer, message: `Missing required parameter: ${parameter.name}` })
+            }
+            continue
+        }
+        if (parameter.schema) {
+            const result = validate(coerceParameter(lookup, parameter.schema, value), parameter.schema, '2020-12', lookup, false)
+            violations.push(...toViolations(parameter.in, pointer, result.errors))
+        }
+    }
+
+    // Only JSON bodies are described by schemas, uploads are streamed as they are
+    const schema = operation.requestBody?.content?.['application/json']?.schema
+    if (schema) {
+        const text = await request.clone().text()
+        if (!text) {
+            if (operation.requestBody?.required) {
+                violations.push({ in: 'body', pointer: '', message: `Request body is required` })
+            }
+        } else {
+            let body: unknown
+            try {
+                body = JSON.parse(text)
+            } catch {
+                violations.push({ in: 'body', pointer: '', message: `Request body is not valid JSON` })
+                return violations
+            }
+            const result = validate(body, schema, '2020-12', lookup, false)
+            violations.push(...toViolations('body', '', result.errors))
+        }
+    }
+
+    return violations
+}
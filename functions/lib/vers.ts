@@ -0,0 +1,102 @@
+// Version ranges in the vers syntax, vers:<versioning-scheme>/<version-constraint>|<version-constraint>...
+// https://github.com/package-url/purl-spec/blob/main/VERSION-RANGE-SPEC.rst
+
+import { compareVersions, type VersionScheme } from "./versions";
+
+export type VersComparator = '=' | '!=' | '<' | '<=' | '>' | '>=';
+
+export interface VersConstraint {
+    comparator: VersComparator;
+    version: string;
+}
+
+export interface VersRange {
+    scheme: string;
+    // Empty when the range contains every version, vers:<scheme>/*
+    constraints: VersConstraint[];
+}
+
+// Longer comparators first, so '>=' is not read as '>' followed by a version starting with '='
+const comparators: VersComparator[] = ['>=', '<=', '!=', '<', '>', '=']
+
+// Parse a vers range, null when it is malformed. Spaces are ignored and versions are percent-decoded.
+export function parseVers(value: string): VersRange | null {
+    const match = /^vers:([a-z][a-z0-9.+-]*)\/(.+)$/i.exec(value.replace(/\s+/g, ''))
+    if (!match) {
+        return null
+    }
+    const scheme = match[1].toLowerCase()
+    if (match[2] === '*') {
+        return { scheme, constraints: [] }
+    }
+
+    const constraints: VersConstraint[] = []
+    try {
+        for (const constraint of match[2].split('|')) {
+            const comparator = comparators.find(comparator => constraint.startsWith(comparator)) ?? '='
+            const version = decodeURIComponent(constraint.slice(constraint.startsWith(comparator) ? comparator.length : 0))
+            if (!version || version === '*') {
+                return null
+            }
+            constraints.push({ comparator, version })
+        }
+    } catch {
+        // decodeURIComponent throws on malformed escapes
+        return null
+    }
+    return { scheme, constraints }
+}
+
+// Helper function to check a version against a single constraint
+function satisfies(scheme: VersionScheme, version: string, constraint: VersConstraint): boolean {
+    const difference = compareVersions(scheme, version, constraint.version)
+    switch (constraint.comparator) {
+        case '=': return difference === 0
+        case '!=': return difference !== 0
+        case '<': return difference < 0
+        case '<=': return difference <= 0
+        case '>': return difference > 0
+        case '>=': return difference >= 0
+    }
+}
+
+// Check whether a version is contained in a range, comparing versions in the given scheme. Follows the
+// algorithm of the vers specification: equal and not-equal constraints decide first, the other constraints
+// sorted by version form the open ends and the intervals of the range.
+export function versContains(range: VersRange, scheme: VersionScheme, version: string): boolean {
+    if (range.constraints.length === 0) {
+        return true
+    }
+    for (const constraint of range.constraints) {
+        if (constraint.comparator === '=' && satisfies(scheme, version, constraint)) {
+            return true
+        }
+        if (constraint.comparator === '!=' && !satisfies(scheme, version, constraint)) {
+            return false
+        }
+    }
+
+    const bounds = range.constraints
+        .filter(constraint => constraint.comparator !== '=' && constraint.comparator !== '!=')
+        .sort((a, b) => compareVersions(scheme, a.version, b.version))
+    // A range of only != constraints contains every version not excluded
+    if (bounds.length === 0) {
+        return range.constraints.every(constraint => constraint.comparator === '!=')
+    }
+    for (let i = 0; i < bounds.length; i++) {
+        const current = bounds[i]
+        const lower = current.comparator === '>' || current.comparator === '>='
+        if (i === 0 && !lower && satisfies(scheme, version, current)) {
+            return true
+        }
+        if (i === bounds.length - 1 && lower && satisfies(scheme, version, current)) {
+            return true
+        }
+        const next = bounds[i + 1]
+        if (lower && next && (next.comparator === '<' || next.comparator === '<=')
+            && satisfies(scheme, version, current) && satisfies(scheme, version, next)) {
+            return true
+        }
+    }
+    return false
+}
@@ -0,0 +1,360 @@
+// Version comparison in the versioning schemes of package ecosystems. Each comparison returns a negative
+// number, zero or a positive number as the first version is lower than, equal to or greater than the second.
+
+export type VersionScheme = 'semver' | 'maven' | 'pypi' | 'debian' | 'rpm' | 'generic';
+
+// Versioning scheme of the purl types of products and components
+const typeSchemes: Record<string, VersionScheme> = {
+    cargo: 'semver',
+    composer: 'semver',
+    golang: 'semver',
+    hex: 'semver',
+    npm: 'semver',
+    nuget: 'semver',
+    pub: 'semver',
+    swift: 'semver',
+    maven: 'maven',
+    pypi: 'pypi',
+    deb: 'debian',
+    rpm: 'rpm'
+}
+
+// Versioning schemes of vers, named after purl types or after the scheme itself
+const versSchemes: Record<string, VersionScheme> = {
+    ...typeSchemes,
+    semver: 'semver',
+    debian: 'debian'
+}
+
+// The versioning scheme of a purl type, null for types without a known scheme
+export function schemeForType(type: string | null | undefined): VersionScheme | null {
+    return type ? typeSchemes[type.toLowerCase()] ?? null : null
+}
+
+// The versioning scheme of a vers scheme, generic for schemes without a known comparison
+export function schemeForVers(scheme: string): VersionScheme {
+    return versSchemes[scheme.toLowerCase()] ?? 'generic'
+}
+
+// Helper function to compare two numbers or two strings
+function compareValues(a: number | string, b: number | string): number {
+    return a < b ? -1 : a > b ? 1 : 0
+}
+
+// Helper function to compare versions segment by segment, numerically where both segments are numbers.
+// Used for schemes without their own rules and for versions a scheme cannot parse.
+function compareGeneric(a: string, b: string): number {
+    const left = a.split(/[.\-_+~]/)
+    const right = b.split(/[.\-_+~]/)
+    for (let i = 0; i < Math.max(left.length, right.length); i++) {
+        const l = left[i] ?? ''
+        const r = right[i] ?? ''
+        const difference = /^[0-9]+$/.test(l) && /^[0-9]+$/.test(r) ? parseInt(l) - parseInt(r) : compareValues(l, r)
+        if (difference !== 0) {
+            return difference
+        }
+    }
+    return 0
+}
+
+// Semantic Versioning 2.0.0, https://semver.org. Missing minor and patch numbers are read as 0 and a leading
+// 'v' is ignored, build metadata does not take part in the comparison.
+function compareSemver(a: string, b: string): number {
+    const pattern = /^v?([0-9]+)(?:\.([0-9]+))?(?:\.([0-9]+))?(?:-([0-9A-Za-z.-]+))?(?:\+[0-9A-Za-z.-]+)?$/
+    const left = pattern.exec(a.trim())
+    const right = pattern.exec(b.trim())
+    if (!left || !right) {
+        return compareGeneric(a, b)
+    }
+    for (let i = 1; i <= 3; i++) {
+        const difference = parseInt(left[i] || '0') - parseInt(right[i] || '0')
+        if (difference !== 0) {
+            return difference
+        }
+    }
+    // A pre-release is lower than the release
+    if (!left[4] || !right[4]) {
+        return left[4] ? -1 : right[4] ? 1 : 0
+    }
+    const leftIds = left[4].split('.')
+    const rightIds = right[4].split('.')
+    for (let i = 0; i < Math.max(leftIds.length, rightIds.length); i++) {
+        if (leftIds[i] === undefined || rightIds[i] === undefined) {
+            return leftIds[i] === undefined ? -1 : 1
+        }
+        const leftNumeric = /^[0-9]+$/.test(leftIds[i])
+        const rightNumeric = /^[0-9]+$/.test(rightIds[i])
+        // Numeric identifiers are lower than alphanumeric ones
+        const difference = leftNumeric && rightNumeric
+            ? parseInt(leftIds[i]) - parseInt(rightIds[i])
+            : leftNumeric !== rightNumeric ? (leftNumeric ? -1 : 1) : compareValues(leftIds[i], rightIds[i])
+        if (difference !== 0) {
+            return difference
+        }
+    }
+    return 0
+}
+
+// Order of the well-known Maven qualifiers, an empty qualifier is the release itself
+const mavenQualifiers: Record<string, number> = {
+    alpha: 0, a: 0,
+    beta: 1, b: 1,
+    milestone: 2, m: 2,
+    rc: 3, cr: 3,
+    snapshot: 4,
+    '': 5, ga: 5, final: 5, release: 5,
+    sp: 6
+}
+
+// Helper function to split a Maven version into numbers and qualifiers, at separators and at transitions
+// between digits and letters
+function mavenTokens(version: string): (number | string)[] {
+    const tokens = version.toLowerCase().match(/[0-9]+|[a-z]+/g) || []
+    const parsed = tokens.map(token => /^[0-9]/.test(token) ? parseInt(token) : token)
+    // Trailing zeros and release qualifiers do not change a version, 1.0 equals 1.0.0 and 1-ga
+    while (parsed.length > 0 && (parsed[parsed.length - 1] === 0 || mavenQualifiers[parsed[parsed.length - 1]] === 5)) {
+        parsed.pop()
+    }
+    return parsed
+}
+
+// Helper function to compare two tokens of Maven versions, a missing token compares like 0 or the release
+function compareMavenTokens(a: number | string | undefined, b: number | string | undefined): number {
+    if (typeof a === 'number' && typeof b === 'number') {
+        return a - b
+    }
+    if (typeof a === 'number' || typeof b === 'number') {
+        // Numbers are greater than qualifiers, and compare with a missing token like with 0
+        if (a === undefined) return (b as number) > 0 ? -1 : 0
+        if (b === undefined) return (a as number) > 0 ? 1 : 0
+        return typeof a === 'number' ? 1 : -1
+    }
+    const rankA = mavenQualifiers[a ?? ''] ?? 7
+    const rankB = mavenQualifiers[b ?? ''] ?? 7
+    return rankA !== rankB ? rankA - rankB : compareValues(a ?? '', b ?? '')
+}
+
+// Maven versions, following the ordering of ComparableVersion:
+// alpha < beta < milestone < rc < snapshot < release < sp < other qualifiers < numbers
+function compareMaven(a: string, b: string): number {
+    const left = mavenTokens(a)
+    const right = mavenTokens(b)
+    for (let i = 0; i < Math.max(left.length, right.length); i++) {
+        const difference = compareMavenTokens(left[i], right[i])
+        if (difference !== 0) {
+            return difference
+        }
+    }
+    return 0
+}
+
+interface Pep440Version {
+    epoch: number;
+    release: number[];
+    pre: [number, number] | null;
+    post: number | null;
+    dev: number | null;
+    local: string | null;
+}
+
+// Helper function to parse a version following PEP 440, in its normalized and alternative spellings
+function parsePep440(version: string): Pep440Version | null {
+    const match = /^v?(?:([0-9]+)!)?([0-9]+(?:\.[0-9]+)*)(?:[-_.]?(a|b|c|rc|alpha|beta|pre|preview)[-_.]?([0-9]*))?(?:-([0-9]+)|[-_.]?(post|rev|r)[-_.]?([0-9]*))?(?:[-_.]?(dev)[-_.]?([0-9]*))?(?:\+([a-z0-9]+(?:[-_.][a-z0-9]+)*))?$/.exec(version.trim().toLowerCase())
+    if (!match) {
+        return null
+    }
+    const release = match[2].split('.').map(part => parseInt(part))
+    while (release.length > 1 && release[release.length - 1] === 0) {
+        release.pop()
+    }
+    const preRanks: Record<string, number> = { a: 0, alpha: 0, b: 1, beta: 1, c: 2, rc: 2, pre: 2, preview: 2 }
+    return {
+        epoch: parseInt(match[1] || '0'),
+        release,
+        pre: match[3] ? [preRanks[match[3]], parseInt(match[4] || '0')] : null,
+        post: match[5] ? parseInt(match[5]) : match[6] ? parseInt(match[7] || '0') : null,
+        dev: match[8] ? parseInt(match[9] || '0') : null,
+        local: match[10] ?? null
+    }
+}
+
+// Python package versions (PEP 440): epoch, release, then dev < pre-release < release < post-release
+function comparePypi(a: string, b: string): number {
+    const left = parsePep440(a)
+    const right = parsePep440(b)
+    if (!left || !right) {
+        return compareGeneric(a, b)
+    }
+    // Sort keys as in the packaging library, a dev release without pre- or post-release sorts before pre-releases
+    const key = (v: Pep440Version): number[] => [
+        ...(v.pre ? v.pre : v.post === null && v.dev !== null ? [-Infinity, 0] : [Infinity, 0]),
+        v.post ?? -Infinity,
+        v.dev ?? Infinity
+    ]
+    if (left.epoch !== right.epoch) {
+        return left.epoch - right.epoch
+    }
+    for (let i = 0; i < Math.max(left.release.length, right.release.length); i++) {
+        const difference = (left.release[i] ?? 0) - (right.release[i] ?? 0)
+        if (difference !== 0) {
+            return difference
+        }
+    }
+    const leftKey = key(left)
+    const rightKey = key(right)
+    for (let i = 0; i < leftKey.length; i++) {
+        if (leftKey[i] !== rightKey[i]) {
+            return leftKey[i] < rightKey[i] ? -1 : 1
+        }
+    }
+    // A local version label sorts after the same version without one
+    return compareValues(left.local ?? '', right.local ?? '')
+}
+
+// Helper function to order a character of a Debian version, '~' before anything, even the end of the
+// version, and letters before other characters
+function debianOrder(char: string | undefined): number {
+    if (char === undefined || /[0-9]/.test(char)) return 0
+    if (char === '~') return -1
+    if (/[A-Za-z]/.test(char)) return char.charCodeAt(0)
+    return char.charCodeAt(0) + 256
+}
+
+// Helper function implementing verrevcmp of dpkg, comparing alternating non-digit and digit parts
+function compareDebianPart(a: string, b: string): number {
+    let i = 0
+    let j = 0
+    while (i < a.length || j < b.length) {
+        let difference = 0
+        while ((i < a.length && !/[0-9]/.test(a[i])) || (j < b.length && !/[0-9]/.test(b[j]))) {
+            const left = debianOrder(a[i])
+            const right = debianOrder(b[j])
+            if (left !== right) {
+                return left - right
+            }
+            i++
+            j++
+        }
+        while (a[i] === '0') i++
+        while (b[j] === '0') j++
+        while (i < a.length && /[0-9]/.test(a[i]) && j < b.length && /[0-9]/.test(b[j])) {
+            if (!difference) {
+                difference = a.charCodeAt(i) - b.charCodeAt(j)
+            }
+            i++
+            j++
+        }
+        if (i < a.length && /[0-9]/.test(a[i])) return 1
+        if (j < b.length && /[0-9]/.test(b[j])) return -1
+        if (difference) return difference
+    }
+    return 0
+}
+
+// Helper function to split a version into epoch, version and release or revision, [epoch:]version[-release]
+function splitEpoch(version: string): [number, string, string] {
+    const colon = version.indexOf(':')
+    const epoch = colon > 0 && /^[0-9]+$/.test(version.slice(0, colon)) ? parseInt(version.slice(0, colon)) : 0
+    const rest = colon > 0 ? version.slice(colon + 1) : version
+    const dash = rest.lastIndexOf('-')
+    return dash > 0 ? [epoch, rest.slice(0, dash), rest.slice(dash + 1)] : [epoch, rest, '']
+}
+
+// Debian package versions, [epoch:]upstream_version[-debian_revision], as compared by dpkg
+function compareDebian(a: string, b: string): number {
+    const [leftEpoch, leftUpstream, leftRevision] = splitEpoch(a.trim())
+    const [rightEpoch, rightUpstream, rightRevision] = splitEpoch(b.trim())
+    return leftEpoch - rightEpoch
+        || compareDebianPart(leftUpstream, rightUpstream)
+        || compareDebianPart(leftRevision, rightRevision)
+}
+
+// Helper function implementing rpmvercmp, comparing alphanumeric segments. '~' sorts before anything and
+// '^' after the end of the version but before anything else.
+function compareRpmPart(a: string, b: string): number {
+    let i = 0
+    let j = 0
+    while (i < a.length || j < b.length) {
+        while (i < a.length && !/[A-Za-z0-9~^]/.test(a[i])) i++
+        while (j < b.length && !/[A-Za-z0-9~^]/.test(b[j])) j++
+
+        if (a[i] === '~' || b[j] === '~') {
+            if (a[i] !== '~') return 1
+            if (b[j] !== '~') return -1
+            i++
+            j++
+            continue
+        }
+        if (a[i] === '^' || b[j] === '^') {
+            if (i >= a.length) return -1
+            if (j >= b.length) return 1
+            if (a[i] !== '^') return 1
+            if (b[j] !== '^') return -1
+            i++
+            j++
+            continue
+        }
+        if (i >= a.length || j >= b.length) {
+            break
+        }
+
+        const numeric = /[0-9]/.test(a[i])
+        const segment = numeric ? /^[0-9]+/ : /^[A-Za-z]+/
+        const left = segment.exec(a.slice(i))?.[0] ?? ''
+        const right = segment.exec(b.slice(j))?.[0] ?? ''
+        i += left.length
+        j += right.length
+        // Segments of different kinds, numbers are newer than letters
+        if (!right) {
+            return numeric ? 1 : -1
+        }
+        if (numeric) {
+            const l = left.replace(/^0+/, '')
+            const r = right.replace(/^0+/, '')
+            if (l.length !== r.length) {
+                return l.length - r.length
+            }
+            const difference = compareValues(l, r)
+            if (difference !== 0) {
+                return difference
+            }
+        } else {
+            const difference = compareValues(left, right)
+            if (difference !== 0) {
+                return difference
+            }
+        }
+    }
+    if (i >= a.length && j >= b.length) {
+        return 0
+    }
+    return i < a.length ? 1 : -1
+}
+
+// RPM package versions, [epoch:]version[-release], as compared by rpm. The release is only compared when
+// both versions have one.
+function compareRpm(a: string, b: string): number {
+    const [leftEpoch, leftVersion, leftRelease] = splitEpoch(a.trim())
+    const [rightEpoch, rightVersion, rightRelease] = splitEpoch(b.trim())
+    return leftEpoch - rightEpoch
+        || compareRpmPart(leftVersion, rightVersion)
+        || (leftRelease && rightRelease ? compareRpmPart(leftRelease, rightRelease) : 0)
+}
+
+// Compare two versions in a versioning scheme
+export function compareVersions(scheme: VersionScheme, a: string, b: string): number {
+    switch (scheme) {
+        case 'semver':
+            return compareSemver(a, b)
+        case 'maven':
+            return compareMaven(a, b)
+        case 'pypi':
+            return comparePypi(a, b)
+        case 'debian':
+            return compareDebian(a, b)
+        case 'rpm':
+            return compareRpm(a, b)
+        case 'generic':
+            return compareGeneric(a, b)
+    }
+}
@@ -0,0 +1,238 @@
+// Reading VEX documents, OpenVEX, CycloneDX VEX in the JSON format and CSAF 2.0 with the csaf_vex profile.
+// Statements are kept in the OpenVEX vocabulary, the statuses and justifications of the other formats are mapped
+// following the CISA minimum requirements for VEX.
+
+export type VexStatus = 'not_affected' | 'affected' | 'fixed' | 'under_investigation';
+
+export type VexFormat = 'openvex' | 'cyclonedx' | 'csaf';
+
+export const vexStatuses: VexStatus[] = ['not_affected', 'affected', 'fixed', 'under_investigation']
+
+export const vexJustifications = [
+    'component_not_present',
+    'vulnerable_code_not_present',
+    'vulnerable_code_not_in_execute_path',
+    'vulnerable_code_cannot_be_controlled_by_adversary',
+    'inline_mitigations_already_exist'
+]
+
+// A statement about one vulnerability in the products it names, by purl, CPE or another identifier
+export interface VexStatement {
+    vulnerabilityId: string;
+    aliases: string[];
+    products: string[];
+    status: VexStatus;
+    justification?: string;
+    impactStatement?: string;
+    actionStatement?: string;
+    timestamp?: string;
+}
+
+export interface VexDocument {
+    format: VexFormat;
+    statements: VexStatement[];
+}
+
+// CycloneDX analysis states and the status they stand for
+const cycloneDxStates: Record<string, VexStatus> = {
+    resolved: 'fixed',
+    resolved_with_pedigree: 'fixed',
+    exploitable: 'affected',
+    in_triage: 'under_investigation',
+    false_positive: 'not_affected',
+    not_affected: 'not_affected'
+}
+
+// CycloneDX analysis justifications and the justification they stand for
+const cycloneDxJustifications: Record<string, string> = {
+    code_not_present: 'vulnerable_code_not_present',
+    code_not_reachable: 'vulnerable_code_not_in_execute_path',
+    requires_configuration: 'vulnerable_code_cannot_be_controlled_by_adversary',
+    requires_dependency: 'vulnerable_code_cannot_be_controlled_by_adversary',
+    requires_environment: 'vulnerable_code_cannot_be_controlled_by_adversary',
+    protected_by_compiler: 'inline_mitigations_already_exist',
+    protected_at_runtime: 'inline_mitigations_already_exist',
+    protected_at_perimeter: 'inline_mitigations_already_exist',
+    protected_by_mitigating_control: 'inline_mitigations_already_exist'
+}
+
+// CSAF product status lists and the status they stand for
+const csafStatuses: Record<string, VexStatus> = {
+    known_not_affected: 'not_affected',
+    known_affected: 'affected',
+    fixed: 'fixed',
+    first_fixed: 'fixed',
+    under_investigation: 'under_investigation'
+}
+
+// Helper function to get an array property, ignoring values of other types
+function list(value: unknown): any[] {
+    return Array.isArray(value) ? value : []
+}
+
+// Helper function to read an OpenVEX document. Products name the affected software by their @id and identifiers,
+// subcomponents the parts of them the statement is about.
+function fromOpenVex(document: any): VexDocument | string {
+    const statements: VexStatement[] = []
+    for (const [i, statement] of list(document.statements).entries()) {
+        // Versions before 0.2.0 gave the vulnerability and products as plain strings
+        const vulnerability = typeof statement.vulnerability === 'string' ? { name: statement.vulnerability } : statement.vulnerability
+        if (!vulnerability?.name || !vexStatuses.includes(statement.status)) {
+            return `Statement ${i} needs a vulnerability name and a valid status`
+        }
+        const products: string[] = []
+        for (const product of list(statement.products)) {
+            if (typeof product === 'string') {
+                products.push(product)
+                continue
+            }
+            for (const element of [product, ...list(product.subcomponents)]) {
+                products.push(...[element['@id'], element.identifiers?.purl, element.identifiers?.cpe23, element.identifiers?.cpe22].filter(id => typeof id === 'string'))
+            }
+        }
+        statements.push({
+            vulnerabilityId: vulnerability.name,
+            aliases: list(vulnerability.aliases).filter(alias => typeof alias === 'string'),
+            products,
+            status: statement.status,
+            justification: vexJustifications.includes(statement.justification) ? statement.justification : undefined,
+            impactStatement: statement.impact_statement,
+            actionStatement: statement.action_statement,
+            timestamp: statement.timestamp || document.timestamp
+        })
+    }
+    return { format: 'openvex', statements }
+}
+
+// Helper function to read the vulnerabilities of a CycloneDX BOM. Affected components are referenced by their
+// bom-ref, or by a BOM-Link to a component of another BOM, and named by the purl or CPE of that component.
+function fromCycloneDx(document: any): VexDocument | string {
+    const references = new Map<string, string[]>()
+    const visit = (components: any[]) => {
+        for (const component of components) {
+            if (component?.['bom-ref']) {
+                references.set(component['bom-ref'], [component.purl, component.cpe].filter(id => typeof id === 'string'))
+            }
+            visit(list(component?.components))
+        }
+    }
+    visit([document.metadata?.component, ...list(document.components)].filter(component => component))
+
+    const statements: VexStatement[] = []
+    for (const [i, vulnerability] of list(document.vulnerabilities).entries()) {
+        if (!vulnerability.id) {
+            return `Vulnerability ${i} needs an id`
+        }
+        // Vulnerabilities without an analysis are reported, as in a VDR, but nothing is stated about them
+        const status = cycloneDxStates[vulnerability.analysis?.state]
+        if (!status) {
+            continue
+        }
+        const products: string[] = []
+        for (const affect of list(vulnerability.affects)) {
+            const ref = String(affect.ref || '')
+            // urn:cdx:<serial>/<version>#<bom-ref>
+            const bomRef = ref.startsWith('urn:cdx:') ? decodeURIComponent(ref.slice(ref.indexOf('#') + 1)) : ref
+            products.push(...(references.get(bomRef) || [bomRef]))
+        }
+        const analysis = vulnerability.analysis
+        statements.push({
+            vulnerabilityId: vulnerability.id,
+            aliases: list(vulnerability.references).map(reference => reference.id).filter(id => typeof id === 'string'),
+            products,
+            status,
+            justification: cycloneDxJustifications[analysis.justification],
+            impactStatement: analysis.detail,
+            actionStatement: list(analysis.response).join(', ') || vulnerability.recommendation,
+            timestamp: analysis.lastUpdated || vulnerability.updated || document.metadata?.timestamp
+        })
+    }
+    return { format: 'cyclonedx', statements }
+}
+
+// Helper function to collect the identifiers of the products of a CSAF product tree by product id. Products are
+// found in the branches, the full product names and the relationships combining two products.
+function csafProducts(tree: any): Map<string, string[]> {
+    const products = new Map<string, string[]>()
+    const add = (product: any) => {
+        if (product?.product_id) {
+            const helper = product.product_identification_helper || {}
+            products.set(product.product_id, [helper.purl, helper.cpe].filter(id => typeof id === 'string'))
+        }
+    }
+    const visit = (branches: any[]) => {
+        for (const branch of branches) {
+            add(branch.product)
+            visit(list(branch.branches))
+        }
+    }
+    visit(list(tree?.branches))
+    list(tree?.full_product_names).forEach(add)
+    // A product installed on a platform stands for the product
+    for (const relationship of list(tree?.relationships)) {
+        if (relationship.full_product_name?.product_id) {
+            products.set(relationship.full_product_name.product_id, products.get(relationship.product_reference) || [])
+        }
+    }
+    return products
+}
+
+// Helper function to read a CSAF document. Each product status list of a vulnerability becomes a statement,
+// flags carry the justifications and threats and remediations the impact and action statements.
+function fromCsaf(document: any): VexDocument | string {
+    const products = csafProducts(document.product_tree)
+    const timestamp = document.document?.tracking?.current_release_date
+    const statements: VexStatement[] = []
+
+    for (const [i, vulnerability] of list(document.vulnerabilities).entries()) {
+        const ids = list(vulnerability.ids).map(id => id.text).filter(id => typeof id === 'string')
+        const vulnerabilityId = vulnerability.cve || ids[0]
+        if (!vulnerabilityId) {
+            return `Vulnerability ${i} needs a cve or an id`
+        }
+        const aliases = ids.filter(id => id !== vulnerabilityId)
+        // Statements split by product, as justifications and remediations are given per product
+        const details = (entries: any[], productId: string) => entries.find(entry => list(entry.product_ids).includes(productId))
+        for (const [statusList, status] of Object.entries(csafStatuses)) {
+            for (const productId of list(vulnerability.product_status?.[statusList])) {
+                const flag = details(list(vulnerability.flags), productId)
+                const threat = details(list(vulnerability.threats).filter(threat => threat.category === 'impact'), productId)
+                const remediation = details(list(vulnerability.remediations), productId)
+                statements.push({
+                    vulnerabilityId,
+                    aliases,
+                    products: [productId, ...(products.get(productId) || [])],
+                    status,
+                    justification: vexJustifications.includes(flag?.label) ? flag.label : undefined,
+                    impactStatement: threat?.details,
+                    actionStatement: status === 'affected' ? remediation?.details : undefined,
+                    timestamp: flag?.date || timestamp
+                })
+            }
+        }
+    }
+    return { format: 'csaf', statements }
+}
+
+// Read a VEX document, returning its statements or a description of the problem
+export function parseVex(source: string): VexDocument | string {
+    let document: any
+    try {
+        document = JSON.parse(source)
+    } catch {
+        return `The VEX document is not valid JSON`
+    }
+    if (typeof document?.['@context'] === 'string' && document['@context'].startsWith('https://openvex.dev/ns')) {
+        return fromOpenVex(document)
+    }
+    if (document?.bomFormat === 'CycloneDX') {
+        return fromCycloneDx(document)
+    }
+    if (document?.document?.csaf_version) {
+        if (document.document.category !== 'csaf_vex') {
+            return `The CSAF document is not of the csaf_vex category`
+        }
+        return fromCsaf(document)
+    }
+    return `The document is not an OpenVEX, CycloneDX or CSAF document`
+}
@@ -0,0 +1,173 @@
+import type { Prisma } from "@prisma/client";
+import type { TeaVulnerabilityStatement } from "../types";
+import { normalizeIdentifierValue } from "./identifiers";
+import { formatPurl, parsePurl } from "./purl";
+import { notDeleted } from "./trash";
+import type { VexDocument, VexStatement } from "./vex";
+
+// Include loading a release with the identifiers VEX statements are matched against
+export const vexReleaseInclude = {
+    product: {
+        select: {
+            name: true,
+            identifiers: {
+                select: { idType: true, idValue: true }
+            }
+        }
+    },
+    // Components in the trash are not matched against statements
+    components: {
+        where: {
+            component: notDeleted
+        },
+        select: {
+            componentUuid: true,
+            component: {
+                select: {
+                    identifiers: {
+                        select: { idType: true, idValue: true }
+                    }
+                }
+            }
+        }
+    }
+} satisfies Prisma.TeaReleaseInclude
+
+export type ReleaseWithIdentifiers = Prisma.TeaReleaseGetPayload<{ include: typeof vexReleaseInclude }>;
+
+export interface RecordedStatements {
+    recorded: number;
+    unchanged: number;
+    unmatched: number;
+}
+
+// Transform a stored statement to the API format
+export function toVulnerabilityResponse(statement: Prisma.TeaVulnerabilityStatementGetPayload<{}>): TeaVulnerabilityStatement {
+    return {
+        uuid: statement.uuid,
+        vulnerabilityId: statement.vulnerabilityId,
+        aliases: JSON.parse(statement.aliases || '[]'),
+        componentIdentifier: statement.componentUuid || undefined,
+        status: statement.status as TeaVulnerabilityStatement['status'],
+        justification: statement.justification || undefined,
+        impactStatement: statement.impactStatement || undefined,
+        actionStatement: statement.actionStatement || undefined,
+        format: statement.format as TeaVulnerabilityStatement['format'],
+        artifactIdentifier: statement.artifactUuid || undefined,
+        timestamp: new Date(statement.statementDate * 1000).toISOString()
+    }
+}
+
+// Helper function to check whether a product named by a statement is one of the identifiers. Purls without a
+// version name every version of the package.
+function namesIdentifier(product: string, identifiers: { idType: string, idValue: string }[]): boolean {
+    const purl = product.startsWith('pkg:') ? parsePurl(product) : null
+    const value = purl ? formatPurl(purl) : product.toLowerCase().startsWith('cpe:') ? normalizeIdentifierValue('cpe', product) : product
+    return identifiers.some(identifier => {
+        if (identifier.idValue === value) {
+            return true
+        }
+        if (purl && !purl.version && identifier.idType === 'purl') {
+            const stored = parsePurl(identifier.idValue)
+            return stored !== null && formatPurl({ ...stored, version: null }) === value
+        }
+        return false
+    })
+}
+
+// Helper function to find what the products of a statement name in a release: components by their identifiers,
+// or the release as a whole, null, by the identifiers of its product
+function statementTargets(statement: VexStatement, release: ReleaseWithIdentifiers): (string | null)[] {
+    const targets = new Set<string | null>()
+    for (const product of statement.products) {
+        const components = release.components.filter(link => namesIdentifier(product, link.component.identifiers))
+        components.forEach(link => targets.add(link.componentUuid))
+        if (components.length === 0 && namesIdentifier(product, release.product.identifiers)) {
+            targets.add(null)
+        }
+    }
+    return [...targets]
+}
+
+// Helper function to read the time of a statement, the time of ingestion when it has none
+function statementDate(statement: VexStatement, now: number): number {
+    const time = statement.timestamp ? Date.parse(statement.timestamp) : NaN
+    return isNaN(time) ? now : Math.floor(time / 1000)
+}
+
+// Record the statements of a VEX document about a release. A statement replaces the stored statement about the
+// same vulnerability and component unless that one is newer. Statements naming nothing in the release are skipped.
+export async function recordStatements(tx: Prisma.TransactionClient, organizationUuid: string, release: ReleaseWithIdentifiers, document: VexDocument, artifactUuid: string, now: number): Promise<RecordedStatements> {
+    // The latest statement per vulnerability and component wins within a document, later ones on equal times
+    const latest = new Map<string, { statement: VexStatement, componentUuid: string | null, date: number }>()
+    let unmatched = 0
+    for (const statement of document.statements) {
+        const targets = statementTargets(statement, release)
+        if (targets.length === 0) {
+            unmatched++
+        }
+        const date = statementDate(statement, now)
+        for (const componentUuid of targets) {
+            const key = `${componentUuid}|${statement.vulnerabilityId}`
+            if (!latest.has(key) || latest.get(key).date <= date) {
+                latest.set(key, { statement, componentUuid, date })
+            }
+        }
+    }
+
+    let recorded = 0
+    let unchanged = 0
+    for (const { statement, componentUuid, date } of latest.values()) {
+        const fields = {
+            aliases: JSON.stringify(statement.aliases),
+            status: statement.status,
+            justification: statement.justification || null,
+            impactStatement: statement.impactStatement || null,
+            actionStatement: statement.actionStatement || null
+        }
+        const existing = await tx.teaVulnerabilityStatement.findFirst({
+            where: {
+                releaseUuid: release.uuid,
+                componentUuid,
+                vulnerabilityId: statement.vulnerabilityId
+            }
+        })
+
+        if (!existing) {
+            await tx.teaVulnerabilityStatement.create({
+                data: {
+                    uuid: crypto.randomUUID(),
+                    organizationUuid,
+                    releaseUuid: release.uuid,
+                    componentUuid,
+                    vulnerabilityId: statement.vulnerabilityId,
+                    ...fields,
+                    format: document.format,
+                    artifactUuid,
+                    statementDate: date,
+                    createdAt: now,
+                    updatedAt: now
+                }
+            })
+            recorded++
+        } else if (existing.statementDate > date || Object.entries(fields).every(([field, value]) => existing[field] === value)) {
+            unchanged++
+        } else {
+            await tx.teaVulnerabilityStatement.update({
+                where: {
+                    uuid: existing.uuid
+                },
+                data: {
+                    ...fields,
+                    format: document.format,
+                    artifactUuid,
+                    statementDate: date,
+                    updatedAt: now
+                }
+            })
+            recorded++
+        }
+    }
+
+    return { recorded, unchanged, unmatched }
+}
@@ -0,0 +1,340 @@
+import { base64url } from 'jose';
+import type { Prisma, PrismaClient } from "@prisma/client";
+import type { TeaCollectionUpdateReason, TeaWebhook, TeaWebhookDelivery, TeaWebhookEventType } from "../types";
+import { toHex } from "./artifacts";
+
+// Webhooks notify subscribers of changes. Handlers queue events in the transaction making the change, creating a
+// pending delivery for every webhook subscribed to the event. Deliveries are posted after the response, failed ones
+// are retried with exponential backoff and are left failed, as dead letters, once they run out of attempts.
+
+export const webhookEventTypes: TeaWebhookEventType[] = [
+    'release.created', 'release.deleted', 'collection.version.added', 'collection.lifecycle.transitioned', 'collection.deleted', 'artifact.added'
+]
+
+export const deliveryStatuses = ['pending', 'delivered', 'failed']
+
+// Deliveries are given up after this many attempts
+const MAX_ATTEMPTS = 8
+// Delay before the first retry, doubled after every further failed attempt
+const RETRY_BASE_SECONDS = 30
+// A receiver must answer within this time, or the attempt fails
+const DELIVERY_TIMEOUT_MS = 10000
+// A delivery claimed by one request is left alone by others for this long
+const CLAIM_SECONDS = 60
+// Most deliveries posted after one request, a larger backlog is worked off by later requests
+const DELIVERY_BATCH = 20
+// Avoid a D1 query for due retries on every request, only look once per interval
+const RETRY_INTERVAL_SECONDS = 30
+
+// When this isolate last looked for deliveries that are due
+let lastRetryCheck = 0
+
+export interface WebhookEvent {
+    type: TeaWebhookEventType;
+    productUuids: string[];
+    data: Record<string, unknown>;
+}
+
+type StoredWebhook = Awaited<ReturnType<PrismaClient['teaWebhook']['findUnique']>>;
+
+type StoredDelivery = Awaited<ReturnType<PrismaClient['teaWebhookDelivery']['findUnique']>>;
+
+// Generate the secret signing the deliveries of a webhook, the receiver verifies deliveries with it
+export function generateWebhookSecret(): string {
+    return `whsec_${base64url.encode(crypto.getRandomValues(new Uint8Array(32)))}`
+}
+
+// Check the URL of a webhook, returning a description of the problem when deliveries cannot be posted to it
+export function invalidWebhookUrl(value: unknown): string | null {
+    if (typeof value !== 'string') {
+        return `url must be a string`
+    }
+    let url: URL
+    try {
+        url = new URL(value)
+    } catch {
+        return `url must be an absolute URL`
+    }
+    // Deliveries hold the signature and the event, both must not travel in the clear
+    if (url.protocol !== 'https:') {
+        return `url must use https`
+    }
+    if (url.username || url.password) {
+        return `url must not contain credentials`
+    }
+    return null
+}
+
+// Check the event types a webhook subscribes to, returning a description of the problem when they are invalid
+export function invalidWebhookEvents(events: unknown): string | null {
+    if (!Array.isArray(events) || events.length === 0) {
+        return `events must be a non-empty array`
+    }
+    const unknown = events.find(event => !webhookEventTypes.includes(event))
+    if (unknown !== undefined) {
+        return `Unknown event type ${unknown}, expected one of: ${webhookEventTypes.join(', ')}`
+    }
+    return null
+}
+
+// Transform a stored webhook to the API format, the secret is only returned when the webhook is created
+export function toWebhookResponse(webhook: StoredWebhook): TeaWebhook {
+    return {
+        identifier: webhook.uuid,
+        name: webhook.name,
+        url: webhook.url,
+        events: JSON.parse(webhook.events),
+        products: webhook.products ? JSON.parse(webhook.products) : undefined,
+        active: webhook.active,
+        createdBy: webhook.createdBy,
+        createdAt: new Date(webhook.createdAt * 1000).toISOString(),
+        updatedAt: new Date(webhook.updatedAt * 1000).toISOString()
+    }
+}
+
+// Transform a stored delivery to the API format
+export function toDeliveryResponse(delivery: StoredDelivery): TeaWebhookDelivery {
+    return {
+        identifier: delivery.uuid,
+        webhookIdentifier: delivery.webhookUuid,
+        eventIdentifier: delivery.eventUuid,
+        eventType: delivery.eventType as TeaWebhookEventType,
+        status: delivery.status as TeaWebhookDelivery['status'],
+        attempts: delivery.attempts,
+        nextAttemptAt: delivery.nextAttemptAt ? new Date(delivery.nextAttemptAt * 1000).toISOString() : undefined,
+        lastAttemptAt: delivery.lastAttemptAt ? new Date(delivery.lastAttemptAt * 1000).toISOString() : undefined,
+        lastResponseStatus: delivery.lastResponseStatus ?? undefined,
+        lastError: delivery.lastError ?? undefined,
+        deliveredAt: delivery.deliveredAt ? new Date(delivery.deliveredAt * 1000).toISOString() : undefined,
+        createdAt: new Date(delivery.createdAt * 1000).toISOString(),
+        payload: JSON.parse(delivery.payload)
+    }
+}
+
+// Event of a release being created or deleted
+export function releaseEvent(type: 'release.created' | 'release.deleted', release: { uuid: string, productUuid: string, version: string }): WebhookEvent {
+    return {
+        type,
+        productUuids: [release.productUuid],
+        data: {
+            releaseIdentifier: release.uuid,
+            productIdentifier: release.productUuid,
+            version: release.version
+        }
+    }
+}
+
+// Events of a new collection version, with an artifact.added event for every artifact the previous version lacked
+export function collectionVersionEvents(collection: { uuid: string, productUuids: string[] }, version: number, updateReason: TeaCollectionUpdateReason, artifactUuids: string[], previousArtifactUuids: string[]): WebhookEvent[] {
+    const events: WebhookEvent[] = [{
+        type: 'collection.version.added',
+        productUuids: collection.productUuids,
+        data: {
+            collectionIdentifier: collection.uuid,
+            version,
+            updateReason
+        }
+    }]
+    for (const artifactUuid of artifactUuids.filter(uuid => !previousArtifactUuids.includes(uuid))) {
+        events.push(artifactAddedEvent(artifactUuid, collection, version))
+    }
+    return events
+}
+
+// Event of an artifact being added to a version of a collection, or uploaded without one
+export function artifactAddedEvent(artifactUuid: string, collection?: { uuid: string, productUuids: string[] }, version?: number): WebhookEvent {
+    return {
+        type: 'artifact.added',
+        productUuids: collection?.productUuids ?? [],
+        data: {
+            artifactIdentifier: artifactUuid,
+            collectionIdentifier: collection?.uuid,
+            collectionVersion: version
+        }
+    }
+}
+
+// Event of the lifecycle of a collection moving to another phase
+export function lifecycleEvent(collection: { uuid: string, productUuids: string[] }, from: string | undefined, to: string): WebhookEvent {
+    return {
+        type: 'collection.lifecycle.transitioned',
+        productUuids: collection.productUuids,
+        data: {
+            collectionIdentifier: collection.uuid,
+            from: from ?? null,
+            to
+        }
+    }
+}
+
+// Event of a collection being deleted
+export function collectionDeletedEvent(collection: { uuid: string, productUuids: string[] }): WebhookEvent {
+    return {
+        type: 'collection.deleted',
+        productUuids: collection.productUuids,
+        data: {
+            collectionIdentifier: collection.uuid
+        }
+    }
+}
+
+// Queue events for the webhooks of an organization subscribed to them. Called in the transaction making the
+// change, so events of a change that is rolled back are never sent.
+export async function queueWebhookEvents(tx: Prisma.TransactionClient, organizationUuid: string, events: WebhookEvent[], now: number): Promise<void> {
+    if (events.length === 0) {
+        return
+    }
+    const webhooks = await tx.teaWebhook.findMany({
+        where: {
+            organizationUuid,
+            active: true
+        }
+    })
+
+    for (const event of events) {
+        // Webhooks limited to products only receive events of those products
+        const subscribed = webhooks.filter(webhook =>
+            JSON.parse(webhook.events).includes(event.type) &&
+            (!webhook.products || event.productUuids.some(uuid => JSON.parse(webhook.products).includes(uuid)))
+        )
+        if (subscribed.length === 0) {
+            continue
+        }
+
+        const eventUuid = crypto.randomUUID()
+        const payload = JSON.stringify({
+            identifier: eventUuid,
+            type: event.type,
+            createdAt: new Date(now * 1000).toISOString(),
+            productIdentifiers: event.productUuids,
+            data: event.data
+        })
+        for (const webhook of subscribed) {
+            await tx.teaWebhookDelivery.create({
+                data: {
+                    uuid: crypto.randomUUID(),
+                    webhookUuid: webhook.uuid,
+                    eventUuid,
+                    eventType: event.type,
+                    payload,
+                    status: 'pending',
+                    nextAttemptAt: now,
+                    createdAt: now
+                }
+            })
+        }
+    }
+}
+
+// Helper function to sign a delivery. The timestamp is signed along, so receivers can reject replayed deliveries.
+async function signDelivery(secret: string, timestamp: number, body: string): Promise<string> {
+    const encoder = new TextEncoder()
+    const key = await crypto.subtle.importKey('raw', encoder.encode(secret), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign'])
+    const signature = await crypto.subtle.sign('HMAC', key, encoder.encode(`${timestamp}.${body}`))
+    return `sha256=${toHex(signature)}`
+}
+
+// Helper function to post a delivery once, returning the response status and the error of a failed attempt
+async function attemptDelivery(delivery: StoredDelivery, webhook: StoredWebhook): Promise<{ status: number | null, error: string | null }> {
+    const timestamp = Math.floor(Date.now() / 1000)
+    try {
+        const response = await fetch(webhook.url, {
+            method: 'POST',
+            headers: {
+                'Content-Type': 'application/json',
+                'User-Agent': 'TEA-Webhooks',
+                'Tea-Webhook-Id': delivery.eventUuid,
+                'Tea-Webhook-Delivery': delivery.uuid,
+                'Tea-Webhook-Event': delivery.eventType,
+                'Tea-Webhook-Timestamp': String(timestamp),
+                'Tea-Webhook-Signature': await signDelivery(webhook.secret, timestamp, delivery.payload)
+            },
+            body: delivery.payload,
+            // A redirect could send the signed event elsewhere, it counts as a failed attempt
+            redirect: 'manual',
+            signal: AbortSignal.timeout(DELIVERY_TIMEOUT_MS)
+        })
+        await response.body?.cancel()
+        if (!response.ok) {
+            return { status: response.status, error: `Webhook responded with status ${response.status}` }
+        }
+        return { status: response.status, error: null }
+    } catch (error) {
+        return { status: null, error: error instanceof Error ? error.message : String(error) }
+    }
+}
+
+// Helper function to post a due delivery and record the outcome. The delivery is claimed first, so a concurrent
+// request does not post it as well.
+async function deliver(prisma: PrismaClient, delivery: StoredDelivery & { webhook: StoredWebhook }, now: number): Promise<void> {
+    const claimed = await prisma.teaWebhookDelivery.updateMany({
+        where: {
+            uuid: delivery.uuid,
+            status: 'pending',
+            nextAttemptAt: delivery.nextAttemptAt
+        },
+        data: {
+            nextAttemptAt: now + CLAIM_SECONDS
+        }
+    })
+    if (claimed.count === 0) {
+        return
+    }
+
+    const { status, error } = await attemptDelivery(delivery, delivery.webhook)
+    const attempts = delivery.attempts + 1
+    const attemptedAt = Math.floor(Date.now() / 1000)
+
+    let outcome: Prisma.TeaWebhookDeliveryUpdateInput
+    if (!error) {
+        outcome = { status: 'delivered', deliveredAt: attemptedAt, nextAttemptAt: null }
+    } else if (attempts >= MAX_ATTEMPTS) {
+        outcome = { status: 'failed', nextAttemptAt: null }
+    } else {
+        outcome = { nextAttemptAt: attemptedAt + RETRY_BASE_SECONDS * 2 ** (attempts - 1) }
+    }
+
+    await prisma.teaWebhookDelivery.update({
+        where: {
+            uuid: delivery.uuid
+        },
+        data: {
+            ...outcome,
+            attempts,
+            lastAttemptAt: attemptedAt,
+            lastResponseStatus: status,
+            lastError: error
+        }
+    })
+}
+
+// Post the deliveries that are due. Deliveries queued before a webhook was deactivated wait until it is active again.
+export async function deliverWebhooks(prisma: PrismaClient): Promise<void> {
+    const now = Math.floor(Date.now() / 1000)
+    const due = await prisma.teaWebhookDelivery.findMany({
+        where: {
+            status: 'pending',
+            nextAttemptAt: { lte: now },
+            webhook: { active: true }
+        },
+        include: {
+            webhook: true
+        },
+        orderBy: {
+            nextAttemptAt: 'asc'
+        },
+        take: DELIVERY_BATCH
+    })
+    await Promise.all(due.map(delivery => deliver(prisma, delivery, now)))
+}
+
+// Whether a request should look for deliveries that are due once it is answered. Requests that queued deliveries
+// always look, others only once per interval for retries.
+export function webhooksDue(queued: boolean): boolean {
+    const now = Math.floor(Date.now() / 1000)
+    if (!queued && now - lastRetryCheck < RETRY_INTERVAL_SECONDS) {
+        return false
+    }
+    lastRetryCheck = now
+    return true
+}
@@ -0,0 +1,132 @@
+// A small non-validating XML reader for the documents the API ingests. It builds an element tree with
+// attributes and text, skipping comments, processing instructions and the document type declaration.
+// Entities other than the predefined and numeric character references are not supported.
+
+export interface XmlElement {
+    // Name without a namespace prefix
+    name: string;
+    attributes: Record<string, string>;
+    children: XmlElement[];
+    text: string;
+}
+
+// Whether a code point is a character allowed in XML 1.0 documents, which excludes surrogates and values past U+10FFFF
+function isXmlChar(codePoint: number): boolean {
+    return codePoint === 0x9 || codePoint === 0xA || codePoint === 0xD ||
+        (codePoint >= 0x20 && codePoint <= 0xD7FF) ||
+        (codePoint >= 0xE000 && codePoint <= 0xFFFD) ||
+        (codePoint >= 0x10000 && codePoint <= 0x10FFFF)
+}
+
+// Helper function to replace the predefined entities and character references of a text or attribute value,
+// null when a character reference does not refer to an XML character
+function decodeEntities(value: string): string | null {
+    let valid = true
+    const decoded = value.replace(/&(#x[0-9a-fA-F]+|#[0-9]+|amp|lt|gt|quot|apos);/g, (_, entity: string) => {
+        switch (entity) {
+            case 'amp': return '&'
+            case 'lt': return '<'
+            case 'gt': return '>'
+            case 'quot': return '"'
+            case 'apos': return "'"
+        }
+        const codePoint = entity[1] === 'x' ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10)
+        if (!isXmlChar(codePoint)) {
+            valid = false
+            return ''
+        }
+        return String.fromCodePoint(codePoint)
+    })
+    return valid ? decoded : null
+}
+
+// Helper function to drop the namespace prefix of an element or attribute name
+function localName(name: string): string {
+    return name.slice(name.indexOf(':') + 1)
+}
+
+// Parse an XML document to its root element, null when it is not well-formed
+export function parseXml(source: string): XmlElement | null {
+    const stack: XmlElement[] = []
+    let root: XmlElement | null = null
+    let i = 0
+
+    while (i < source.length) {
+        const open = source.indexOf('<', i)
+        const text = source.slice(i, open < 0 ? source.length : open)
+        if (stack.length > 0) {
+            const decoded = decodeEntities(text)
+            if (decoded === null) return null
+            stack[stack.length - 1].text += decoded
+        } else if (text.trim() !== '') {
+            return null
+        }
+        if (open < 0) {
+            break
+        }
+
+        if (source.startsWith('<!--', open)) {
+            const end = source.indexOf('-->', open + 4)
+            if (end < 0) return null
+            i = end + 3
+        } else if (source.startsWith('<![CDATA[', open)) {
+            const end = source.indexOf(']]>', open + 9)
+            if (end < 0 || stack.length === 0) return null
+            stack[stack.length - 1].text += source.slice(open + 9, end)
+            i = end + 3
+        } else if (source.startsWith('<?', open)) {
+            const end = source.indexOf('?>', open + 2)
+            if (end < 0) return null
+            i = end + 2
+        } else if (source.startsWith('<!', open)) {
+            // A document type declaration may hold an internal subset in brackets
+            const match = /^<![^[>]*(\[[\s\S]*?\])?\s*>/.exec(source.slice(open))
+            if (!match) return null
+            i = open + match[0].length
+        } else if (source[open + 1] === '/') {
+            const end = source.indexOf('>', open)
+            const element = stack.pop()
+            if (end < 0 || !element || localName(source.slice(open + 2, end).trim()) !== element.name) {
+                return null
+            }
+            i = end + 1
+        } else {
+            const match = /^<([^\s/>]+)((?:\s+[^\s=/>]+\s*=\s*(?:"[^"]*"|'[^']*'))*)\s*(\/?)>/.exec(source.slice(open))
+            if (!match || (stack.length === 0 && root)) {
+                return null
+            }
+            const element: XmlElement = { name: localName(match[1]), attributes: {}, children: [], text: '' }
+            for (const attribute of match[2].matchAll(/([^\s=/>]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g)) {
+                const decoded = decodeEntities(attribute[2] ?? attribute[3])
+                if (decoded === null) return null
+                element.attributes[attribute[1].startsWith('xmlns') ? attribute[1] : localName(attribute[1])] = decoded
+            }
+            if (stack.length > 0) {
+                stack[stack.length - 1].children.push(element)
+            } else {
+                root = element
+            }
+            if (!match[3]) {
+                stack.push(element)
+            }
+            i = open + match[0].length
+        }
+    }
+
+    return stack.length === 0 ? root : null
+}
+
+// The child elements with the given name
+export function xmlChildren(element: XmlElement | undefined, name: string): XmlElement[] {
+    return element ? element.children.filter(child => child.name === name) : []
+}
+
+// The first child element with the given name
+export function xmlChild(element: XmlElement | undefined, name: string): XmlElement | undefined {
+    return element?.children.find(child => child.name === name)
+}
+
+// The trimmed text of the first child element with the given name, undefined when it is absent or empty
+export function xmlText(element: XmlElement | undefined, name: string): string | undefined {
+    return xmlChild(element, name)?.text.trim() || undefined
+}
@@ -1,57 +1,90 @@
-import type { CreateTeaProductRequest } from "./types";
+import type { CreateTeaProductRequest, TeaCpeMatch, TeaPrincipal } from "./types";
 import type { PrismaClient } from "@prisma/client";
+import { unauthorized } from "./lib/auth";
+import { parseCpeQuery } from "./lib/cpe";
+import { cpeMatchesOf, findCpeMatches, identifierConflict, identifierConnections, identifierPurl, identifierSelect, invalidIdentifier, normalizeIdentifiers, normalizeIdentifierValue, toIdentifierResponse } from "./lib/identifiers";
+import { mergeQualifiers, parsePurl, purlColumns, purlWhere, qualifierColumn } from "./lib/purl";
+import { errorProblem, problem } from "./lib/problems";
+import { pageQuery, paginate, parsePageRequest } from "./lib/pagination";
+import { recordAudit } from "./lib/audit";
+import { notDeleted } from "./lib/trash";
 
 export async function onRequestPost<PagesFunction>(context: EventContext<Env, string, Record<string, unknown>>): Promise<Response | void> {
     const { data, request } = context;
     const prisma = data.prisma as PrismaClient;
+    const principal = data.principal as TeaPrincipal;
     
     try {
 
+        // API keys limited to specific products cannot create new products
+        if (principal.products) {
+            return unauthorized(request, `Not permitted to create products`, 'insufficient_scope');
+        }
+
         // Parse request body (data.json is already parsed by middleware)
         const requestBody: CreateTeaProductRequest = await request.json();
         
         // Validate required fields
         if (!requestBody.name) {
-            return new Response(JSON.stringify({ error: `Missing required field: name` }), { 
-                status: 400,
-                headers: { 'Content-Type': 'application/json' }
-            });
+            return problem(request, 'invalid-request-body', `Missing required field: name`);
         }
 
         if (!requestBody.type) {
-            return new Response(JSON.stringify({ error: `Missing required field: type` }), { 
-                status: 400,
-                headers: { 'Content-Type': 'application/json' }
-            });
+            return problem(request, 'invalid-request-body', `Missing required field: type`);
+        }
+
+        // Identifiers may be shared with other products and components only as identifierPolicies allows
+        const identifiers = normalizeIdentifiers(requestBody.identifiers);
+        const invalid = invalidIdentifier(identifiers);
+        if (invalid) {
+            return problem(request, 'invalid-request-body', invalid);
+        }
+        const conflict = await identifierConflict(prisma, principal.organizationUuid, 'product', null, identifiers);
+        if (conflict) {
+            return problem(request, 'conflict', conflict);
         }
 
+        const purl = identifierPurl(identifiers);
+
         // Generate UUID for the product
         const productUuid = crypto.randomUUID();
         const now = Math.floor(Date.now() / 1000);
 
-        // Create TEA Product in database
-        const teaProduct = await prisma.teaProduct.create({
-            data: {
-                uuid: productUuid,
-                name: requestBody.name,
-                type: requestBody.type || `generic`,
-                barcode: requestBody.barcode,
-                sku: requestBody.sku,
-                vendor: requestBody.vendorUuid, // Store vendorUuid from request
-                namespace: requestBody.namespace || ``,
-                version: requestBody.version,
-                qualifiers: JSON.stringify(requestBody.qualifiers || []),
-                identifiers: JSON.stringify(requestBody.identifiers || []),
-                subpath: requestBody.subpath,
-                primaryLanguage: null,
-                homepageUrl: null,
-                downloadUrl: null,
-                description: null,
-                releaseDate: null,
-                validUntilDate: null,
-                createdAt: now,
-                updatedAt: now
-            }
+        // Create TEA Product in database and record it in the audit log
+        const teaProduct = await prisma.$transaction(async (tx) => {
+            const createdProduct = await tx.teaProduct.create({
+                data: {
+                    uuid: productUuid,
+                    organizationUuid: principal.organizationUuid,
+                    name: requestBody.name,
+                    type: requestBody.type || `generic`,
+                    barcode: requestBody.barcode,
+                    sku: requestBody.sku,
+                    vendor: requestBody.vendorUuid, // Store vendorUuid from request
+                    namespace: requestBody.namespace || ``,
+                    version: requestBody.version,
+                    qualifiers: qualifierColumn(mergeQualifiers(requestBody.qualifiers)),
+                    identifiers: identifierConnections(principal.organizationUuid, identifiers, now, false),
+                    subpath: requestBody.subpath,
+                    primaryLanguage: null,
+                    homepageUrl: null,
+                    downloadUrl: null,
+                    description: null,
+                    releaseDate: null,
+                    validUntilDate: null,
+                    createdAt: now,
+                    updatedAt: now,
+                    // The parts of a purl identifier take precedence over the separate fields
+                    ...(purl ? purlColumns(purl) : {})
+                },
+                include: {
+                    identifiers: identifierSelect
+                }
+            });
+
+            await recordAudit(tx, principal, { operation: 'create', entityType: 'product', entityUuid: productUuid, after: createdProduct }, now);
+
+            return createdProduct;
         });
 
         // Get components for this product (initially empty for new product)
@@ -71,7 +104,7 @@ export async function onRequestPost<PagesFunction>(context: EventContext<Env, st
             barcode: teaProduct.barcode,
             sku: teaProduct.sku,
             vendorUuid: teaProduct.vendor, // Return as vendorUuid to match OpenAPI
-            identifiers: teaProduct.identifiers ? JSON.parse(teaProduct.identifiers) : [],
+            identifiers: toIdentifierResponse(teaProduct.identifiers),
             type: teaProduct.type,
             namespace: teaProduct.namespace,
             version: teaProduct.version,
@@ -87,31 +120,35 @@ export async function onRequestPost<PagesFunction>(context: EventContext<Env, st
 
     } catch (error) {
         console.error(`Error creating TEA Product:`, error);
-        return new Response(JSON.stringify({ error: `Internal server error` }), { 
-            status: 500,
-            headers: { 'Content-Type': 'application/json' }
-        });
+        return errorProblem(request, error);
     }
 };
 
 export async function onRequestGet<PagesFunction>(context: EventContext<Env, string, Record<string, unknown>>): Promise<Response | void> {
-    const { data } = context;
+    const { data, env, request } = context;
     const prisma = data.prisma as PrismaClient;
+    const principal = data.principal as TeaPrincipal;
     
     try {
 
         // Parse query parameters
         const url = new URL(context.request.url);
-        const pageOffset = parseInt(url.searchParams.get('pageOffset') || '0');
-        const pageSize = Math.min(parseInt(url.searchParams.get('pageSize') || '100'), 1000);
+        const page = await parsePageRequest(env, url, 'product');
+        if (typeof page === 'string') {
+            return problem(request, 'invalid-parameter', page);
+        }
         const barcode = url.searchParams.get('barcode');
         const sku = url.searchParams.get('sku');
         const vendorUuid = url.searchParams.get('vendorUuid');
         const idType = url.searchParams.get('idType');
         const idValue = url.searchParams.get('idValue');
+        const purlParam = url.searchParams.get('purl');
 
-        // Build where clause
-        const where: any = {};
+        // Build where clause, always scoped to the caller's organization
+        const where: any = {
+            organizationUuid: principal.organizationUuid,
+            ...notDeleted
+        };
 
         if (barcode) where.barcode = barcode;
         if (sku) where.sku = sku;
@@ -120,27 +157,54 @@ export async function onRequestGet<PagesFunction>(context: EventContext<Env, str
         // Handle identifier filtering
         if (idType && idValue) {
             where.identifiers = {
-                contains: JSON.stringify({ idType, idValue })
+                some: { idType, idValue: normalizeIdentifierValue(idType, idValue) }
             };
         }
 
+        // Handle purl filtering, ignoring the version or qualifiers finds every version or build of a package
+        if (purlParam) {
+            const purl = parsePurl(purlParam);
+            if (!purl) {
+                return problem(request, 'invalid-parameter', `Invalid purl`);
+            }
+            where.AND = [purlWhere(purl, url.searchParams.get('ignoreVersion') === 'true', url.searchParams.get('ignoreQualifiers') === 'true')];
+        }
+
+        // Handle CPE matching, following the NIST CPE name matching rules
+        let cpeMatches: Map<number, TeaCpeMatch> | null = null;
+        if (url.searchParams.get('cpe')) {
+            const cpeQuery = parseCpeQuery(url);
+            if (!cpeQuery) {
+                return problem(request, 'invalid-parameter', `Invalid cpe, cpeMatch or version bound`);
+            }
+            const matches = await findCpeMatches(prisma, principal.organizationUuid, cpeQuery);
+            if (typeof matches === 'string') {
+                return problem(request, 'invalid-parameter', matches);
+            }
+            cpeMatches = matches;
+            const matchedIds = [...cpeMatches.keys()];
+            where.AND = [...(where.AND || []), { identifiers: { some: { id: { in: matchedIds } } } }];
+        }
+
         // Get total count
         const total = await prisma.teaProduct.count({ where });
 
         // Get products with pagination
-        const products = await prisma.teaProduct.findMany({
-            where,
-            skip: pageOffset,
-            take: pageSize,
-            orderBy: { createdAt: 'desc' },
+        const rows = await prisma.teaProduct.findMany({
+            ...pageQuery(page, where),
             include: {
                 components: {
+                    where: {
+                        component: notDeleted
+                    },
                     select: {
                         componentUuid: true
                     }
-                }
+                },
+                identifiers: identifierSelect
             }
         });
+        const { items: products, pagination } = await paginate(env, 'product', page, rows, total);
 
         // Transform to API format
         const productData = products.map(product => ({
@@ -149,24 +213,19 @@ export async function onRequestGet<PagesFunction>(context: EventContext<Env, str
             barcode: product.barcode,
             sku: product.sku,
             vendorUuid: product.vendor,
-            identifiers: JSON.parse(product.identifiers || '[]'),
+            identifiers: toIdentifierResponse(product.identifiers),
             type: product.type,
             namespace: product.namespace,
             version: product.version,
             qualifiers: JSON.parse(product.qualifiers || '[]'),
             subpath: product.subpath,
-            components: product.components.map(c => c.componentUuid)
+            components: product.components.map(c => c.componentUuid),
+            ...(cpeMatches ? { matchedCpes: cpeMatchesOf(product.identifiers, cpeMatches) } : {})
         }));
 
         const response = {
             data: productData,
-            pagination: {
-                total,
-                pageOffset,
-                pageSize,
-                hasNext: pageOffset + pageSize < total,
-                hasPrevious: pageOffset > 0
-            }
+            pagination
         };
 
         return new Response(JSON.stringify(response), {
@@ -176,9 +235,6 @@ export async function onRequestGet<PagesFunction>(context: EventContext<Env, str
 
     } catch (error) {
         console.error(`Error fetching TEA Products:`, error);
-        return new Response(JSON.stringify({ error: `Internal server error` }), { 
-            status: 500,
-            headers: { 'Content-Type': 'application/json' }
-        });
+        return errorProblem(request, error);
     }
 };
@@ -1,9 +1,18 @@
-import type { UpdateTeaProductRequest } from "../types";
+import type { TeaPrincipal, UpdateTeaProductRequest } from "../types";
 import type { PrismaClient } from "@prisma/client";
+import { permitsProduct, unauthorized } from "../lib/auth";
+import { deleteUnusedIdentifiers, identifierConflict, identifierConnections, identifierPurl, identifierSelect, invalidIdentifier, normalizeIdentifiers, toIdentifierResponse } from "../lib/identifiers";
+import { mergeQualifiers, purlColumns, qualifierColumn } from "../lib/purl";
+import { errorProblem, problem } from "../lib/problems";
+import { signaturePolicies } from "../lib/signatures";
+import { queueWebhookEvents, releaseEvent } from "../lib/webhooks";
+import { recordAudit } from "../lib/audit";
+import { notDeleted, trashReleases } from "../lib/trash";
 
 export async function onRequestGet<PagesFunction>(context: EventContext<Env, string, Record<string, unknown>>): Promise<Response | void> {
-    const { data, params } = context;
+    const { data, params, request } = context;
     const prisma = data.prisma as PrismaClient;
+    const principal = data.principal as TeaPrincipal;
     
     try {
 
@@ -11,31 +20,31 @@ export async function onRequestGet<PagesFunction>(context: EventContext<Env, str
         
         // Validate UUID format
         if (!productUuid || !/^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(productUuid)) {
-            return new Response(JSON.stringify({ error: `Invalid product UUID` }), { 
-                status: 400,
-                headers: { 'Content-Type': 'application/json' }
-            });
+            return problem(request, 'invalid-parameter', `Invalid product UUID`);
         }
 
         // Get product with components
-        const product = await prisma.teaProduct.findUnique({
+        const product = await prisma.teaProduct.findFirst({
             where: {
-                uuid: productUuid
+                uuid: productUuid,
+                organizationUuid: principal.organizationUuid,
+                ...notDeleted
             },
             include: {
                 components: {
+                    where: {
+                        component: notDeleted
+                    },
                     select: {
                         componentUuid: true
                     }
-                }
+                },
+                identifiers: identifierSelect
             }
         });
 
         if (!product) {
-            return new Response(JSON.stringify({ error: `Product not found` }), { 
-                status: 404,
-                headers: { 'Content-Type': 'application/json' }
-            });
+            return problem(request, 'not-found', `Product not found`);
         }
         // Transform to API format
         const response = {
@@ -44,12 +53,13 @@ export async function onRequestGet<PagesFunction>(context: EventContext<Env, str
             barcode: product.barcode,
             sku: product.sku,
             vendorUuid: product.vendor,
-            identifiers: JSON.parse(product.identifiers || '[]'),
+            identifiers: toIdentifierResponse(product.identifiers),
             type: product.type,
             namespace: product.namespace,
             version: product.version,
             qualifiers: JSON.parse(product.qualifiers || '[]'),
             subpath: product.subpath,
+            signaturePolicy: product.signaturePolicy,
             components: product.components.map(c => c.componentUuid)
         };
 
@@ -60,16 +70,14 @@ export async function onRequestGet<PagesFunction>(context: EventContext<Env, str
 
     } catch (error) {
         console.error(`Error fetching TEA Product:`, error);
-        return new Response(JSON.stringify({ error: `Internal server error` }), { 
-            status: 500,
-            headers: { 'Content-Type': 'application/json' }
-        });
+        return errorProblem(request, error);
     }
 };
 
 export async function onRequestPatch<PagesFunction>(context: EventContext<Env, string, Record<string, unknown>>): Promise<Response | void> {
     const { data, params, request } = context;
     const prisma = data.prisma as PrismaClient;
+    const principal = data.principal as TeaPrincipal;
     
     try {
 
@@ -77,32 +85,60 @@ export async function onRequestPatch<PagesFunction>(context: EventContext<Env, s
         
         // Validate UUID format
         if (!productUuid || !/^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(productUuid)) {
-            return new Response(JSON.stringify({ error: `Invalid product UUID` }), { 
-                status: 400,
-                headers: { 'Content-Type': 'application/json' }
-            });
+            return problem(request, 'invalid-parameter', `Invalid product UUID`);
         }
 
         // Check if product exists and belongs to the organization
-        const existingProduct = await prisma.teaProduct.findUnique({
+        const existingProduct = await prisma.teaProduct.findFirst({
             where: {
-                uuid: productUuid
+                uuid: productUuid,
+                organizationUuid: principal.organizationUuid,
+                ...notDeleted
+            },
+            include: {
+                identifiers: identifierSelect
             }
         });
 
         if (!existingProduct) {
-            return new Response(JSON.stringify({ error: `Product not found` }), { 
-                status: 404,
-                headers: { 'Content-Type': 'application/json' }
-            });
+            return problem(request, 'not-found', `Product not found`);
+        }
+
+        // API keys may be limited to specific products
+        if (!permitsProduct(principal, [productUuid])) {
+            return unauthorized(request, `Not permitted to modify this product`, 'insufficient_scope');
         }
 
         // Parse request body
         const requestBody: UpdateTeaProductRequest = await request.json();
         
+        // Identifiers may be shared with other products and components only as identifierPolicies allows
+        const identifiers = normalizeIdentifiers(requestBody.identifiers);
+        if (requestBody.identifiers !== undefined) {
+            const invalid = invalidIdentifier(identifiers);
+            if (invalid) {
+                return problem(request, 'invalid-request-body', invalid);
+            }
+            const conflict = await identifierConflict(prisma, principal.organizationUuid, 'product', productUuid, identifiers);
+            if (conflict) {
+                return problem(request, 'conflict', conflict);
+            }
+        }
+
+        if (requestBody.signaturePolicy !== undefined) {
+            if (!signaturePolicies.includes(requestBody.signaturePolicy)) {
+                return problem(request, 'invalid-request-body', `Invalid signaturePolicy, expected one of: ${signaturePolicies.join(', ')}`);
+            }
+            // Like trusted keys, the policy guards what API keys may publish, so they cannot change it
+            if (principal.authType !== 'jwt') {
+                return unauthorized(request, `The signature policy can only be changed with a user token`, 'insufficient_scope');
+            }
+        }
+
         // Build update data
+        const now = Math.floor(Date.now() / 1000);
         const updateData: any = {
-            updatedAt: Math.floor(Date.now() / 1000)
+            updatedAt: now
         };
 
         if (requestBody.name !== undefined) updateData.name = requestBody.name;
@@ -112,22 +148,42 @@ export async function onRequestPatch<PagesFunction>(context: EventContext<Env, s
         if (requestBody.barcode !== undefined) updateData.barcode = requestBody.barcode;
         if (requestBody.sku !== undefined) updateData.sku = requestBody.sku;
         if (requestBody.vendorUuid !== undefined) updateData.vendor = requestBody.vendorUuid;
-        if (requestBody.identifiers !== undefined) updateData.identifiers = JSON.stringify(requestBody.identifiers);
-        if (requestBody.qualifiers !== undefined) updateData.qualifiers = JSON.stringify(requestBody.qualifiers);
+        if (requestBody.identifiers !== undefined) updateData.identifiers = identifierConnections(principal.organizationUuid, identifiers, now, true);
+        if (requestBody.qualifiers !== undefined) updateData.qualifiers = qualifierColumn(mergeQualifiers(requestBody.qualifiers));
         if (requestBody.subpath !== undefined) updateData.subpath = requestBody.subpath;
+        if (requestBody.signaturePolicy !== undefined) updateData.signaturePolicy = requestBody.signaturePolicy;
 
-        // Update TEA Product in database
-        const updatedProduct = await prisma.teaProduct.update({
-            where: {
-                uuid: productUuid
-            },
-            data: updateData
+        // The parts of a purl identifier take precedence over the separate fields
+        const purl = identifierPurl(identifiers);
+        if (purl) Object.assign(updateData, purlColumns(purl));
+
+        // Update TEA Product in database and record the change in the audit log
+        const updatedProduct = await prisma.$transaction(async (tx) => {
+            const changedProduct = await tx.teaProduct.update({
+                where: {
+                    uuid: productUuid
+                },
+                data: updateData,
+                include: {
+                    identifiers: identifierSelect
+                }
+            });
+
+            await recordAudit(tx, principal, { operation: 'update', entityType: 'product', entityUuid: productUuid, before: existingProduct, after: changedProduct }, now);
+
+            return changedProduct;
         });
 
+        // Records of identifiers the product no longer carries may now be unused
+        if (requestBody.identifiers !== undefined) {
+            await deleteUnusedIdentifiers(prisma, principal.organizationUuid);
+        }
+
         // Get components for this product
         const productComponents = await prisma.teaProductComponent.findMany({
             where: {
-                productUuid: updatedProduct.uuid
+                productUuid: updatedProduct.uuid,
+                component: notDeleted
             },
             select: {
                 componentUuid: true
@@ -141,12 +197,13 @@ export async function onRequestPatch<PagesFunction>(context: EventContext<Env, s
             barcode: updatedProduct.barcode,
             sku: updatedProduct.sku,
             vendorUuid: updatedProduct.vendor, // Return as vendorUuid to match OpenAPI
-            identifiers: updatedProduct.identifiers ? JSON.parse(updatedProduct.identifiers) : [],
+            identifiers: toIdentifierResponse(updatedProduct.identifiers),
             type: updatedProduct.type,
             namespace: updatedProduct.namespace,
             version: updatedProduct.version,
             qualifiers: updatedProduct.qualifiers ? JSON.parse(updatedProduct.qualifiers) : [],
             subpath: updatedProduct.subpath,
+            signaturePolicy: updatedProduct.signaturePolicy,
             components: productComponents.map(pc => pc.componentUuid) // Required by OpenAPI
         };
 
@@ -157,16 +214,14 @@ export async function onRequestPatch<PagesFunction>(context: EventContext<Env, s
 
     } catch (error) {
         console.error(`Error updating TEA Product:`, error);
-        return new Response(JSON.stringify({ error: `Internal server error` }), { 
-            status: 500,
-            headers: { 'Content-Type': 'application/json' }
-        });
+        return errorProblem(request, error);
     }
 };
 
 export async function onRequestDelete<PagesFunction>(context: EventContext<Env, string, Record<string, unknown>>): Promise<Response | void> {
-    const { data, params } = context;
+    const { data, params, request } = context;
     const prisma = data.prisma as PrismaClient;
+    const principal = data.principal as TeaPrincipal;
     
     try {
 
@@ -174,62 +229,58 @@ export async function onRequestDelete<PagesFunction>(context: EventContext<Env,
         
         // Validate UUID format
         if (!productUuid || !/^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(productUuid)) {
-            return new Response(JSON.stringify({ error: `Invalid product UUID` }), { 
-                status: 400,
-                headers: { 'Content-Type': 'application/json' }
-            });
+            return problem(request, 'invalid-parameter', `Invalid product UUID`);
         }
 
         // Check if product exists and belongs to the organization
-        const existingProduct = await prisma.teaProduct.findUnique({
+        const existingProduct = await prisma.teaProduct.findFirst({
             where: {
-                uuid: productUuid
+                uuid: productUuid,
+                organizationUuid: principal.organizationUuid,
+                ...notDeleted
             }
         });
 
         if (!existingProduct) {
-            return new Response(JSON.stringify({ error: `Product not found` }), { 
-                status: 404,
-                headers: { 'Content-Type': 'application/json' }
-            });
+            return problem(request, 'not-found', `Product not found`);
+        }
+
+        // API keys may be limited to specific products
+        if (!permitsProduct(principal, [productUuid])) {
+            return unauthorized(request, `Not permitted to modify this product`, 'insufficient_scope');
         }
 
-        // Delete related records first (cascade delete)
+        const now = Math.floor(Date.now() / 1000);
+
+        // Move the product to the trash along with its releases and their collections, see lib/trash
         await prisma.$transaction(async (tx) => {
-            // Delete product-component relationships
-            await tx.teaProductComponent.deleteMany({
+            const releases = await tx.teaRelease.findMany({
                 where: {
-                    productUuid: productUuid
+                    productUuid: productUuid,
+                    ...notDeleted
                 }
             });
 
-            // Delete releases and their component relationships
-            const releases = await tx.teaRelease.findMany({
+            await trashReleases(tx, releases.map(release => release.uuid), principal.subject, now);
+
+            const deletedProduct = await tx.teaProduct.update({
                 where: {
-                    productUuid: productUuid
+                    uuid: productUuid
+                },
+                data: {
+                    deletedAt: now,
+                    deletedBy: principal.subject
                 }
             });
 
+            await queueWebhookEvents(tx, principal.organizationUuid, releases.map(release => releaseEvent('release.deleted', release)), now);
+
+            // The releases go with the product, each is recorded for lookups by release
             for (const release of releases) {
-                await tx.teaReleaseComponent.deleteMany({
-                    where: {
-                        releaseUuid: release.uuid
-                    }
-                });
+                await recordAudit(tx, principal, { operation: 'delete', entityType: 'release', entityUuid: release.uuid, before: release, after: { ...release, deletedAt: now, deletedBy: principal.subject } }, now);
             }
 
-            await tx.teaRelease.deleteMany({
-                where: {
-                    productUuid: productUuid
-                }
-            });
-
-            // Delete the product
-            await tx.teaProduct.delete({
-                where: {
-                    uuid: productUuid
-                }
-            });
+            await recordAudit(tx, principal, { operation: 'delete', entityType: 'product', entityUuid: productUuid, before: existingProduct, after: deletedProduct }, now);
         });
 
         return new Response(null, {
@@ -238,9 +289,6 @@ export async function onRequestDelete<PagesFunction>(context: EventContext<Env,
 
     } catch (error) {
         console.error(`Error deleting TEA Product:`, error);
-        return new Response(JSON.stringify({ error: `Internal server error` }), { 
-            status: 500,
-            headers: { 'Content-Type': 'application/json' }
-        });
+        return errorProblem(request, error);
     }
 };
@@ -0,0 +1,163 @@
+import type { CreateTeaTrustedKeyRequest, TeaPrincipal } from "../../types";
+import type { PrismaClient } from "@prisma/client";
+import { unauthorized } from "../../lib/auth";
+import { pageQuery, paginate, parsePageRequest } from "../../lib/pagination";
+import { errorProblem, problem } from "../../lib/problems";
+import { recordAudit } from "../../lib/audit";
+import { notDeleted } from "../../lib/trash";
+import { readTrustedKey, toTrustedKeyResponse, trustedKeyTypes } from "../../lib/signatures";
+
+// Trust a public key to sign the artifacts of a product
+export async function onRequestPost<PagesFunction>(context: EventContext<Env, string, Record<string, unknown>>): Promise<Response | void> {
+    const { data, params, request } = context;
+    const prisma = data.prisma as PrismaClient;
+    const principal = data.principal as TeaPrincipal;
+
+    try {
+        const productUuid = params.uuid as string;
+
+        // Validate UUID format
+        if (!productUuid || !/^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(productUuid)) {
+            return problem(request, 'invalid-parameter', `Invalid product UUID`);
+        }
+
+        // Trusted keys decide which signatures verify, API keys must not be able to add their own
+        if (principal.authType !== 'jwt') {
+            return unauthorized(request, `Trusted keys can only be managed with a user token`, 'insufficient_scope');
+        }
+
+        // Check if product exists and belongs to the organization
+        const product = await prisma.teaProduct.findFirst({
+            where: {
+                uuid: productUuid,
+                organizationUuid: principal.organizationUuid,
+                ...notDeleted
+            },
+            select: {
+                uuid: true
+            }
+        });
+
+        if (!product) {
+            return problem(request, 'not-found', `Product not found`);
+        }
+
+        // Parse request body
+        const requestBody: CreateTeaTrustedKeyRequest = await request.json();
+
+        if (!requestBody.name) {
+            return problem(request, 'invalid-request-body', `Missing required field: name`);
+        }
+
+        if (!trustedKeyTypes.includes(requestBody.keyType)) {
+            return problem(request, 'invalid-request-body', `Invalid keyType, expected one of: ${trustedKeyTypes.join(', ')}`);
+        }
+
+        // JWKs are given as objects, PEM and OpenPGP keys as text
+        const jwk = requestBody.keyType === 'jwk';
+        if (jwk ? typeof requestBody.publicKey !== 'object' || requestBody.publicKey === null : typeof requestBody.publicKey !== 'string') {
+            return problem(request, 'invalid-request-body', jwk ? `publicKey must be a JWK object` : `publicKey must be a string`);
+        }
+        const publicKey = jwk ? JSON.stringify(requestBody.publicKey) : requestBody.publicKey as string;
+
+        const key = await readTrustedKey(requestBody.keyType, publicKey);
+        if (typeof key === 'string') {
+            return problem(request, 'invalid-request-body', key);
+        }
+
+        // A key is trusted once per product, the unique fingerprint turns a second one into a conflict
+        const now = Math.floor(Date.now() / 1000);
+        const trustedKey = await prisma.$transaction(async (tx) => {
+            const createdKey = await tx.teaTrustedKey.create({
+                data: {
+                    uuid: crypto.randomUUID(),
+                    organizationUuid: principal.organizationUuid,
+                    productUuid,
+                    name: requestBody.name,
+                    keyType: requestBody.keyType,
+                    publicKey,
+                    fingerprint: key.fingerprint,
+                    createdBy: principal.subject,
+                    createdAt: now
+                }
+            });
+
+            await recordAudit(tx, principal, { operation: 'create', entityType: 'trustedkey', entityUuid: createdKey.uuid, after: createdKey }, now);
+
+            return createdKey;
+        });
+
+        return new Response(JSON.stringify(toTrustedKeyResponse(trustedKey)), {
+            status: 201,
+            headers: { 'Content-Type': 'application/json' }
+        });
+
+    } catch (error) {
+        console.error(`Error adding trusted key:`, error);
+        return errorProblem(request, error);
+    }
+};
+
+// List the public keys trusted to sign the artifacts of a product
+export async function onRequestGet<PagesFunction>(context: EventContext<Env, string, Record<string, unknown>>): Promise<Response | void> {
+    const { data, env, params, request } = context;
+    const prisma = data.prisma as PrismaClient;
+    const principal = data.principal as TeaPrincipal;
+
+    try {
+        const productUuid = params.uuid as string;
+
+        // Validate UUID format
+        if (!productUuid || !/^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(productUuid)) {
+            return problem(request, 'invalid-parameter', `Invalid product UUID`);
+        }
+
+        // Parse query parameters
+        const url = new URL(context.request.url);
+        const page = await parsePageRequest(env, url, 'trustedkey');
+        if (typeof page === 'string') {
+            return problem(request, 'invalid-parameter', page);
+        }
+
+        // Check if product exists and belongs to the organization
+        const product = await prisma.teaProduct.findFirst({
+            where: {
+                uuid: productUuid,
+                organizationUuid: principal.organizationUuid,
+                ...notDeleted
+            },
+            select: {
+                uuid: true
+            }
+        });
+
+        if (!product) {
+            return problem(request, 'not-found', `Product not found`);
+        }
+
+        const where = {
+            productUuid
+        };
+
+        // Get total count
+        const total = await prisma.teaTrustedKey.count({ where });
+
+        // Get trusted keys with pagination
+        const rows = await prisma.teaTrustedKey.findMany(pageQuery(page, where));
+        const { items: keys, pagination } = await paginate(env, 'trustedkey', page, rows, total);
+
+        const response = {
+            data: keys.map(toTrustedKeyResponse),
+            pagination
+        };
+
+        return new Response(JSON.stringify(response), {
+            status: 200,
+            headers: { 'Content-Type': 'application/json' }
+        });
+
+    } catch (error) {
+        console.error(`Error fetching trusted keys of product:`, error);
+        return errorProblem(request, error);
+    }
+};
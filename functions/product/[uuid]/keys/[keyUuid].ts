@@ -0,0 +1,73 @@
+import type { TeaPrincipal } from "../../../types";
+import type { PrismaClient } from "@prisma/client";
+import { unauthorized } from "../../../lib/auth";
+import { errorProblem, problem } from "../../../lib/problems";
+import { recordAudit } from "../../../lib/audit";
+import { notDeleted } from "../../../lib/trash";
+
+// Stop trusting a public key for a product. Artifacts it verified keep their verification, but no longer count
+// as verified for the product's signature policy.
+export async function onRequestDelete<PagesFunction>(context: EventContext<Env, string, Record<string, unknown>>): Promise<Response | void> {
+    const { data, params, request } = context;
+    const prisma = data.prisma as PrismaClient;
+    const principal = data.principal as TeaPrincipal;
+
+    try {
+        const productUuid = params.uuid as string;
+        const keyUuid = params.keyUuid as string;
+
+        // Validate UUID format
+        if (!productUuid || !/^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(productUuid)) {
+            return problem(request, 'invalid-parameter', `Invalid product UUID`);
+        }
+
+        if (!keyUuid || !/^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(keyUuid)) {
+            return problem(request, 'invalid-parameter', `Invalid key UUID`);
+        }
+
+        if (principal.authType !== 'jwt') {
+            return unauthorized(request, `Trusted keys can only be managed with a user token`, 'insufficient_scope');
+        }
+
+        // Check if the key exists and belongs to the product
+        const trustedKey = await prisma.teaTrustedKey.findFirst({
+            where: {
+                uuid: keyUuid,
+                productUuid,
+                organizationUuid: principal.organizationUuid,
+                product: notDeleted
+            }
+        });
+
+        if (!trustedKey) {
+            return problem(request, 'not-found', `Trusted key not found`);
+        }
+
+        await prisma.$transaction(async (tx) => {
+            await tx.teaArtifactFormat.updateMany({
+                where: {
+                    signatureKeyUuid: keyUuid
+                },
+                data: {
+                    signatureKeyUuid: null
+                }
+            });
+
+            await tx.teaTrustedKey.delete({
+                where: {
+                    uuid: keyUuid
+                }
+            });
+
+            await recordAudit(tx, principal, { operation: 'delete', entityType: 'trustedkey', entityUuid: keyUuid, before: trustedKey }, Math.floor(Date.now() / 1000));
+        });
+
+        return new Response(null, {
+            status: 204
+        });
+
+    } catch (error) {
+        console.error(`Error deleting trusted key:`, error);
+        return errorProblem(request, error);
+    }
+};
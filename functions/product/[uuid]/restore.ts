@@ -0,0 +1,111 @@
+import type { TeaPrincipal } from "../../types";
+import type { PrismaClient } from "@prisma/client";
+import { permitsProduct, unauthorized } from "../../lib/auth";
+import { identifierSelect, toIdentifierResponse } from "../../lib/identifiers";
+import { errorProblem, problem } from "../../lib/problems";
+import { recordAudit } from "../../lib/audit";
+import { notDeleted, restoreReleases } from "../../lib/trash";
+
+// Restore a product from the trash, along with the releases and collections deleted with it
+export async function onRequestPost<PagesFunction>(context: EventContext<Env, string, Record<string, unknown>>): Promise<Response | void> {
+    const { data, params, request } = context;
+    const prisma = data.prisma as PrismaClient;
+    const principal = data.principal as TeaPrincipal;
+
+    try {
+
+        const productUuid = params.uuid as string;
+
+        // Validate UUID format
+        if (!productUuid || !/^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(productUuid)) {
+            return problem(request, 'invalid-parameter', `Invalid product UUID`);
+        }
+
+        // Check if the product is in the trash of the organization
+        const deletedProduct = await prisma.teaProduct.findFirst({
+            where: {
+                uuid: productUuid,
+                organizationUuid: principal.organizationUuid,
+                deletedAt: { not: null }
+            }
+        });
+
+        if (!deletedProduct) {
+            return problem(request, 'not-found', `Product not found in the trash`);
+        }
+
+        // API keys may be limited to specific products
+        if (!permitsProduct(principal, [productUuid])) {
+            return unauthorized(request, `Not permitted to modify this product`, 'insufficient_scope');
+        }
+
+        const now = Math.floor(Date.now() / 1000);
+
+        const product = await prisma.$transaction(async (tx) => {
+            // Releases deleted on their own before the product stay in the trash
+            const releases = await tx.teaRelease.findMany({
+                where: {
+                    productUuid: productUuid,
+                    deletedAt: deletedProduct.deletedAt
+                }
+            });
+
+            await restoreReleases(tx, releases.map(release => release.uuid), deletedProduct.deletedAt!);
+
+            const restoredProduct = await tx.teaProduct.update({
+                where: {
+                    uuid: productUuid
+                },
+                data: {
+                    deletedAt: null,
+                    deletedBy: null
+                },
+                include: {
+                    components: {
+                        where: {
+                            component: notDeleted
+                        },
+                        select: {
+                            componentUuid: true
+                        }
+                    },
+                    identifiers: identifierSelect
+                }
+            });
+
+            for (const release of releases) {
+                await recordAudit(tx, principal, { operation: 'restore', entityType: 'release', entityUuid: release.uuid, before: release, after: { ...release, deletedAt: null, deletedBy: null } }, now);
+            }
+
+            await recordAudit(tx, principal, { operation: 'restore', entityType: 'product', entityUuid: productUuid, before: deletedProduct, after: restoredProduct }, now);
+
+            return restoredProduct;
+        });
+
+        // Transform to API format
+        const response = {
+            identifier: product.uuid,
+            name: product.name,
+            barcode: product.barcode,
+            sku: product.sku,
+            vendorUuid: product.vendor,
+            identifiers: toIdentifierResponse(product.identifiers),
+            type: product.type,
+            namespace: product.namespace,
+            version: product.version,
+            qualifiers: JSON.parse(product.qualifiers || '[]'),
+            subpath: product.subpath,
+            signaturePolicy: product.signaturePolicy,
+            components: product.components.map(c => c.componentUuid)
+        };
+
+        return new Response(JSON.stringify(response), {
+            status: 200,
+            headers: { 'Content-Type': 'application/json' }
+        });
+
+    } catch (error) {
+        console.error(`Error restoring TEA Product:`, error);
+        return errorProblem(request, error);
+    }
+};
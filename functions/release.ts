@@ -1,9 +1,20 @@
-import type { CreateTeaReleaseRequest } from "./types";
-import type { PrismaClient } from "@prisma/client";
+import type { CreateTeaReleaseRequest, TeaCpeMatch, TeaPagination, TeaPrincipal } from "./types";
+import type { Prisma, PrismaClient } from "@prisma/client";
+import { permitsProduct, unauthorized } from "./lib/auth";
+import { parseCpeQuery } from "./lib/cpe";
+import { cpeMatchesOf, findCpeMatches, identifierSelect, normalizeIdentifierValue, toIdentifierResponse } from "./lib/identifiers";
+import { errorProblem, problem } from "./lib/problems";
+import { pageQuery, paginate, paginateSorted, parsePageRequest } from "./lib/pagination";
+import { parseVers, versContains } from "./lib/vers";
+import { compareVersions, schemeForType, schemeForVers } from "./lib/versions";
+import { queueWebhookEvents, releaseEvent } from "./lib/webhooks";
+import { recordAudit } from "./lib/audit";
+import { notDeleted } from "./lib/trash";
 
 export async function onRequestPost<PagesFunction>(context: EventContext<Env, string, Record<string, unknown>>): Promise<Response | void> {
     const { data, request } = context;
     const prisma = data.prisma as PrismaClient;
+    const principal = data.principal as TeaPrincipal;
     
     try {
 
@@ -12,51 +23,39 @@ export async function onRequestPost<PagesFunction>(context: EventContext<Env, st
         
         // Validate required fields
         if (!requestBody.componentIdentifier) {
-            return new Response(JSON.stringify({ error: `Missing required field: componentIdentifier` }), { 
-                status: 400,
-                headers: { 'Content-Type': 'application/json' }
-            });
+            return problem(request, 'invalid-request-body', `Missing required field: componentIdentifier`);
         }
 
         if (!requestBody.version) {
-            return new Response(JSON.stringify({ error: `Missing required field: version` }), { 
-                status: 400,
-                headers: { 'Content-Type': 'application/json' }
-            });
+            return problem(request, 'invalid-request-body', `Missing required field: version`);
         }
 
         if (!requestBody.releaseDate) {
-            return new Response(JSON.stringify({ error: `Missing required field: releaseDate` }), { 
-                status: 400,
-                headers: { 'Content-Type': 'application/json' }
-            });
+            return problem(request, 'invalid-request-body', `Missing required field: releaseDate`);
         }
 
         // Validate UUID format for componentIdentifier
         if (!/^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(requestBody.componentIdentifier)) {
-            return new Response(JSON.stringify({ error: `Invalid component UUID format` }), { 
-                status: 400,
-                headers: { 'Content-Type': 'application/json' }
-            });
+            return problem(request, 'invalid-request-body', `Invalid component UUID format`);
         }
 
         // Check if component exists and belongs to the organization
-        const existingComponent = await prisma.teaComponent.findUnique({
+        const existingComponent = await prisma.teaComponent.findFirst({
             where: {
-                uuid: requestBody.componentIdentifier
+                uuid: requestBody.componentIdentifier,
+                organizationUuid: principal.organizationUuid,
+                ...notDeleted
             }
         });
 
         if (!existingComponent) {
-            return new Response(JSON.stringify({ error: `Component not found` }), { 
-                status: 404,
-                headers: { 'Content-Type': 'application/json' }
-            });
+            return problem(request, 'not-found', `Component not found`);
         }
         // Find the product that owns this component
         const productComponent = await prisma.teaProductComponent.findFirst({
             where: {
-                componentUuid: requestBody.componentIdentifier
+                componentUuid: requestBody.componentIdentifier,
+                product: notDeleted
             },
             include: {
                 product: true
@@ -64,42 +63,53 @@ export async function onRequestPost<PagesFunction>(context: EventContext<Env, st
         });
 
         if (!productComponent) {
-            return new Response(JSON.stringify({ error: `Component not associated with any product` }), { 
-                status: 404,
-                headers: { 'Content-Type': 'application/json' }
-            });
+            return problem(request, 'not-found', `Component not associated with any product`);
+        }
+
+        // API keys may be limited to specific products
+        if (!permitsProduct(principal, [productComponent.productUuid])) {
+            return unauthorized(request, `Not permitted to modify this product`, 'insufficient_scope');
         }
 
         // Generate UUID for the release
         const releaseUuid = crypto.randomUUID();
         const now = Math.floor(Date.now() / 1000);
 
-        // Create TEA Release in database
-        const teaRelease = await prisma.teaRelease.create({
-            data: {
-                uuid: releaseUuid,
-                productUuid: productComponent.productUuid,
-                tag: `v${requestBody.version}`, // Generate tag from version
-                version: requestBody.version,
-                name: null,
-                description: null,
-                releaseDate: requestBody.releaseDate,
-                validUntilDate: null,
-                prerelease: requestBody.preRelease || false,
-                draft: false,
-                createdAt: now,
-                updatedAt: now
-            }
-        });
+        // Create TEA Release in database with its component relationship, queue its event and record it in the audit log
+        const teaRelease = await prisma.$transaction(async (tx) => {
+            const createdRelease = await tx.teaRelease.create({
+                data: {
+                    uuid: releaseUuid,
+                    organizationUuid: principal.organizationUuid,
+                    productUuid: productComponent.productUuid,
+                    tag: `v${requestBody.version}`, // Generate tag from version
+                    version: requestBody.version,
+                    name: null,
+                    description: null,
+                    releaseDate: requestBody.releaseDate,
+                    validUntilDate: null,
+                    prerelease: requestBody.preRelease || false,
+                    draft: false,
+                    createdAt: now,
+                    updatedAt: now
+                }
+            });
 
-        // Create the release-component relationship
-        await prisma.teaReleaseComponent.create({
-            data: {
-                releaseUuid: releaseUuid,
-                componentUuid: requestBody.componentIdentifier,
-                relationship: `release`,
-                createdAt: now
-            }
+            // Create the release-component relationship
+            await tx.teaReleaseComponent.create({
+                data: {
+                    releaseUuid: releaseUuid,
+                    componentUuid: requestBody.componentIdentifier,
+                    relationship: `release`,
+                    createdAt: now
+                }
+            });
+
+            await queueWebhookEvents(tx, principal.organizationUuid, [releaseEvent('release.created', createdRelease)], now);
+
+            await recordAudit(tx, principal, { operation: 'create', entityType: 'release', entityUuid: releaseUuid, after: { ...createdRelease, componentUuid: requestBody.componentIdentifier } }, now);
+
+            return createdRelease;
         });
 
         // Build response
@@ -124,108 +134,135 @@ export async function onRequestPost<PagesFunction>(context: EventContext<Env, st
 
     } catch (error) {
         console.error(`Error creating TEA Release:`, error);
-        return new Response(JSON.stringify({ error: `Internal server error` }), { 
-            status: 500,
-            headers: { 'Content-Type': 'application/json' }
-        });
+        return errorProblem(request, error);
     }
 };
 
+// Relations of the releases returned by the list
+const releaseInclude = {
+    components: {
+        where: {
+            component: notDeleted
+        },
+        select: {
+            componentUuid: true,
+            relationship: true,
+            component: {
+                select: {
+                    type: true,
+                    identifiers: identifierSelect
+                }
+            }
+        }
+    },
+    collection: {
+        select: {
+            uuid: true,
+            deletedAt: true
+        }
+    }
+} satisfies Prisma.TeaReleaseInclude;
+
+type ReleaseWithComponents = Prisma.TeaReleaseGetPayload<{ include: typeof releaseInclude }>;
+
+// Lists filtered by version range are sorted in memory, queries matching more releases than this are refused
+const MAX_VERSION_RANGE_RELEASES = 1000;
+
 export async function onRequestGet<PagesFunction>(context: EventContext<Env, string, Record<string, unknown>>): Promise<Response | void> {
-    const { data } = context;
+    const { data, env, request } = context;
     const prisma = data.prisma as PrismaClient;
+    const principal = data.principal as TeaPrincipal;
     
     try {
 
         // Parse query parameters
         const url = new URL(context.request.url);
-        const pageOffset = parseInt(url.searchParams.get('pageOffset') || '0');
-        const pageSize = Math.min(parseInt(url.searchParams.get('pageSize') || '100'), 1000);
+        const versionRangeParam = url.searchParams.get('versionRange');
+        const versionRange = versionRangeParam ? parseVers(versionRangeParam) : null;
+        if (versionRangeParam && !versionRange) {
+            return problem(request, 'invalid-parameter', `Invalid versionRange, expected vers:<scheme>/<constraints>`);
+        }
+        // Lists filtered by version range are in version order, their cursors are not valid for the plain list
+        const list = versionRange ? 'release-version' : 'release';
+        const page = await parsePageRequest(env, url, list);
+        if (typeof page === 'string') {
+            return problem(request, 'invalid-parameter', page);
+        }
         const idType = url.searchParams.get('idType');
         const idValue = url.searchParams.get('idValue');
 
-        // Build where clause
-        const where: any = {};
+        // Build where clause, always scoped to the caller's organization
+        const where: any = {
+            organizationUuid: principal.organizationUuid,
+            ...notDeleted
+        };
 
         // For releases, we need to check component identifiers if filtering by idType/idValue
         if (idType && idValue) {
-            // Find components with matching identifiers
-            const matchingComponents = await prisma.teaComponent.findMany({
-                where: {
-                    identifiers: {
-                        contains: JSON.stringify({ idType, idValue })
+            where.components = {
+                some: {
+                    component: {
+                        identifiers: {
+                            some: { idType, idValue: normalizeIdentifierValue(idType, idValue) }
+                        },
+                        ...notDeleted
                     }
-                },
-                select: { uuid: true }
-            });
+                }
+            };
+        }
 
-            const componentUuids = matchingComponents.map(c => c.uuid);
-            
-            if (componentUuids.length > 0) {
-                where.components = {
-                    some: {
-                        componentUuid: {
-                            in: componentUuids
-                        }
-                    }
-                };
-            } else {
-                // No matching components, return empty result
-                const response = {
-                    data: [],
-                    pagination: {
-                        total: 0,
-                        pageOffset,
-                        pageSize,
-                        hasNext: false,
-                        hasPrevious: false
-                    }
-                };
-                return new Response(JSON.stringify(response), {
-                    status: 200,
-                    headers: { 'Content-Type': 'application/json' }
-                });
+        // Handle CPE matching, following the NIST CPE name matching rules
+        let cpeMatches: Map<number, TeaCpeMatch> | null = null;
+        if (url.searchParams.get('cpe')) {
+            const cpeQuery = parseCpeQuery(url);
+            if (!cpeQuery) {
+                return problem(request, 'invalid-parameter', `Invalid cpe, cpeMatch or version bound`);
+            }
+            const matches = await findCpeMatches(prisma, principal.organizationUuid, cpeQuery);
+            if (typeof matches === 'string') {
+                return problem(request, 'invalid-parameter', matches);
             }
+            cpeMatches = matches;
+            const matchedIds = [...cpeMatches.keys()];
+            where.AND = [...(where.AND || []), { components: { some: { component: { identifiers: { some: { id: { in: matchedIds } } }, ...notDeleted } } } }];
         }
 
-        // Get total count
-        const total = await prisma.teaRelease.count({ where });
-
-        // Get releases with pagination
-        const releases = await prisma.teaRelease.findMany({
-            where,
-            skip: pageOffset,
-            take: pageSize,
-            orderBy: { createdAt: 'desc' },
-            include: {
-                components: {
-                    select: {
-                        componentUuid: true,
-                        component: {
-                            select: {
-                                identifiers: true
-                            }
-                        }
-                    }
-                },
-                product: {
-                    select: {
-                        collections: {
-                            select: {
-                                uuid: true
-                            }
-                        }
-                    }
-                }
+        let result: { items: ReleaseWithComponents[], pagination: TeaPagination } | null;
+        if (versionRange) {
+            // Versions are compared in the scheme of the type of the component the release is a version of, which the
+            // database cannot do, so the matching releases are filtered and sorted here, highest version first
+            const rows = await prisma.teaRelease.findMany({ where, include: releaseInclude, take: MAX_VERSION_RANGE_RELEASES + 1 });
+            if (rows.length > MAX_VERSION_RANGE_RELEASES) {
+                return problem(request, 'invalid-parameter', `More than ${MAX_VERSION_RANGE_RELEASES} releases match, narrow the versionRange query with idType and idValue or cpe`);
             }
-        });
+            const versioned = rows
+                .filter(release => release.version)
+                .map(release => ({ release, scheme: schemeForType(release.components.find(rc => rc.relationship === 'release')?.component.type) ?? schemeForVers(versionRange.scheme) }))
+                .filter(({ release, scheme }) => versContains(versionRange, scheme, release.version!));
+            versioned.sort((a, b) => compareVersions(a.scheme === b.scheme ? a.scheme : 'generic', b.release.version!, a.release.version!));
+            result = await paginateSorted(env, list, page, versioned.map(({ release }) => release));
+            if (!result) {
+                return problem(request, 'invalid-parameter', `Invalid cursor`);
+            }
+        } else {
+            // Get total count
+            const total = await prisma.teaRelease.count({ where });
+
+            // Get releases with pagination
+            const rows = await prisma.teaRelease.findMany({
+                ...pageQuery(page, where),
+                include: releaseInclude
+            });
+            result = await paginate(env, list, page, rows, total);
+        }
+        const { items: releases, pagination } = result;
 
         // Transform to API format
         const releaseData = releases.map(release => {
             // Collect all identifiers from associated components
             const allIdentifiers: any[] = [];
             release.components.forEach(rc => {
-                const componentIdentifiers = JSON.parse(rc.component.identifiers || '[]');
+                const componentIdentifiers = toIdentifierResponse(rc.component.identifiers);
                 allIdentifiers.push(...componentIdentifiers);
             });
 
@@ -235,19 +272,14 @@ export async function onRequestGet<PagesFunction>(context: EventContext<Env, str
                 releaseDate: release.releaseDate || new Date().toISOString(),
                 preRelease: release.prerelease || false,
                 identifiers: allIdentifiers,
-                collectionReferences: release.product.collections.map(c => c.uuid)
+                collectionReferences: release.collection && !release.collection.deletedAt ? [release.collection.uuid] : [],
+                ...(cpeMatches ? { matchedCpes: cpeMatchesOf(release.components.flatMap(rc => rc.component.identifiers), cpeMatches) } : {})
             };
         });
 
         const response = {
             data: releaseData,
-            pagination: {
-                total,
-                pageOffset,
-                pageSize,
-                hasNext: pageOffset + pageSize < total,
-                hasPrevious: pageOffset > 0
-            }
+            pagination
         };
 
         return new Response(JSON.stringify(response), {
@@ -257,9 +289,6 @@ export async function onRequestGet<PagesFunction>(context: EventContext<Env, str
 
     } catch (error) {
         console.error(`Error fetching TEA Releases:`, error);
-        return new Response(JSON.stringify({ error: `Internal server error` }), { 
-            status: 500,
-            headers: { 'Content-Type': 'application/json' }
-        });
+        return errorProblem(request, error);
     }
 };
@@ -1,9 +1,16 @@
-import type { UpdateTeaReleaseRequest } from "../types";
+import type { TeaPrincipal, UpdateTeaReleaseRequest } from "../types";
 import type { PrismaClient } from "@prisma/client";
+import { permitsProduct, unauthorized } from "../lib/auth";
+import { identifierSelect, toIdentifierResponse } from "../lib/identifiers";
+import { errorProblem, problem } from "../lib/problems";
+import { queueWebhookEvents, releaseEvent } from "../lib/webhooks";
+import { recordAudit } from "../lib/audit";
+import { notDeleted, trashReleases } from "../lib/trash";
 
 export async function onRequestPatch<PagesFunction>(context: EventContext<Env, string, Record<string, unknown>>): Promise<Response | void> {
     const { data, params, request } = context;
     const prisma = data.prisma as PrismaClient;
+    const principal = data.principal as TeaPrincipal;
     
     try {
 
@@ -11,31 +18,33 @@ export async function onRequestPatch<PagesFunction>(context: EventContext<Env, s
         
         // Validate UUID format
         if (!releaseUuid || !/^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(releaseUuid)) {
-            return new Response(JSON.stringify({ error: `Invalid release UUID` }), { 
-                status: 400,
-                headers: { 'Content-Type': 'application/json' }
-            });
+            return problem(request, 'invalid-parameter', `Invalid release UUID`);
         }
 
         // Check if release exists and belongs to the organization
-        const existingRelease = await prisma.teaRelease.findUnique({
+        const existingRelease = await prisma.teaRelease.findFirst({
             where: {
-                uuid: releaseUuid
+                uuid: releaseUuid,
+                organizationUuid: principal.organizationUuid,
+                ...notDeleted
             }
         });
 
         if (!existingRelease) {
-            return new Response(JSON.stringify({ error: `Release not found` }), { 
-                status: 404,
-                headers: { 'Content-Type': 'application/json' }
-            });
+            return problem(request, 'not-found', `Release not found`);
+        }
+
+        // API keys may be limited to specific products
+        if (!permitsProduct(principal, [existingRelease.productUuid])) {
+            return unauthorized(request, `Not permitted to modify this release`, 'insufficient_scope');
         }
         // Parse request body
         const requestBody: UpdateTeaReleaseRequest = await request.json();
         
         // Build update data
+        const now = Math.floor(Date.now() / 1000);
         const updateData: any = {
-            updatedAt: Math.floor(Date.now() / 1000)
+            updatedAt: now
         };
 
         if (requestBody.tag !== undefined) updateData.tag = requestBody.tag;
@@ -47,18 +56,25 @@ export async function onRequestPatch<PagesFunction>(context: EventContext<Env, s
         if (requestBody.prerelease !== undefined) updateData.prerelease = requestBody.prerelease;
         if (requestBody.draft !== undefined) updateData.draft = requestBody.draft;
 
-        // Update TEA Release in database
-        const updatedRelease = await prisma.teaRelease.update({
-            where: {
-                uuid: releaseUuid
-            },
-            data: updateData
+        // Update TEA Release in database and record the change in the audit log
+        const updatedRelease = await prisma.$transaction(async (tx) => {
+            const changedRelease = await tx.teaRelease.update({
+                where: {
+                    uuid: releaseUuid
+                },
+                data: updateData
+            });
+
+            await recordAudit(tx, principal, { operation: 'update', entityType: 'release', entityUuid: releaseUuid, before: existingRelease, after: changedRelease }, now);
+
+            return changedRelease;
         });
 
         // Get the components associated with this release
         const releaseComponents = await prisma.teaReleaseComponent.findMany({
             where: {
-                releaseUuid: releaseUuid
+                releaseUuid: releaseUuid,
+                component: notDeleted
             }
         });
 
@@ -84,16 +100,14 @@ export async function onRequestPatch<PagesFunction>(context: EventContext<Env, s
 
     } catch (error) {
         console.error(`Error updating TEA Release:`, error);
-        return new Response(JSON.stringify({ error: `Internal server error` }), { 
-            status: 500,
-            headers: { 'Content-Type': 'application/json' }
-        });
+        return errorProblem(request, error);
     }
 };
 
 export async function onRequestDelete<PagesFunction>(context: EventContext<Env, string, Record<string, unknown>>): Promise<Response | void> {
-    const { data, params } = context;
+    const { data, params, request } = context;
     const prisma = data.prisma as PrismaClient;
+    const principal = data.principal as TeaPrincipal;
     
     try {
 
@@ -101,40 +115,35 @@ export async function onRequestDelete<PagesFunction>(context: EventContext<Env,
         
         // Validate UUID format
         if (!releaseUuid || !/^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(releaseUuid)) {
-            return new Response(JSON.stringify({ error: `Invalid release UUID` }), { 
-                status: 400,
-                headers: { 'Content-Type': 'application/json' }
-            });
+            return problem(request, 'invalid-parameter', `Invalid release UUID`);
         }
 
         // Check if release exists and belongs to the organization
-        const existingRelease = await prisma.teaRelease.findUnique({
+        const existingRelease = await prisma.teaRelease.findFirst({
             where: {
-                uuid: releaseUuid
+                uuid: releaseUuid,
+                organizationUuid: principal.organizationUuid,
+                ...notDeleted
             }
         });
 
         if (!existingRelease) {
-            return new Response(JSON.stringify({ error: `Release not found` }), { 
-                status: 404,
-                headers: { 'Content-Type': 'application/json' }
-            });
+            return problem(request, 'not-found', `Release not found`);
+        }
+
+        // API keys may be limited to specific products
+        if (!permitsProduct(principal, [existingRelease.productUuid])) {
+            return unauthorized(request, `Not permitted to modify this release`, 'insufficient_scope');
         }
-        // Delete related records first (cascade delete)
+        const now = Math.floor(Date.now() / 1000);
+
+        // Move the release to the trash along with its collection, see lib/trash
         await prisma.$transaction(async (tx) => {
-            // Delete release-component relationships
-            await tx.teaReleaseComponent.deleteMany({
-                where: {
-                    releaseUuid: releaseUuid
-                }
-            });
+            await trashReleases(tx, [releaseUuid], principal.subject, now);
 
-            // Delete the release
-            await tx.teaRelease.delete({
-                where: {
-                    uuid: releaseUuid
-                }
-            });
+            await queueWebhookEvents(tx, principal.organizationUuid, [releaseEvent('release.deleted', existingRelease)], now);
+
+            await recordAudit(tx, principal, { operation: 'delete', entityType: 'release', entityUuid: releaseUuid, before: existingRelease, after: { ...existingRelease, deletedAt: now, deletedBy: principal.subject } }, now);
         });
 
         return new Response(null, {
@@ -143,16 +152,14 @@ export async function onRequestDelete<PagesFunction>(context: EventContext<Env,
 
     } catch (error) {
         console.error(`Error deleting TEA Release:`, error);
-        return new Response(JSON.stringify({ error: `Internal server error` }), { 
-            status: 500,
-            headers: { 'Content-Type': 'application/json' }
-        });
+        return errorProblem(request, error);
     }
 };
 
 export async function onRequestGet<PagesFunction>(context: EventContext<Env, string, Record<string, unknown>>): Promise<Response | void> {
-    const { data, params } = context;
+    const { data, params, request } = context;
     const prisma = data.prisma as PrismaClient;
+    const principal = data.principal as TeaPrincipal;
     
     try {
 
@@ -160,50 +167,46 @@ export async function onRequestGet<PagesFunction>(context: EventContext<Env, str
         
         // Validate UUID format
         if (!releaseUuid || !/^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(releaseUuid)) {
-            return new Response(JSON.stringify({ error: `Invalid release UUID` }), { 
-                status: 400,
-                headers: { 'Content-Type': 'application/json' }
-            });
+            return problem(request, 'invalid-parameter', `Invalid release UUID`);
         }
 
         // Get release with related data
-        const release = await prisma.teaRelease.findUnique({
+        const release = await prisma.teaRelease.findFirst({
             where: {
-                uuid: releaseUuid
+                uuid: releaseUuid,
+                organizationUuid: principal.organizationUuid,
+                ...notDeleted
             },
             include: {
                 components: {
+                    where: {
+                        component: notDeleted
+                    },
                     select: {
                         componentUuid: true,
                         component: {
                             select: {
-                                identifiers: true
+                                identifiers: identifierSelect
                             }
                         }
                     }
                 },
-                product: {
+                collection: {
                     select: {
-                        collections: {
-                            select: {
-                                uuid: true
-                            }
-                        }
+                        uuid: true,
+                        deletedAt: true
                     }
                 }
             }
         });
 
         if (!release) {
-            return new Response(JSON.stringify({ error: `Release not found` }), { 
-                status: 404,
-                headers: { 'Content-Type': 'application/json' }
-            });
+            return problem(request, 'not-found', `Release not found`);
         }
         // Collect all identifiers from associated components
         const allIdentifiers: any[] = [];
         release.components.forEach(rc => {
-            const componentIdentifiers = JSON.parse(rc.component.identifiers || '[]');
+            const componentIdentifiers = toIdentifierResponse(rc.component.identifiers);
             allIdentifiers.push(...componentIdentifiers);
         });
 
@@ -214,7 +217,7 @@ export async function onRequestGet<PagesFunction>(context: EventContext<Env, str
             releaseDate: release.releaseDate || new Date().toISOString(),
             preRelease: release.prerelease || false,
             identifiers: allIdentifiers,
-            collectionReferences: release.product.collections.map(c => c.uuid)
+            collectionReferences: release.collection && !release.collection.deletedAt ? [release.collection.uuid] : []
         };
 
         return new Response(JSON.stringify(response), {
@@ -224,9 +227,6 @@ export async function onRequestGet<PagesFunction>(context: EventContext<Env, str
 
     } catch (error) {
         console.error(`Error fetching TEA Release:`, error);
-        return new Response(JSON.stringify({ error: `Internal server error` }), { 
-            status: 500,
-            headers: { 'Content-Type': 'application/json' }
-        });
+        return errorProblem(request, error);
     }
 };
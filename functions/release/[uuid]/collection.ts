@@ -0,0 +1,50 @@
+import type { TeaPrincipal } from "../../types";
+import type { PrismaClient } from "@prisma/client";
+import { collectionInclude, toCollectionResponse } from "../../lib/collections";
+import { errorProblem, problem } from "../../lib/problems";
+import { signedResponse } from "../../lib/signing";
+import { notDeleted } from "../../lib/trash";
+
+// Get the latest version of the collection of a release
+export async function onRequestGet<PagesFunction>(context: EventContext<Env, string, Record<string, unknown>>): Promise<Response | void> {
+    const { data, env, params, request } = context;
+    const prisma = data.prisma as PrismaClient;
+    const principal = data.principal as TeaPrincipal;
+
+    try {
+        const releaseUuid = params.uuid as string;
+
+        // Validate UUID format
+        if (!releaseUuid || !/^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(releaseUuid)) {
+            return problem(request, 'invalid-parameter', `Invalid release UUID`);
+        }
+
+        // Get release with its collection
+        const release = await prisma.teaRelease.findFirst({
+            where: {
+                uuid: releaseUuid,
+                organizationUuid: principal.organizationUuid,
+                ...notDeleted
+            },
+            include: {
+                collection: {
+                    include: collectionInclude
+                }
+            }
+        });
+
+        if (!release) {
+            return problem(request, 'not-found', `Release not found`);
+        }
+
+        if (!release.collection || release.collection.deletedAt) {
+            return problem(request, 'not-found', `Collection not found`);
+        }
+
+        return signedResponse(env, request, toCollectionResponse(release.collection));
+
+    } catch (error) {
+        console.error(`Error fetching TEA Collection of release:`, error);
+        return errorProblem(request, error);
+    }
+};
@@ -0,0 +1,103 @@
+import type { TeaPrincipal } from "../../types";
+import type { PrismaClient } from "@prisma/client";
+import { permitsProduct, unauthorized } from "../../lib/auth";
+import { errorProblem, problem } from "../../lib/problems";
+import { recordAudit } from "../../lib/audit";
+import { notDeleted, restoreReleases } from "../../lib/trash";
+
+// Restore a release from the trash, along with the collection deleted with it. A release deleted with its product
+// is restored by restoring the product.
+export async function onRequestPost<PagesFunction>(context: EventContext<Env, string, Record<string, unknown>>): Promise<Response | void> {
+    const { data, params, request } = context;
+    const prisma = data.prisma as PrismaClient;
+    const principal = data.principal as TeaPrincipal;
+
+    try {
+
+        const releaseUuid = params.uuid as string;
+
+        // Validate UUID format
+        if (!releaseUuid || !/^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(releaseUuid)) {
+            return problem(request, 'invalid-parameter', `Invalid release UUID`);
+        }
+
+        // Check if the release is in the trash of the organization
+        const deletedRelease = await prisma.teaRelease.findFirst({
+            where: {
+                uuid: releaseUuid,
+                organizationUuid: principal.organizationUuid,
+                deletedAt: { not: null }
+            },
+            include: {
+                product: {
+                    select: {
+                        deletedAt: true
+                    }
+                }
+            }
+        });
+
+        if (!deletedRelease) {
+            return problem(request, 'not-found', `Release not found in the trash`);
+        }
+
+        // API keys may be limited to specific products
+        if (!permitsProduct(principal, [deletedRelease.productUuid])) {
+            return unauthorized(request, `Not permitted to modify this release`, 'insufficient_scope');
+        }
+
+        if (deletedRelease.product.deletedAt) {
+            return problem(request, 'conflict', `Product ${deletedRelease.productUuid} of the release is in the trash, restore it first`);
+        }
+
+        const now = Math.floor(Date.now() / 1000);
+
+        const release = await prisma.$transaction(async (tx) => {
+            await restoreReleases(tx, [releaseUuid], deletedRelease.deletedAt!);
+
+            const restoredRelease = await tx.teaRelease.findUniqueOrThrow({
+                where: {
+                    uuid: releaseUuid
+                },
+                include: {
+                    components: {
+                        where: {
+                            component: notDeleted
+                        },
+                        select: {
+                            componentUuid: true
+                        }
+                    }
+                }
+            });
+
+            await recordAudit(tx, principal, { operation: 'restore', entityType: 'release', entityUuid: releaseUuid, before: deletedRelease, after: restoredRelease }, now);
+
+            return restoredRelease;
+        });
+
+        // Build response
+        const response = {
+            identifier: release.uuid,
+            productUuid: release.productUuid,
+            tag: release.tag,
+            version: release.version,
+            name: release.name,
+            description: release.description,
+            releaseDate: release.releaseDate,
+            validUntilDate: release.validUntilDate,
+            prerelease: release.prerelease,
+            draft: release.draft,
+            components: release.components.map(rc => rc.componentUuid)
+        };
+
+        return new Response(JSON.stringify(response), {
+            status: 200,
+            headers: { 'Content-Type': 'application/json' }
+        });
+
+    } catch (error) {
+        console.error(`Error restoring TEA Release:`, error);
+        return errorProblem(request, error);
+    }
+};
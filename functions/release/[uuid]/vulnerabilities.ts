@@ -0,0 +1,233 @@
+import type { TeaPrincipal, TeaVexIngestResult } from "../../types";
+import type { Prisma, PrismaClient } from "@prisma/client";
+import { permitsProduct, unauthorized } from "../../lib/auth";
+import { artifactInclude, createArtifact, toArtifactResponse } from "../../lib/artifacts";
+import { MAX_DOCUMENT_SIZE, attachToReleaseCollection, readDocument, storeDocument } from "../../lib/ingest";
+import { pageQuery, paginate, parsePageRequest } from "../../lib/pagination";
+import { errorProblem, problem } from "../../lib/problems";
+import { checkSignature, requestSignature, storeSignature } from "../../lib/signatures";
+import { parseVex, vexJustifications, vexStatuses } from "../../lib/vex";
+import { recordStatements, toVulnerabilityResponse, vexReleaseInclude } from "../../lib/vulnerabilities";
+import { recordAudit } from "../../lib/audit";
+import { notDeleted } from "../../lib/trash";
+
+// MIME types of the stored VEX documents by format
+const vexMimeTypes = {
+    openvex: 'application/openvex+json',
+    cyclonedx: 'application/vnd.cyclonedx+json',
+    csaf: 'application/csaf+json'
+}
+
+// Read a VEX document into the vulnerability statements of a release and attach it to the collection of the release
+export async function onRequestPost<PagesFunction>(context: EventContext<Env, string, Record<string, unknown>>): Promise<Response | void> {
+    const { data, env, params, request } = context;
+    const prisma = data.prisma as PrismaClient;
+    const principal = data.principal as TeaPrincipal;
+
+    try {
+        const releaseUuid = params.uuid as string;
+
+        // Validate UUID format
+        if (!releaseUuid || !/^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(releaseUuid)) {
+            return problem(request, 'invalid-parameter', `Invalid release UUID`);
+        }
+
+        const url = new URL(request.url);
+        const name = url.searchParams.get('name') || `vex.json`;
+        if (!/^[A-Za-z0-9][A-Za-z0-9._-]{0,254}$/.test(name)) {
+            return problem(request, 'invalid-parameter', `Invalid name, expected a file name of letters, digits, '.', '_' or '-'`);
+        }
+
+        // A detached signature of the document may be sent along in the Tea-Signature header
+        const signature = requestSignature(request.headers);
+        if (typeof signature === 'string') {
+            return problem(request, 'invalid-parameter', signature);
+        }
+
+        // Check if release exists and belongs to the organization
+        const release = await prisma.teaRelease.findFirst({
+            where: {
+                uuid: releaseUuid,
+                organizationUuid: principal.organizationUuid,
+                ...notDeleted
+            },
+            include: vexReleaseInclude
+        });
+
+        if (!release) {
+            return problem(request, 'not-found', `Release not found`);
+        }
+
+        // API keys may be limited to specific products
+        if (!permitsProduct(principal, [release.productUuid])) {
+            return unauthorized(request, `Not permitted to modify this release`, 'insufficient_scope');
+        }
+
+        const body = await readDocument(request);
+        if (!body) {
+            return problem(request, 'content-too-large', `The document is larger than ${MAX_DOCUMENT_SIZE} bytes`);
+        }
+        const document = parseVex(new TextDecoder().decode(body));
+        if (typeof document === 'string') {
+            return problem(request, 'invalid-request-body', document);
+        }
+
+        const { verification, rejection } = await checkSignature(prisma, principal.organizationUuid, [release.productUuid], signature, new Uint8Array(body));
+        if (rejection) {
+            return problem(request, 'signature-rejected', rejection);
+        }
+
+        const artifactUuid = crypto.randomUUID();
+        const objectKey = `vex/${artifactUuid}/${name}`;
+        const mimeType = vexMimeTypes[document.format];
+        const now = Math.floor(Date.now() / 1000);
+
+        const { object, checksums } = await storeDocument(env.r2artifacts, objectKey, body, mimeType, principal.organizationUuid, artifactUuid);
+        const signatureUrl = signature
+            ? `${url.origin}/${await storeSignature(env.r2artifacts, objectKey, signature.format, signature.signature, principal.organizationUuid, artifactUuid)}`
+            : undefined;
+
+        const result = await prisma.$transaction(async (tx) => {
+            await createArtifact(tx, artifactUuid, principal.organizationUuid, principal.subject, {
+                name,
+                type: 'VULNERABILITIES',
+                formats: [{
+                    mimeType,
+                    description: `VEX document`,
+                    // The artifact is served by artifactRewritePath at the object key
+                    url: `${url.origin}/${objectKey}`,
+                    signatureUrl,
+                    checksums: Object.entries(checksums).map(([algType, algValue]) => ({ algType, algValue }))
+                }]
+            }, now, { objectKey, size: object.size, etag: object.etag, signature: verification });
+
+            const counts = await recordStatements(tx, principal.organizationUuid, release, document, artifactUuid, now);
+
+            // The collection only records a VEX update when the document changed what is known about the release
+            const collectionVersion = await attachToReleaseCollection(tx, principal.organizationUuid, principal.subject, release, release.product.name, artifactUuid, {
+                type: counts.recorded > 0 ? 'VEX_UPDATED' : 'ARTIFACT_ADDED',
+                comment: `Ingested ${name}`
+            }, now);
+
+            await recordAudit(tx, principal, { operation: 'ingest', entityType: 'release', entityUuid: release.uuid, after: { artifactUuid, collectionVersion, ...counts } }, now);
+
+            return { ...counts, collectionVersion };
+        });
+
+        const teaArtifact = await prisma.teaArtifact.findUnique({
+            where: {
+                uuid: artifactUuid
+            },
+            include: artifactInclude
+        });
+
+        // Build response
+        const response: TeaVexIngestResult = {
+            collectionIdentifier: release.uuid,
+            collectionVersion: result.collectionVersion,
+            recorded: result.recorded,
+            unchanged: result.unchanged,
+            unmatched: result.unmatched,
+            artifact: toArtifactResponse(teaArtifact)
+        };
+
+        return new Response(JSON.stringify(response), {
+            status: 201,
+            headers: { 'Content-Type': 'application/json' }
+        });
+
+    } catch (error) {
+        console.error(`Error ingesting VEX document:`, error);
+        return errorProblem(request, error);
+    }
+};
+
+// List the vulnerability statements of a release
+export async function onRequestGet<PagesFunction>(context: EventContext<Env, string, Record<string, unknown>>): Promise<Response | void> {
+    const { data, env, params, request } = context;
+    const prisma = data.prisma as PrismaClient;
+    const principal = data.principal as TeaPrincipal;
+
+    try {
+        const releaseUuid = params.uuid as string;
+
+        // Validate UUID format
+        if (!releaseUuid || !/^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(releaseUuid)) {
+            return problem(request, 'invalid-parameter', `Invalid release UUID`);
+        }
+
+        // Parse query parameters
+        const url = new URL(context.request.url);
+        const page = await parsePageRequest(env, url, 'vulnerability');
+        if (typeof page === 'string') {
+            return problem(request, 'invalid-parameter', page);
+        }
+        const status = url.searchParams.get('status');
+        const justification = url.searchParams.get('justification');
+        const vulnerabilityId = url.searchParams.get('vulnerabilityId');
+        const componentIdentifier = url.searchParams.get('componentIdentifier');
+
+        if (status && !vexStatuses.includes(status as (typeof vexStatuses)[number])) {
+            return problem(request, 'invalid-parameter', `Invalid status, expected one of: ${vexStatuses.join(', ')}`);
+        }
+
+        if (justification && !vexJustifications.includes(justification)) {
+            return problem(request, 'invalid-parameter', `Invalid justification, expected one of: ${vexJustifications.join(', ')}`);
+        }
+
+        // Check if release exists and belongs to the organization
+        const release = await prisma.teaRelease.findFirst({
+            where: {
+                uuid: releaseUuid,
+                organizationUuid: principal.organizationUuid,
+                ...notDeleted
+            },
+            select: {
+                uuid: true
+            }
+        });
+
+        if (!release) {
+            return problem(request, 'not-found', `Release not found`);
+        }
+
+        // Statements about components in the trash are hidden with them
+        const where: Prisma.TeaVulnerabilityStatementWhereInput = {
+            releaseUuid,
+            AND: [{ OR: [{ componentUuid: null }, { component: notDeleted }] }]
+        };
+
+        if (status) where.status = status;
+        if (justification) where.justification = justification;
+        if (componentIdentifier) where.componentUuid = componentIdentifier;
+
+        // A vulnerability is found by its id or any of its aliases
+        if (vulnerabilityId) {
+            where.OR = [
+                { vulnerabilityId },
+                { aliases: { contains: JSON.stringify(vulnerabilityId) } }
+            ];
+        }
+
+        // Get total count
+        const total = await prisma.teaVulnerabilityStatement.count({ where });
+
+        // Get statements with pagination
+        const rows = await prisma.teaVulnerabilityStatement.findMany(pageQuery(page, where));
+        const { items: statements, pagination } = await paginate(env, 'vulnerability', page, rows, total);
+
+        const response = {
+            data: statements.map(toVulnerabilityResponse),
+            pagination
+        };
+
+        return new Response(JSON.stringify(response), {
+            status: 200,
+            headers: { 'Content-Type': 'application/json' }
+        });
+
+    } catch (error) {
+        console.error(`Error fetching vulnerability statements of release:`, error);
+        return errorProblem(request, error);
+    }
+};
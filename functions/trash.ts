@@ -0,0 +1,101 @@
+import type { TeaPrincipal, TeaTrashItem } from "./types";
+import type { PrismaClient } from "@prisma/client";
+import { SCOPE_PUBLISHER, hasScope, unauthorized } from "./lib/auth";
+import { errorProblem, problem } from "./lib/problems";
+import { paginateSorted, parsePageRequest } from "./lib/pagination";
+import { toTrashItem, trashRetention, trashTypes } from "./lib/trash";
+
+// List the products, components, releases and collections in the trash of the organization, most recently deleted
+// first. Keys limited to some products only see what belongs to those.
+export async function onRequestGet<PagesFunction>(context: EventContext<Env, string, Record<string, unknown>>): Promise<Response | void> {
+    const { data, env, request } = context;
+    const prisma = data.prisma as PrismaClient;
+    const principal = data.principal as TeaPrincipal;
+
+    try {
+
+        if (!hasScope(principal, SCOPE_PUBLISHER)) {
+            return unauthorized(request, `Insufficient scope, ${SCOPE_PUBLISHER} is required`, 'insufficient_scope', SCOPE_PUBLISHER);
+        }
+
+        // Parse query parameters
+        const url = new URL(context.request.url);
+        const page = await parsePageRequest(env, url, 'trash');
+        if (typeof page === 'string') {
+            return problem(request, 'invalid-parameter', page);
+        }
+
+        const type = url.searchParams.get('type') as TeaTrashItem['type'] | null;
+        if (type && !trashTypes.includes(type)) {
+            return problem(request, 'invalid-parameter', `Invalid type, expected one of: ${trashTypes.join(', ')}`);
+        }
+
+        const deleted = {
+            organizationUuid: principal.organizationUuid,
+            deletedAt: { not: null }
+        };
+        const productUuids = principal.products ? { in: principal.products } : undefined;
+        const retention = trashRetention(env);
+        const items: TeaTrashItem[] = [];
+
+        if (!type || type === 'product') {
+            const products = await prisma.teaProduct.findMany({
+                where: { ...deleted, uuid: productUuids }
+            });
+            items.push(...products.map(product => toTrashItem('product', product, product.uuid, retention)));
+        }
+
+        if (!type || type === 'component') {
+            const components = await prisma.teaComponent.findMany({
+                where: { ...deleted, ...(productUuids && { products: { some: { productUuid: productUuids } } }) }
+            });
+            // Components may belong to several products, none is named
+            items.push(...components.map(component => toTrashItem('component', component, null, retention)));
+        }
+
+        if (!type || type === 'release') {
+            const releases = await prisma.teaRelease.findMany({
+                where: { ...deleted, productUuid: productUuids }
+            });
+            items.push(...releases.map(release => toTrashItem('release', release, release.productUuid, retention)));
+        }
+
+        if (!type || type === 'collection') {
+            const collections = await prisma.teaCollection.findMany({
+                where: { ...deleted, release: { productUuid: productUuids } },
+                include: {
+                    release: {
+                        select: {
+                            productUuid: true
+                        }
+                    }
+                }
+            });
+            items.push(...collections.map(collection => toTrashItem('collection', collection, collection.release.productUuid, retention)));
+        }
+
+        // Releases and their collections share UUIDs, so cursors address items by type and identifier
+        const rows = items
+            .map(item => ({ item, createdAt: Date.parse(item.deletedAt) / 1000, uuid: `${item.type}:${item.identifier}` }))
+            .sort((a, b) => b.createdAt - a.createdAt || (a.uuid < b.uuid ? 1 : a.uuid > b.uuid ? -1 : 0));
+
+        const result = await paginateSorted(env, 'trash', page, rows);
+        if (!result) {
+            return problem(request, 'invalid-parameter', `Invalid cursor`);
+        }
+
+        const response = {
+            data: result.items.map(row => row.item),
+            pagination: result.pagination
+        };
+
+        return new Response(JSON.stringify(response), {
+            status: 200,
+            headers: { 'Content-Type': 'application/json' }
+        });
+
+    } catch (error) {
+        console.error(`Error fetching the trash:`, error);
+        return errorProblem(request, error);
+    }
+};
@@ -3,6 +3,160 @@ export interface TeaIdentifier {
     idValue: string;
 }
 
+// A TEA Product, and the TEA Release when known, identified by a TEI
+export interface TeaTeiMatch {
+    productIdentifier: string;
+    releaseIdentifier?: string;
+}
+
+// Relation of a stored CPE name to the CPE of a query, following the NIST CPE name matching rules
+export type TeaCpeRelation = 'EQUAL' | 'SUPERSET' | 'SUBSET' | 'DISJOINT';
+
+// A stored CPE identifier that matched the CPE of a query
+export interface TeaCpeMatch {
+    cpe: string;
+    relation: TeaCpeRelation;
+}
+
+// A request value that does not match the OpenAPI specs, pointer is a JSON pointer into the body or names the parameter
+export interface TeaViolation {
+    in: 'path' | 'query' | 'body';
+    pointer: string;
+    message: string;
+}
+
+// Pagination of a list, pageOffset is omitted when the page was requested by cursor
+export interface TeaPagination {
+    total: number;
+    pageOffset?: number;
+    pageSize: number;
+    hasNext: boolean;
+    hasPrevious: boolean;
+    next: string | null;
+    prev: string | null;
+}
+
+export type TeaScope = 'tea:consumer' | 'tea:publisher';
+
+export interface TeaPrincipal {
+    subject: string;
+    organizationUuid: string;
+    scopes: TeaScope[];
+    authType: 'jwt' | 'apikey';
+    claims?: Record<string, unknown>;
+    apiKeyUuid?: string;
+    products?: string[];
+}
+
+export interface CreateTeaApiKeyRequest {
+    name: string;
+    scopes: TeaScope[];
+    products?: string[];
+    expiresAt?: string;
+}
+
+export interface UpdateTeaApiKeyRequest {
+    name?: string;
+    scopes?: TeaScope[];
+    products?: string[] | null;
+    expiresAt?: string | null;
+}
+
+export interface TeaApiKey {
+    identifier: string;
+    name: string;
+    prefix: string;
+    scopes: TeaScope[];
+    products?: string[];
+    createdBy: string;
+    expiresAt?: string;
+    revokedAt?: string;
+    lastUsedAt?: string;
+    createdAt: string;
+    key?: string;
+}
+
+export type TeaWebhookEventType = 'release.created' | 'release.deleted' | 'collection.version.added' | 'collection.lifecycle.transitioned' | 'collection.deleted' | 'artifact.added';
+
+export interface CreateTeaWebhookRequest {
+    name: string;
+    url: string;
+    events: TeaWebhookEventType[];
+    products?: string[];
+    active?: boolean;
+}
+
+export interface UpdateTeaWebhookRequest {
+    name?: string;
+    url?: string;
+    events?: TeaWebhookEventType[];
+    products?: string[] | null;
+    active?: boolean;
+}
+
+export interface TeaWebhook {
+    identifier: string;
+    name: string;
+    url: string;
+    events: TeaWebhookEventType[];
+    products?: string[];
+    active: boolean;
+    createdBy: string;
+    createdAt: string;
+    updatedAt: string;
+    secret?: string;
+}
+
+export interface TeaWebhookDelivery {
+    identifier: string;
+    webhookIdentifier: string;
+    eventIdentifier: string;
+    eventType: TeaWebhookEventType;
+    status: 'pending' | 'delivered' | 'failed';
+    attempts: number;
+    nextAttemptAt?: string;
+    lastAttemptAt?: string;
+    lastResponseStatus?: number;
+    lastError?: string;
+    deliveredAt?: string;
+    createdAt: string;
+    payload: Record<string, unknown>;
+}
+
+export interface TeaAuditEvent {
+    identifier: string;
+    sequence: number;
+    actor: string;
+    apiKeyIdentifier?: string;
+    operation: string;
+    entityType: string;
+    entityIdentifier: string;
+    changes: Record<string, unknown>;
+    previousHash?: string;
+    hash: string;
+    createdAt: string;
+}
+
+export interface TeaTrashItem {
+    type: 'product' | 'component' | 'release' | 'collection';
+    identifier: string;
+    name?: string;
+    productIdentifier?: string;
+    deletedAt: string;
+    deletedBy?: string;
+    purgeAt: string;
+}
+
+export interface TeaAuditVerification {
+    valid: boolean;
+    fromSequence: number;
+    checked: number;
+    lastSequence?: number;
+    lastHash?: string;
+    brokenAt?: number;
+    detail?: string;
+}
+
 export interface UpdateTeaComponentRequest {
     name?: string;
     barcode?: string;
@@ -30,6 +184,24 @@ export interface TeaComponent {
     subpath?: string;
 }
 
+// A public key trusted to sign the artifacts of a product, publicKey is a JWK object or a PEM or armored OpenPGP key
+export interface TeaTrustedKey {
+    identifier: string;
+    productIdentifier: string;
+    name: string;
+    keyType: 'jwk' | 'pem' | 'pgp';
+    publicKey: string | Record<string, unknown>;
+    fingerprint: string;
+    createdBy: string;
+    createdAt: string;
+}
+
+export interface CreateTeaTrustedKeyRequest {
+    name: string;
+    keyType: 'jwk' | 'pem' | 'pgp';
+    publicKey: string | Record<string, unknown>;
+}
+
 export interface UpdateTeaProductRequest {
     name?: string;
     barcode?: string;
@@ -39,8 +211,9 @@ export interface UpdateTeaProductRequest {
     type?: string;
     namespace?: string;
     version?: string;
-    qualifiers?: string;
+    qualifiers?: Record<string, string>[];
     subpath?: string;
+    signaturePolicy?: 'none' | 'verify' | 'require';
 }
 
 export interface TeaProduct {
@@ -55,6 +228,7 @@ export interface TeaProduct {
     version?: string;
     qualifiers?: Record<string, string>[];
     subpath?: string;
+    signaturePolicy?: 'none' | 'verify' | 'require';
     components: string[];
 }
 
@@ -83,10 +257,94 @@ export interface TeaRelease {
     components: string[];
 }
 
+export interface TeaArtifactChecksum {
+    algType: string;
+    algValue: string;
+}
+
+// The outcome of verifying the detached signature of a stored artifact
+export interface TeaSignatureVerification {
+    format: 'jws' | 'sigstore' | 'pgp';
+    status: 'verified' | 'untrusted' | 'invalid';
+    keyIdentifier?: string;
+    detail: string;
+    verifiedAt: string;
+}
+
+export interface TeaArtifactFormat {
+    mimeType: string;
+    description: string;
+    url: string;
+    signatureUrl?: string;
+    signature?: TeaSignatureVerification;
+    checksums: TeaArtifactChecksum[];
+}
+
+export interface TeaAuthor {
+    name: string;
+    email: string;
+    organization: string;
+}
+
 export interface TeaArtifact {
+    uuid: string;
     name: string;
-    downloadUrl: string;
-    checksums?: Record<string, string>;
+    type: string;
+    author?: TeaAuthor;
+    formats: TeaArtifactFormat[];
+}
+
+// Either a reference to an existing artifact, or a new artifact to create
+export interface TeaArtifactInput {
+    uuid?: string;
+    name?: string;
+    type?: string;
+    author?: TeaAuthor;
+    formats?: TeaArtifactFormat[];
+}
+
+export interface TeaUploadedArtifact extends TeaArtifact {
+    collectionIdentifier?: string;
+}
+
+// The objects built from an ingested BOM
+export interface TeaIngestResult {
+    productIdentifier: string;
+    releaseIdentifier: string;
+    collectionIdentifier: string;
+    collectionVersion: number;
+    components: string[];
+    created: {
+        product: boolean;
+        release: boolean;
+        components: number;
+    };
+    artifact: TeaArtifact;
+}
+
+// The status of a vulnerability in a release, or in one of its components, as stated by a VEX document
+export interface TeaVulnerabilityStatement {
+    uuid: string;
+    vulnerabilityId: string;
+    aliases: string[];
+    componentIdentifier?: string;
+    status: 'not_affected' | 'affected' | 'fixed' | 'under_investigation';
+    justification?: string;
+    impactStatement?: string;
+    actionStatement?: string;
+    format: 'openvex' | 'cyclonedx' | 'csaf';
+    artifactIdentifier?: string;
+    timestamp: string;
+}
+
+// The outcome of reading a VEX document into the statements of a release
+export interface TeaVexIngestResult {
+    collectionIdentifier: string;
+    collectionVersion: number;
+    recorded: number;
+    unchanged: number;
+    unmatched: number;
+    artifact: TeaArtifact;
 }
 
 export interface TeaLifecycle {
@@ -98,13 +356,23 @@ export interface TeaLifecycle {
     lastUpdated?: string;
 }
 
+export interface TeaCollectionUpdateReason {
+    type: string;
+    comment?: string;
+}
+
 export interface CreateTeaCollectionRequest {
     releaseIdentifier: string;
-    updateReason: {
-        type: string;
-        comment?: string;
-    };
-    artifacts?: TeaArtifact[];
+    updateReason: TeaCollectionUpdateReason;
+    artifacts?: TeaArtifactInput[];
+}
+
+export interface TeaCollectionVersion {
+    uuid: string;
+    version: number;
+    releaseDate: string;
+    updateReason: TeaCollectionUpdateReason;
+    artifacts: TeaArtifact[];
 }
 
 export interface TeaCollection {
@@ -154,6 +422,7 @@ export interface CreateTeaReleaseRequest {
 export interface UpdateTeaCollectionRequest {
     name?: string;
     description?: string;
-    artifacts?: TeaArtifact[];
+    artifacts?: TeaArtifactInput[];
+    updateReason?: TeaCollectionUpdateReason;
     lifecycle?: TeaLifecycle;
 }
@@ -0,0 +1,140 @@
+import type { CreateTeaWebhookRequest, TeaPrincipal, TeaWebhook } from "./types";
+import type { PrismaClient } from "@prisma/client";
+import { unauthorized } from "./lib/auth";
+import { errorProblem, problem } from "./lib/problems";
+import { pageQuery, paginate, parsePageRequest } from "./lib/pagination";
+import { recordAudit } from "./lib/audit";
+import { notDeleted } from "./lib/trash";
+import { generateWebhookSecret, invalidWebhookEvents, invalidWebhookUrl, toWebhookResponse } from "./lib/webhooks";
+
+export async function onRequestPost<PagesFunction>(context: EventContext<Env, string, Record<string, unknown>>): Promise<Response | void> {
+    const { data, request } = context;
+    const prisma = data.prisma as PrismaClient;
+    const principal = data.principal as TeaPrincipal;
+
+    try {
+
+        // Webhooks receive events of every product, API keys may be limited to some
+        if (principal.authType !== 'jwt') {
+            return unauthorized(request, `Webhooks can only be managed with a user token`, 'insufficient_scope');
+        }
+
+        // Parse request body
+        const requestBody: CreateTeaWebhookRequest = await request.json();
+
+        // Validate required fields
+        if (!requestBody.name) {
+            return problem(request, 'invalid-request-body', `Missing required field: name`);
+        }
+
+        const invalid = invalidWebhookUrl(requestBody.url) || invalidWebhookEvents(requestBody.events);
+        if (invalid) {
+            return problem(request, 'invalid-request-body', invalid);
+        }
+
+        if (requestBody.products !== undefined && (!Array.isArray(requestBody.products) || requestBody.products.some(uuid => !/^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(uuid)))) {
+            return problem(request, 'invalid-request-body', `Invalid product UUID in products`);
+        }
+
+        // Products the webhook is limited to must belong to the organization
+        if (requestBody.products) {
+            const ownedProducts = await prisma.teaProduct.count({
+                where: {
+                    uuid: { in: requestBody.products },
+                    organizationUuid: principal.organizationUuid,
+                    ...notDeleted
+                }
+            });
+            if (ownedProducts !== new Set(requestBody.products).size) {
+                return problem(request, 'not-found', `Product not found`);
+            }
+        }
+
+        const now = Math.floor(Date.now() / 1000);
+
+        // Generate the secret, it is returned once for the receiver to verify deliveries with
+        const secret = generateWebhookSecret();
+
+        const webhook = await prisma.$transaction(async (tx) => {
+            const createdWebhook = await tx.teaWebhook.create({
+                data: {
+                    uuid: crypto.randomUUID(),
+                    organizationUuid: principal.organizationUuid,
+                    name: requestBody.name,
+                    url: requestBody.url,
+                    secret,
+                    events: JSON.stringify([...new Set(requestBody.events)]),
+                    products: requestBody.products ? JSON.stringify(requestBody.products) : null,
+                    active: requestBody.active ?? true,
+                    createdBy: principal.subject,
+                    createdAt: now,
+                    updatedAt: now
+                }
+            });
+
+            await recordAudit(tx, principal, { operation: 'create', entityType: 'webhook', entityUuid: createdWebhook.uuid, after: createdWebhook }, now);
+
+            return createdWebhook;
+        });
+
+        const response: TeaWebhook = {
+            ...toWebhookResponse(webhook),
+            secret
+        };
+
+        return new Response(JSON.stringify(response), {
+            status: 201,
+            headers: { 'Content-Type': 'application/json' }
+        });
+
+    } catch (error) {
+        console.error(`Error creating webhook:`, error);
+        return errorProblem(request, error);
+    }
+};
+
+export async function onRequestGet<PagesFunction>(context: EventContext<Env, string, Record<string, unknown>>): Promise<Response | void> {
+    const { data, env, request } = context;
+    const prisma = data.prisma as PrismaClient;
+    const principal = data.principal as TeaPrincipal;
+
+    try {
+
+        if (principal.authType !== 'jwt') {
+            return unauthorized(request, `Webhooks can only be managed with a user token`, 'insufficient_scope');
+        }
+
+        // Parse query parameters
+        const url = new URL(context.request.url);
+        const page = await parsePageRequest(env, url, 'webhook');
+        if (typeof page === 'string') {
+            return problem(request, 'invalid-parameter', page);
+        }
+
+        // Webhooks belong to the organization rather than to the user who created them
+        const where = {
+            organizationUuid: principal.organizationUuid
+        };
+
+        // Get total count
+        const total = await prisma.teaWebhook.count({ where });
+
+        // Get webhooks with pagination
+        const rows = await prisma.teaWebhook.findMany(pageQuery(page, where));
+        const { items: webhooks, pagination } = await paginate(env, 'webhook', page, rows, total);
+
+        const response = {
+            data: webhooks.map(toWebhookResponse),
+            pagination
+        };
+
+        return new Response(JSON.stringify(response), {
+            status: 200,
+            headers: { 'Content-Type': 'application/json' }
+        });
+
+    } catch (error) {
+        console.error(`Error fetching webhooks:`, error);
+        return errorProblem(request, error);
+    }
+};
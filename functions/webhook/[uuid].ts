@@ -0,0 +1,212 @@
+import type { TeaPrincipal, UpdateTeaWebhookRequest } from "../types";
+import type { PrismaClient } from "@prisma/client";
+import { unauthorized } from "../lib/auth";
+import { errorProblem, problem } from "../lib/problems";
+import { recordAudit } from "../lib/audit";
+import { notDeleted } from "../lib/trash";
+import { invalidWebhookEvents, invalidWebhookUrl, toWebhookResponse } from "../lib/webhooks";
+
+export async function onRequestGet<PagesFunction>(context: EventContext<Env, string, Record<string, unknown>>): Promise<Response | void> {
+    const { data, params, request } = context;
+    const prisma = data.prisma as PrismaClient;
+    const principal = data.principal as TeaPrincipal;
+
+    try {
+
+        if (principal.authType !== 'jwt') {
+            return unauthorized(request, `Webhooks can only be managed with a user token`, 'insufficient_scope');
+        }
+
+        const webhookUuid = params.uuid as string;
+
+        // Validate UUID format
+        if (!webhookUuid || !/^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(webhookUuid)) {
+            return problem(request, 'invalid-parameter', `Invalid webhook UUID`);
+        }
+
+        // Check if webhook exists and belongs to the organization
+        const webhook = await prisma.teaWebhook.findFirst({
+            where: {
+                uuid: webhookUuid,
+                organizationUuid: principal.organizationUuid
+            }
+        });
+
+        if (!webhook) {
+            return problem(request, 'not-found', `Webhook not found`);
+        }
+
+        return new Response(JSON.stringify(toWebhookResponse(webhook)), {
+            status: 200,
+            headers: { 'Content-Type': 'application/json' }
+        });
+
+    } catch (error) {
+        console.error(`Error fetching webhook:`, error);
+        return errorProblem(request, error);
+    }
+};
+
+export async function onRequestPatch<PagesFunction>(context: EventContext<Env, string, Record<string, unknown>>): Promise<Response | void> {
+    const { data, params, request } = context;
+    const prisma = data.prisma as PrismaClient;
+    const principal = data.principal as TeaPrincipal;
+
+    try {
+
+        if (principal.authType !== 'jwt') {
+            return unauthorized(request, `Webhooks can only be managed with a user token`, 'insufficient_scope');
+        }
+
+        const webhookUuid = params.uuid as string;
+
+        // Validate UUID format
+        if (!webhookUuid || !/^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(webhookUuid)) {
+            return problem(request, 'invalid-parameter', `Invalid webhook UUID`);
+        }
+
+        // Check if webhook exists and belongs to the organization
+        const existingWebhook = await prisma.teaWebhook.findFirst({
+            where: {
+                uuid: webhookUuid,
+                organizationUuid: principal.organizationUuid
+            }
+        });
+
+        if (!existingWebhook) {
+            return problem(request, 'not-found', `Webhook not found`);
+        }
+
+        // Parse request body
+        const requestBody: UpdateTeaWebhookRequest = await request.json();
+
+        // Build update data
+        const now = Math.floor(Date.now() / 1000);
+        const updateData: any = {
+            updatedAt: now
+        };
+
+        if (requestBody.name !== undefined) updateData.name = requestBody.name;
+
+        if (requestBody.url !== undefined) {
+            const invalid = invalidWebhookUrl(requestBody.url);
+            if (invalid) {
+                return problem(request, 'invalid-request-body', invalid);
+            }
+            updateData.url = requestBody.url;
+        }
+
+        if (requestBody.events !== undefined) {
+            const invalid = invalidWebhookEvents(requestBody.events);
+            if (invalid) {
+                return problem(request, 'invalid-request-body', invalid);
+            }
+            updateData.events = JSON.stringify([...new Set(requestBody.events)]);
+        }
+
+        // A null product list subscribes the webhook to events of every product
+        if (requestBody.products !== undefined) {
+            if (requestBody.products !== null && (!Array.isArray(requestBody.products) || requestBody.products.some(uuid => !/^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(uuid)))) {
+                return problem(request, 'invalid-request-body', `Invalid product UUID in products`);
+            }
+            if (requestBody.products) {
+                const ownedProducts = await prisma.teaProduct.count({
+                    where: {
+                        uuid: { in: requestBody.products },
+                        organizationUuid: principal.organizationUuid,
+                        ...notDeleted
+                    }
+                });
+                if (ownedProducts !== new Set(requestBody.products).size) {
+                    return problem(request, 'not-found', `Product not found`);
+                }
+            }
+            updateData.products = requestBody.products ? JSON.stringify(requestBody.products) : null;
+        }
+
+        // Inactive webhooks receive no new events, deliveries already queued wait until it is active again
+        if (requestBody.active !== undefined) updateData.active = requestBody.active;
+
+        // Update webhook in database and record the change in the audit log
+        const updatedWebhook = await prisma.$transaction(async (tx) => {
+            const changedWebhook = await tx.teaWebhook.update({
+                where: {
+                    uuid: webhookUuid
+                },
+                data: updateData
+            });
+
+            await recordAudit(tx, principal, { operation: 'update', entityType: 'webhook', entityUuid: webhookUuid, before: existingWebhook, after: changedWebhook }, now);
+
+            return changedWebhook;
+        });
+
+        return new Response(JSON.stringify(toWebhookResponse(updatedWebhook)), {
+            status: 200,
+            headers: { 'Content-Type': 'application/json' }
+        });
+
+    } catch (error) {
+        console.error(`Error updating webhook:`, error);
+        return errorProblem(request, error);
+    }
+};
+
+export async function onRequestDelete<PagesFunction>(context: EventContext<Env, string, Record<string, unknown>>): Promise<Response | void> {
+    const { data, params, request } = context;
+    const prisma = data.prisma as PrismaClient;
+    const principal = data.principal as TeaPrincipal;
+
+    try {
+
+        if (principal.authType !== 'jwt') {
+            return unauthorized(request, `Webhooks can only be managed with a user token`, 'insufficient_scope');
+        }
+
+        const webhookUuid = params.uuid as string;
+
+        // Validate UUID format
+        if (!webhookUuid || !/^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(webhookUuid)) {
+            return problem(request, 'invalid-parameter', `Invalid webhook UUID`);
+        }
+
+        // Check if webhook exists and belongs to the organization
+        const existingWebhook = await prisma.teaWebhook.findFirst({
+            where: {
+                uuid: webhookUuid,
+                organizationUuid: principal.organizationUuid
+            }
+        });
+
+        if (!existingWebhook) {
+            return problem(request, 'not-found', `Webhook not found`);
+        }
+
+        const now = Math.floor(Date.now() / 1000);
+
+        // Deliveries are only kept for their webhook, pending ones are dropped with it
+        await prisma.$transaction(async (tx) => {
+            await tx.teaWebhookDelivery.deleteMany({
+                where: {
+                    webhookUuid
+                }
+            });
+
+            await tx.teaWebhook.delete({
+                where: {
+                    uuid: webhookUuid
+                }
+            });
+
+            await recordAudit(tx, principal, { operation: 'delete', entityType: 'webhook', entityUuid: webhookUuid, before: existingWebhook }, now);
+        });
+
+        return new Response(null, {
+            status: 204
+        });
+
+    } catch (error) {
+        console.error(`Error deleting webhook:`, error);
+        return errorProblem(request, error);
+    }
+};
@@ -0,0 +1,81 @@
+import type { TeaPrincipal } from "../../types";
+import type { PrismaClient } from "@prisma/client";
+import { unauthorized } from "../../lib/auth";
+import { pageQuery, paginate, parsePageRequest } from "../../lib/pagination";
+import { errorProblem, problem } from "../../lib/problems";
+import { deliveryStatuses, toDeliveryResponse } from "../../lib/webhooks";
+
+// List the deliveries of a webhook, newest first. Deliveries with the failed status ran out of attempts and form
+// the dead-letter list of the webhook.
+export async function onRequestGet<PagesFunction>(context: EventContext<Env, string, Record<string, unknown>>): Promise<Response | void> {
+    const { data, env, params, request } = context;
+    const prisma = data.prisma as PrismaClient;
+    const principal = data.principal as TeaPrincipal;
+
+    try {
+
+        if (principal.authType !== 'jwt') {
+            return unauthorized(request, `Webhooks can only be managed with a user token`, 'insufficient_scope');
+        }
+
+        const webhookUuid = params.uuid as string;
+
+        // Validate UUID format
+        if (!webhookUuid || !/^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(webhookUuid)) {
+            return problem(request, 'invalid-parameter', `Invalid webhook UUID`);
+        }
+
+        // Parse query parameters
+        const url = new URL(context.request.url);
+        const page = await parsePageRequest(env, url, 'webhookdelivery');
+        if (typeof page === 'string') {
+            return problem(request, 'invalid-parameter', page);
+        }
+        const status = url.searchParams.get('status');
+        if (status && !deliveryStatuses.includes(status)) {
+            return problem(request, 'invalid-parameter', `Invalid status, expected one of: ${deliveryStatuses.join(', ')}`);
+        }
+
+        // Check if webhook exists and belongs to the organization
+        const webhook = await prisma.teaWebhook.findFirst({
+            where: {
+                uuid: webhookUuid,
+                organizationUuid: principal.organizationUuid
+            },
+            select: {
+                uuid: true
+            }
+        });
+
+        if (!webhook) {
+            return problem(request, 'not-found', `Webhook not found`);
+        }
+
+        const where: any = {
+            webhookUuid
+        };
+
+        if (status) where.status = status;
+
+        // Get total count
+        const total = await prisma.teaWebhookDelivery.count({ where });
+
+        // Get deliveries with pagination
+        const rows = await prisma.teaWebhookDelivery.findMany(pageQuery(page, where));
+        const { items: deliveries, pagination } = await paginate(env, 'webhookdelivery', page, rows, total);
+
+        const response = {
+            data: deliveries.map(toDeliveryResponse),
+            pagination
+        };
+
+        return new Response(JSON.stringify(response), {
+            status: 200,
+            headers: { 'Content-Type': 'application/json' }
+        });
+
+    } catch (error) {
+        console.error(`Error fetching webhook deliveries:`, error);
+        return errorProblem(request, error);
+    }
+};
@@ -0,0 +1,81 @@
+import type { TeaPrincipal } from "../../../../types";
+import type { PrismaClient } from "@prisma/client";
+import { unauthorized } from "../../../../lib/auth";
+import { errorProblem, problem } from "../../../../lib/problems";
+import { recordAudit } from "../../../../lib/audit";
+import { toDeliveryResponse } from "../../../../lib/webhooks";
+
+// Queue a failed delivery again, with a fresh set of attempts. It is posted once the response is sent.
+export async function onRequestPost<PagesFunction>(context: EventContext<Env, string, Record<string, unknown>>): Promise<Response | void> {
+    const { data, params, request } = context;
+    const prisma = data.prisma as PrismaClient;
+    const principal = data.principal as TeaPrincipal;
+
+    try {
+
+        if (principal.authType !== 'jwt') {
+            return unauthorized(request, `Webhooks can only be managed with a user token`, 'insufficient_scope');
+        }
+
+        const webhookUuid = params.uuid as string;
+        const deliveryUuid = params.deliveryUuid as string;
+
+        // Validate UUID format
+        if (!webhookUuid || !/^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(webhookUuid)) {
+            return problem(request, 'invalid-parameter', `Invalid webhook UUID`);
+        }
+
+        if (!deliveryUuid || !/^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(deliveryUuid)) {
+            return problem(request, 'invalid-parameter', `Invalid delivery UUID`);
+        }
+
+        // Check if the delivery exists and belongs to a webhook of the organization
+        const delivery = await prisma.teaWebhookDelivery.findFirst({
+            where: {
+                uuid: deliveryUuid,
+                webhookUuid,
+                webhook: {
+                    organizationUuid: principal.organizationUuid
+                }
+            }
+        });
+
+        if (!delivery) {
+            return problem(request, 'not-found', `Delivery not found`);
+        }
+
+        if (delivery.status !== 'failed') {
+            return problem(request, 'conflict', `Only failed deliveries can be retried, the delivery is ${delivery.status}`);
+        }
+
+        const now = Math.floor(Date.now() / 1000);
+        const updatedDelivery = await prisma.$transaction(async (tx) => {
+            const changedDelivery = await tx.teaWebhookDelivery.update({
+                where: {
+                    uuid: deliveryUuid
+                },
+                data: {
+                    status: 'pending',
+                    attempts: 0,
+                    nextAttemptAt: now
+                }
+            });
+
+            await recordAudit(tx, principal, { operation: 'retry', entityType: 'webhookdelivery', entityUuid: deliveryUuid, before: delivery, after: changedDelivery }, now);
+
+            return changedDelivery;
+        });
+
+        // The delivery is pending again, post it once the response is sent
+        data.webhooksQueued = true;
+
+        return new Response(JSON.stringify(toDeliveryResponse(updatedDelivery)), {
+            status: 202,
+            headers: { 'Content-Type': 'application/json' }
+        });
+
+    } catch (error) {
+        console.error(`Error retrying webhook delivery:`, error);
+        return errorProblem(request, error);
+    }
+};
@@ -1,10 +1,16 @@
 /* eslint-disable */
-// Generated by Wrangler by running `wrangler types` (hash: 5846f2597c27f1ac92fc107ef8f4f040)
+// Generated by Wrangler by running `wrangler types` (hash: 0128ef92061b3738782084068221ce4d)
 // Runtime types generated with workerd@1.20260317.1 2024-03-20 nodejs_compat
 declare namespace Cloudflare {
 	interface Env {
 		r2artifacts: R2Bucket;
 		d1db: D1Database;
+		JWT_ISSUER: "";
+		JWT_AUDIENCE: "tea";
+		JWT_JWKS_URL: "";
+		JWT_ORGANIZATION_CLAIM: "org";
+		SIGNING_KEY_ID: "";
+		TRASH_RETENTION_DAYS: "30";
 	}
 }
 interface Env extends Cloudflare.Env {}